@@ -0,0 +1,340 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  ErrorCode,
+  LATEST_PROTOCOL_VERSION,
+  type JSONRPCMessage,
+  type JSONRPCNotification,
+  type JSONRPCResponse,
+} from "@modelcontextprotocol/sdk/types.js";
+import { McpBridge } from "./McpBridge.js";
+import { McpClient } from "../client/McpClient.js";
+import { createLoopbackTransportPair } from "../transport/loopback-transport.js";
+import type { McpBridgeOptions } from "./types.js";
+
+/**
+ * 远程替身 Server 处理一条消息，通知返回 null
+ */
+function respond(message: JSONRPCMessage): JSONRPCResponse | null {
+  if (!("method" in message) || !("id" in message)) {
+    return null;
+  }
+  const reply = (result: Record<string, unknown>) =>
+    ({ jsonrpc: "2.0", id: message.id, result }) as JSONRPCResponse;
+
+  switch (message.method) {
+    case "initialize":
+      return reply({
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: { tools: {} },
+        serverInfo: { name: "remote", version: "1.0.0" },
+      });
+    case "ping":
+      return reply({});
+    case "tools/list":
+      return reply({
+        tools: [{ name: "remote-echo", inputSchema: { type: "object" } }],
+      });
+    case "tools/call":
+      return reply({
+        content: [
+          { type: "text", text: JSON.stringify(message.params?.arguments) },
+        ],
+      });
+    default:
+      return {
+        jsonrpc: "2.0",
+        id: message.id,
+        error: { code: ErrorCode.MethodNotFound, message: "未知方法" },
+      } as JSONRPCResponse;
+  }
+}
+
+/**
+ * Streamable HTTP 替身端点：只返回 JSON 响应，不提供 SSE 流
+ */
+function createFakeHttpEndpoint() {
+  const sessions = new Set<string>();
+  const requests: Array<{
+    method: string;
+    headers: Headers;
+    message?: JSONRPCMessage;
+  }> = [];
+  let sessionCount = 0;
+
+  const fetch = async (
+    _url: string | URL,
+    init: RequestInit = {}
+  ): Promise<Response> => {
+    const method = init.method ?? "GET";
+    const headers = new Headers(init.headers);
+    const sessionId = headers.get("mcp-session-id");
+    const message =
+      typeof init.body === "string"
+        ? (JSON.parse(init.body) as JSONRPCMessage)
+        : undefined;
+    requests.push({ method, headers, message });
+
+    if (method === "GET") {
+      return new Response(null, { status: 405 });
+    }
+    if (method === "DELETE") {
+      sessions.delete(sessionId ?? "");
+      return new Response(null, { status: 200 });
+    }
+
+    const response = respond(message!);
+    const responseHeaders = new Headers({
+      "content-type": "application/json",
+    });
+    if (message && "method" in message && message.method === "initialize") {
+      const id = `remote-session-${++sessionCount}`;
+      sessions.add(id);
+      responseHeaders.set("mcp-session-id", id);
+    } else if (!sessionId || !sessions.has(sessionId)) {
+      return new Response("Session not found", { status: 404 });
+    }
+
+    if (!response) {
+      return new Response(null, { status: 202 });
+    }
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: responseHeaders,
+    });
+  };
+
+  return { fetch, sessions, requests };
+}
+
+/**
+ * WebSocket 替身端点：替换全局 WebSocket，每个实例即一个远程连接
+ */
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  readonly received: JSONRPCMessage[] = [];
+  onopen?: () => void;
+  onclose?: () => void;
+  onerror?: (event: unknown) => void;
+  onmessage?: (event: { data: string }) => void;
+
+  readonly url: URL;
+  readonly protocol: string;
+
+  constructor(url: URL, protocol: string) {
+    this.url = url;
+    this.protocol = protocol;
+    FakeWebSocket.instances.push(this);
+    setTimeout(() => this.onopen?.());
+  }
+
+  send(data: string): void {
+    const message = JSON.parse(data) as JSONRPCMessage;
+    this.received.push(message);
+    const response = respond(message);
+    if (response) {
+      this.push(response);
+    }
+  }
+
+  /**
+   * 远程 Server 主动发送消息
+   */
+  push(message: JSONRPCMessage): void {
+    setTimeout(() => this.onmessage?.({ data: JSON.stringify(message) }));
+  }
+
+  close(): void {
+    setTimeout(() => this.onclose?.());
+  }
+}
+
+/**
+ * 创建 Bridge 并让本地 McpClient 通过内存 Transport 连接
+ */
+async function connectThroughBridge(options: McpBridgeOptions) {
+  const bridge = new McpBridge({ reconnectDelay: 0, ...options });
+  const client = new McpClient({ autoReconnect: false });
+  const pair = createLoopbackTransportPair();
+  const sessionId = await bridge.connect(pair.server);
+  const notifications: JSONRPCNotification[] = [];
+  client.onNotification((notification) => notifications.push(notification));
+  const info = await client.connect(pair.client);
+  return { bridge, client, sessionId, info, notifications };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  FakeWebSocket.instances = [];
+});
+
+describe("McpBridge 连接 Streamable HTTP", () => {
+  const remote = (endpoint: ReturnType<typeof createFakeHttpEndpoint>) => ({
+    type: "streamable-http" as const,
+    url: "https://mcp.example.com/mcp",
+    options: { fetch: endpoint.fetch },
+  });
+
+  it("转发请求并携带远程会话 ID 与协议版本", async () => {
+    const endpoint = createFakeHttpEndpoint();
+    const { bridge, client, sessionId, info } = await connectThroughBridge({
+      remote: remote(endpoint),
+    });
+
+    expect(info.name).toBe("remote");
+    expect(bridge.getSession(sessionId)).toMatchObject({
+      remoteSessionId: "remote-session-1",
+      remoteState: "connected",
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+    });
+
+    const tools = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(["remote-echo"]);
+    const request = endpoint.requests.find(
+      ({ message }) =>
+        message && "method" in message && message.method === "tools/list"
+    );
+    expect(request?.headers.get("mcp-session-id")).toBe("remote-session-1");
+    expect(request?.headers.get("mcp-protocol-version")).toBe(
+      LATEST_PROTOCOL_VERSION
+    );
+
+    await client.disconnect();
+    await bridge.disconnect();
+    expect(endpoint.sessions.size).toBe(0);
+  });
+
+  it("远程会话失效（404）时重新初始化并重试请求", async () => {
+    const endpoint = createFakeHttpEndpoint();
+    const { bridge, client, sessionId } = await connectThroughBridge({
+      remote: remote(endpoint),
+    });
+
+    endpoint.sessions.clear();
+    const result = await client.callTool({
+      name: "remote-echo",
+      arguments: { value: 1 },
+    });
+    expect(result.content).toEqual([{ type: "text", text: '{"value":1}' }]);
+    expect(bridge.getSession(sessionId)?.remoteSessionId).toBe(
+      "remote-session-2"
+    );
+
+    const initializes = endpoint.requests.filter(
+      ({ message }) =>
+        message && "method" in message && message.method === "initialize"
+    );
+    expect(initializes).toHaveLength(2);
+    expect(
+      initializes[1].message && "id" in initializes[1].message
+        ? initializes[1].message.id
+        : undefined
+    ).toMatch(/^postmessage-mcp-bridge-/);
+
+    await client.disconnect();
+    await bridge.disconnect();
+  });
+
+  it("无法连接时向 Client 返回错误并上报", async () => {
+    const onError = vi.fn();
+    const bridge = new McpBridge({
+      remote: {
+        type: "streamable-http",
+        url: "https://mcp.example.com/mcp",
+        options: {
+          fetch: async () => {
+            throw new TypeError("Failed to fetch");
+          },
+        },
+      },
+      reconnectAttempts: 1,
+      reconnectDelay: 0,
+      onError,
+    });
+    const pair = createLoopbackTransportPair();
+    const received: JSONRPCMessage[] = [];
+    pair.client.onmessage = (message) => received.push(message);
+    await bridge.connect(pair.server);
+    await pair.client.start();
+
+    await pair.client.send({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: "test", version: "1.0.0" },
+      },
+    });
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    expect(received[0]).toMatchObject({
+      id: 1,
+      error: { code: ErrorCode.ConnectionClosed },
+    });
+    expect(onError).toHaveBeenCalled();
+    await bridge.disconnect();
+  });
+});
+
+describe("McpBridge 连接 WebSocket", () => {
+  const remote = {
+    type: "websocket" as const,
+    url: "wss://mcp.example.com/ws",
+  };
+
+  it("使用 mcp 子协议转发请求与远程通知", async () => {
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    const { bridge, client, sessionId, notifications } =
+      await connectThroughBridge({ remote });
+
+    const [socket] = FakeWebSocket.instances;
+    expect(socket.url.href).toBe("wss://mcp.example.com/ws");
+    expect(socket.protocol).toBe("mcp");
+    expect(bridge.getSession(sessionId)?.remoteSessionId).toBeUndefined();
+
+    const tools = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(["remote-echo"]);
+
+    socket.push({
+      jsonrpc: "2.0",
+      method: "notifications/tools/list_changed",
+    });
+    await vi.waitFor(() =>
+      expect(notifications.map((item) => item.method)).toEqual([
+        "notifications/tools/list_changed",
+      ])
+    );
+
+    await client.disconnect();
+    await bridge.disconnect();
+  });
+
+  it("连接断开后自动重连并重新初始化", async () => {
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    const { bridge, client, sessionId } = await connectThroughBridge({
+      remote,
+    });
+
+    FakeWebSocket.instances[0].close();
+    await vi.waitFor(() => {
+      expect(FakeWebSocket.instances).toHaveLength(2);
+      expect(bridge.getSession(sessionId)?.remoteState).toBe("connected");
+    });
+
+    const methods = FakeWebSocket.instances[1].received.map(
+      (message) => "method" in message && message.method
+    );
+    expect(methods).toEqual(["initialize", "notifications/initialized"]);
+
+    const result = await client.callTool({
+      name: "remote-echo",
+      arguments: { value: 2 },
+    });
+    expect(result.content).toEqual([{ type: "text", text: '{"value":2}' }]);
+
+    await client.disconnect();
+    await bridge.disconnect();
+  });
+});
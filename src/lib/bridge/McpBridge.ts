@@ -0,0 +1,753 @@
+/**
+ * MCP Bridge 实现
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  type InitializeResult,
+  type JSONRPCMessage,
+  type JSONRPCRequest,
+  type JSONRPCResponse,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  StreamableHTTPClientTransport,
+  StreamableHTTPError,
+} from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { WebSocketClientTransport } from "@modelcontextprotocol/sdk/client/websocket.js";
+import {
+  delay,
+  generateSessionId,
+  isTransport,
+  parsePayload,
+  validateMessage,
+  type ServerTransportOptions,
+} from "../transport/index.js";
+import {
+  createServerConnectTransport,
+  type ServerConnectOptions,
+} from "../server/index.js";
+import type {
+  BridgeRemoteState,
+  BridgeSessionInfo,
+  McpBridgeOptions,
+  RemoteServerOptions,
+} from "./types.js";
+
+/**
+ * 连接目标
+ */
+type ConnectTarget = ServerTransportOptions["target"];
+
+/**
+ * 默认重连次数
+ */
+const DEFAULT_RECONNECT_ATTEMPTS = 3;
+
+/**
+ * 默认重连间隔（毫秒）
+ */
+const DEFAULT_RECONNECT_DELAY = 1000;
+
+/**
+ * 重连后重新初始化远程会话的超时时间（毫秒）
+ */
+const REINITIALIZE_TIMEOUT = 10000;
+
+/**
+ * 桥接会话内部状态
+ */
+interface BridgeSession {
+  info: Omit<BridgeSessionInfo, "remoteSessionId">;
+  local: Transport;
+  /**
+   * 通过目标窗口建立的会话记录其目标与频道，用于重复连接同一目标时替换旧会话
+   */
+  target?: ConnectTarget;
+  channel?: string;
+  remote: Transport | null;
+  /**
+   * 正在建立的远程连接
+   */
+  connecting: Promise<Transport> | null;
+  /**
+   * 按顺序处理本地消息，远程连接建立或重连期间的消息在此排队
+   */
+  queue: Promise<void>;
+  /**
+   * 本地 Client 最近一次 initialize 请求，远程会话失效后用于重新初始化
+   */
+  initializeRequest: JSONRPCRequest | null;
+  /**
+   * 本地 Client 是否已发送 notifications/initialized
+   */
+  initialized: boolean;
+  /**
+   * 当前远程连接是否已完成初始化
+   */
+  remoteInitialized: boolean;
+  /**
+   * 已转发给远程、等待响应的本地请求（ID -> 方法名）
+   */
+  pendingRequests: Map<JSONRPCRequest["id"], string>;
+  /**
+   * Bridge 自身发给远程的请求
+   */
+  internalRequests: Map<
+    JSONRPCRequest["id"],
+    {
+      resolve: (response: JSONRPCResponse) => void;
+      reject: (error: Error) => void;
+    }
+  >;
+  closed: boolean;
+}
+
+/**
+ * 判断消息是否为请求
+ */
+function isRequest(message: JSONRPCMessage): message is JSONRPCRequest {
+  return "method" in message && "id" in message;
+}
+
+/**
+ * 判断消息是否为响应
+ */
+function isResponse(message: JSONRPCMessage): message is JSONRPCResponse {
+  return "id" in message && ("result" in message || "error" in message);
+}
+
+/**
+ * 判断错误是否表示远程会话已失效（Streamable HTTP 返回 404）
+ */
+function isSessionExpired(error: unknown): boolean {
+  return error instanceof StreamableHTTPError && error.code === 404;
+}
+
+/**
+ * 构造 JSON-RPC 错误响应
+ */
+function createErrorResponse(
+  id: JSONRPCRequest["id"],
+  message: string
+): JSONRPCResponse {
+  return {
+    jsonrpc: "2.0",
+    id,
+    error: { code: ErrorCode.ConnectionClosed, message },
+  } as JSONRPCResponse;
+}
+
+/**
+ * 创建连接远程 MCP Server 的 Transport
+ */
+async function createRemoteTransport(
+  remote: RemoteServerOptions
+): Promise<Transport> {
+  switch (remote.type) {
+    case "streamable-http":
+      return new StreamableHTTPClientTransport(
+        new URL(
+          remote.url,
+          typeof location !== "undefined" ? location.href : undefined
+        ),
+        remote.options
+      );
+    case "websocket":
+      return new WebSocketClientTransport(new URL(remote.url));
+    case "custom":
+      return remote.createTransport();
+  }
+}
+
+/**
+ * 关闭远程 Transport，Streamable HTTP 会先终止远程会话
+ */
+async function closeRemoteTransport(remote: Transport): Promise<void> {
+  if (remote instanceof StreamableHTTPClientTransport && remote.sessionId) {
+    await remote.terminateSession().catch(() => {});
+  }
+  await remote.close();
+}
+
+/**
+ * MCP Bridge
+ *
+ * 在主页面中运行，把 iframe（或其他窗口）中 McpClient 的 JSON-RPC 消息原样转发给远程 MCP Server，
+ * 宿主页面无需用 addTool 重新实现远程 Server 的工具。
+ * 每个本地会话对应一个独立的远程会话：Client 重新 initialize 时会建立新的远程会话；
+ * 远程连接断开或会话失效时自动重连，并用 Client 最近一次的 initialize 请求重新初始化。
+ *
+ * @example
+ * ```ts
+ * const bridge = new McpBridge({
+ *   remote: { type: "streamable-http", url: "https://api.example.com/mcp" },
+ * });
+ * await bridge.connect(iframe);
+ * ```
+ */
+export class McpBridge {
+  private options: McpBridgeOptions;
+  private sessions = new Map<string, BridgeSession>();
+  private internalRequestId = 0;
+
+  constructor(options: McpBridgeOptions) {
+    this.options = options;
+  }
+
+  /**
+   * 连接到目标窗口并建立一个新的桥接会话
+   * 同一目标的同一频道只保留一个会话，重复连接时替换旧会话
+   * @returns 会话 ID
+   */
+  async connect(
+    target: ConnectTarget,
+    options?: ServerConnectOptions
+  ): Promise<string>;
+  /**
+   * 使用自定义 Transport 建立一个新的桥接会话
+   * @returns 会话 ID
+   */
+  async connect(transport: Transport): Promise<string>;
+  async connect(
+    targetOrTransport: ConnectTarget | Transport,
+    options: ServerConnectOptions = {}
+  ): Promise<string> {
+    let local: Transport;
+    let target: ConnectTarget | undefined;
+
+    if (isTransport(targetOrTransport)) {
+      for (const session of this.sessions.values()) {
+        if (session.local === targetOrTransport) {
+          return session.info.id;
+        }
+      }
+      local = targetOrTransport;
+    } else {
+      target = targetOrTransport;
+      for (const session of this.sessions.values()) {
+        if (
+          session.target === target &&
+          (session.channel || undefined) === (options.channel || undefined)
+        ) {
+          await this.closeSession(session.info.id);
+        }
+      }
+      local = createServerConnectTransport(target, options);
+    }
+
+    const session: BridgeSession = {
+      info: {
+        id: generateSessionId(),
+        remoteState: "idle",
+        protocolVersion: null,
+        connectedAt: Date.now(),
+      },
+      local,
+      target,
+      channel: target ? options.channel : undefined,
+      remote: null,
+      connecting: null,
+      queue: Promise.resolve(),
+      initializeRequest: null,
+      initialized: false,
+      remoteInitialized: false,
+      pendingRequests: new Map(),
+      internalRequests: new Map(),
+      closed: false,
+    };
+
+    local.onmessage = (message) => {
+      const payload = parsePayload(message);
+      if (!payload.valid) {
+        this.rejectMessage(session, payload.error, payload.response);
+        return;
+      }
+      for (const item of payload.items) {
+        const validation = validateMessage(item);
+        if (!validation.valid) {
+          this.rejectMessage(session, validation.error, validation.response);
+          continue;
+        }
+        session.queue = session.queue
+          .then(() => this.handleLocalMessage(session, validation.message))
+          .catch((error) => this.reportError(session, error));
+      }
+    };
+    local.onerror = (error) => this.reportError(session, error);
+    local.onclose = () => {
+      this.closeSession(session.info.id).catch((error) =>
+        this.reportError(session, error)
+      );
+    };
+
+    this.sessions.set(session.info.id, session);
+
+    try {
+      await local.start();
+    } catch (error) {
+      this.sessions.delete(session.info.id);
+      throw error;
+    }
+
+    return session.info.id;
+  }
+
+  /**
+   * 关闭指定会话及其远程连接
+   * @returns 会话是否存在
+   */
+  async closeSession(id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+
+    this.sessions.delete(id);
+    session.closed = true;
+    this.setRemoteState(session, "closed");
+    this.rejectInternalRequests(session, new Error("会话已关闭"));
+
+    const remote = session.remote;
+    session.remote = null;
+    await Promise.all([
+      remote ? closeRemoteTransport(remote) : Promise.resolve(),
+      session.local.close(),
+    ]);
+    return true;
+  }
+
+  /**
+   * 断开所有会话
+   */
+  async disconnect(): Promise<void> {
+    const ids = Array.from(this.sessions.keys());
+    await Promise.all(ids.map((id) => this.closeSession(id)));
+  }
+
+  /**
+   * 获取所有会话信息
+   */
+  getSessions(): BridgeSessionInfo[] {
+    return Array.from(this.sessions.values()).map((session) =>
+      this.toSessionInfo(session)
+    );
+  }
+
+  /**
+   * 获取指定会话信息
+   */
+  getSession(id: string): BridgeSessionInfo | undefined {
+    const session = this.sessions.get(id);
+    return session ? this.toSessionInfo(session) : undefined;
+  }
+
+  /**
+   * 生成对外的会话信息
+   */
+  private toSessionInfo(session: BridgeSession): BridgeSessionInfo {
+    return {
+      ...session.info,
+      remoteSessionId: session.remote?.sessionId,
+    };
+  }
+
+  /**
+   * 上报错误
+   */
+  private reportError(session: BridgeSession, error: unknown): void {
+    const err = error instanceof Error ? error : new Error(String(error));
+    if (this.options.onError) {
+      this.options.onError(err, session.info.id);
+    } else {
+      console.error(`MCP Bridge 错误 [${session.info.id}]:`, err);
+    }
+  }
+
+  /**
+   * 上报本地 Client 发来的无效消息，形似请求的消息回复错误，其余直接丢弃
+   */
+  private rejectMessage(
+    session: BridgeSession,
+    error: Error,
+    response: JSONRPCResponse | null
+  ): void {
+    this.reportError(session, error);
+    if (response) {
+      this.sendToLocal(session, response);
+    }
+  }
+
+  /**
+   * 更新远程连接状态
+   */
+  private setRemoteState(
+    session: BridgeSession,
+    state: BridgeRemoteState
+  ): void {
+    session.info.remoteState = state;
+  }
+
+  /**
+   * 向本地 Client 发送消息
+   */
+  private sendToLocal(session: BridgeSession, message: JSONRPCMessage): void {
+    if (session.closed) {
+      return;
+    }
+    session.local
+      .send(message)
+      .catch((error) => this.reportError(session, error));
+  }
+
+  /**
+   * 处理本地 Client 发来的消息
+   */
+  private async handleLocalMessage(
+    session: BridgeSession,
+    message: JSONRPCMessage
+  ): Promise<void> {
+    if (session.closed) {
+      return;
+    }
+
+    if (isRequest(message) && message.method === "initialize") {
+      // Client 重新初始化（如 iframe 刷新后重连），需要新的远程会话
+      if (session.remote || session.connecting) {
+        await this.resetRemote(session);
+      }
+      session.initializeRequest = message;
+      session.initialized = false;
+    } else if (
+      !isRequest(message) &&
+      "method" in message &&
+      message.method === "notifications/initialized"
+    ) {
+      session.initialized = true;
+    }
+
+    await this.forward(session, message, true);
+  }
+
+  /**
+   * 把本地消息转发给远程 Server
+   * @param retry - 远程会话失效时是否重连后重试一次
+   */
+  private async forward(
+    session: BridgeSession,
+    message: JSONRPCMessage,
+    retry: boolean
+  ): Promise<void> {
+    let remote: Transport;
+    try {
+      remote = await this.ensureRemote(session);
+    } catch (error) {
+      this.reportError(session, error);
+      if (isRequest(message)) {
+        const reason = error instanceof Error ? error.message : String(error);
+        this.sendToLocal(session, createErrorResponse(message.id, reason));
+      }
+      return;
+    }
+
+    if (isRequest(message)) {
+      session.pendingRequests.set(message.id, message.method);
+    }
+
+    // 不等待发送完成：Streamable HTTP 的 send 可能要等到结果返回，等待会阻塞后续请求
+    remote.send(message).catch((error) => {
+      if (session.closed) {
+        return;
+      }
+
+      const isInitialize = isRequest(message) && message.method === "initialize";
+      if (retry && !isInitialize && isSessionExpired(error)) {
+        // 同一失效会话上的其他请求也会各自收到 404 并重试，不需要返回错误
+        if (isRequest(message)) {
+          session.pendingRequests.delete(message.id);
+        }
+        session.queue = session.queue
+          .then(() => this.handleRemoteLost(session, remote, false))
+          .then(() => this.forward(session, message, false))
+          .catch((err) => this.reportError(session, err));
+        return;
+      }
+
+      this.reportError(session, error);
+      if (isRequest(message)) {
+        session.pendingRequests.delete(message.id);
+        const reason = error instanceof Error ? error.message : String(error);
+        this.sendToLocal(
+          session,
+          createErrorResponse(message.id, `远程 MCP Server 请求失败: ${reason}`)
+        );
+      }
+    });
+  }
+
+  /**
+   * 获取远程连接，尚未连接时建立连接
+   */
+  private ensureRemote(session: BridgeSession): Promise<Transport> {
+    if (session.remote) {
+      return Promise.resolve(session.remote);
+    }
+    if (!session.connecting) {
+      const reinitialize =
+        session.remoteInitialized && session.initializeRequest !== null;
+      session.connecting = this.connectRemote(session, reinitialize).finally(
+        () => {
+          session.connecting = null;
+        }
+      );
+    }
+    return session.connecting;
+  }
+
+  /**
+   * 建立远程连接，失败时按配置重试
+   * @param reinitialize - 是否用 Client 最近一次的 initialize 请求重新初始化远程会话
+   */
+  private async connectRemote(
+    session: BridgeSession,
+    reinitialize: boolean
+  ): Promise<Transport> {
+    const attempts =
+      (this.options.reconnectAttempts ?? DEFAULT_RECONNECT_ATTEMPTS) + 1;
+    const retryDelay = this.options.reconnectDelay ?? DEFAULT_RECONNECT_DELAY;
+    let lastError: unknown;
+
+    this.setRemoteState(session, reinitialize ? "reconnecting" : "connecting");
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      if (session.closed) {
+        break;
+      }
+
+      let remote: Transport | null = null;
+      try {
+        remote = await createRemoteTransport(this.options.remote);
+        this.attachRemote(session, remote);
+        await remote.start();
+        if (reinitialize) {
+          await this.reinitialize(session, remote);
+        } else {
+          session.remoteInitialized = false;
+        }
+
+        if (session.closed) {
+          await closeRemoteTransport(remote);
+          break;
+        }
+        session.remote = remote;
+        this.setRemoteState(session, "connected");
+        return remote;
+      } catch (error) {
+        lastError = error;
+        if (remote) {
+          const failed = remote;
+          remote = null;
+          await failed.close().catch(() => {});
+        }
+        if (attempt < attempts) {
+          await delay(retryDelay * attempt);
+        }
+      }
+    }
+
+    this.setRemoteState(session, session.closed ? "closed" : "idle");
+    const reason =
+      lastError instanceof Error ? lastError.message : String(lastError);
+    throw new Error(`无法连接远程 MCP Server：${reason}`);
+  }
+
+  /**
+   * 绑定远程 Transport 的回调
+   */
+  private attachRemote(session: BridgeSession, remote: Transport): void {
+    remote.onmessage = (message) =>
+      this.handleRemoteMessage(session, remote, message);
+    remote.onerror = (error) => this.reportError(session, error);
+    remote.onclose = () => {
+      if (session.remote !== remote || session.closed) {
+        return;
+      }
+      session.queue = session.queue
+        .then(() => this.handleRemoteLost(session, remote, true))
+        .catch((error) => this.reportError(session, error));
+    };
+  }
+
+  /**
+   * 处理远程 Server 发来的消息
+   */
+  private handleRemoteMessage(
+    session: BridgeSession,
+    remote: Transport,
+    message: JSONRPCMessage
+  ): void {
+    if (isResponse(message) && message.id !== undefined) {
+      const internal = session.internalRequests.get(message.id);
+      if (internal) {
+        session.internalRequests.delete(message.id);
+        internal.resolve(message);
+        return;
+      }
+
+      const method = session.pendingRequests.get(message.id);
+      session.pendingRequests.delete(message.id);
+      if (method === "initialize" && "result" in message) {
+        this.handleInitializeResult(
+          session,
+          remote,
+          message.result as InitializeResult
+        );
+      }
+    }
+
+    this.sendToLocal(session, message);
+  }
+
+  /**
+   * 远程会话初始化完成，记录协议版本
+   */
+  private handleInitializeResult(
+    session: BridgeSession,
+    remote: Transport,
+    result: InitializeResult
+  ): void {
+    session.remoteInitialized = true;
+    session.info.protocolVersion = result.protocolVersion;
+    // Streamable HTTP 需要在后续请求头中携带协议版本
+    remote.setProtocolVersion?.(result.protocolVersion);
+  }
+
+  /**
+   * 用 Client 最近一次的 initialize 请求重新初始化远程会话
+   */
+  private async reinitialize(
+    session: BridgeSession,
+    remote: Transport
+  ): Promise<void> {
+    const request = session.initializeRequest;
+    if (!request) {
+      return;
+    }
+
+    const id = `postmessage-mcp-bridge-${++this.internalRequestId}`;
+    const response = await new Promise<JSONRPCResponse>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        session.internalRequests.delete(id);
+        reject(new Error("重新初始化远程会话超时"));
+      }, REINITIALIZE_TIMEOUT);
+
+      session.internalRequests.set(id, {
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+
+      remote.send({ ...request, id }).catch((error) => {
+        clearTimeout(timer);
+        session.internalRequests.delete(id);
+        reject(error);
+      });
+    });
+
+    if ("error" in response) {
+      throw new Error(`重新初始化远程会话失败: ${response.error.message}`);
+    }
+    this.handleInitializeResult(
+      session,
+      remote,
+      response.result as InitializeResult
+    );
+
+    if (session.initialized) {
+      await remote.send({
+        jsonrpc: "2.0",
+        method: "notifications/initialized",
+      });
+    }
+  }
+
+  /**
+   * 远程连接断开或会话失效后重新连接
+   * @param failPending - 是否向本地返回未完成请求的错误（连接断开时这些请求的结果已无法送达）
+   */
+  private async handleRemoteLost(
+    session: BridgeSession,
+    remote: Transport,
+    failPending: boolean
+  ): Promise<void> {
+    if (session.remote !== remote || session.closed) {
+      return;
+    }
+
+    session.remote = null;
+    if (failPending) {
+      this.failPendingRequests(session, "远程 MCP Server 连接已断开");
+    }
+    this.rejectInternalRequests(session, new Error("远程 MCP Server 连接已断开"));
+    await remote.close().catch(() => {});
+
+    // 已初始化的会话立即重连，保证 Server 发起的通知能继续送达
+    if (session.remoteInitialized) {
+      await this.ensureRemote(session).catch((error) =>
+        this.reportError(session, error)
+      );
+    } else {
+      this.setRemoteState(session, "idle");
+    }
+  }
+
+  /**
+   * 关闭当前远程连接，下一条消息会建立新的远程会话
+   */
+  private async resetRemote(session: BridgeSession): Promise<void> {
+    if (session.connecting) {
+      await session.connecting.catch(() => {});
+    }
+
+    const remote = session.remote;
+    session.remote = null;
+    session.remoteInitialized = false;
+    this.failPendingRequests(session, "Client 重新初始化，远程会话已重置");
+    this.setRemoteState(session, "idle");
+    if (remote) {
+      await closeRemoteTransport(remote);
+    }
+  }
+
+  /**
+   * 向本地 Client 返回所有未完成请求的错误
+   */
+  private failPendingRequests(session: BridgeSession, reason: string): void {
+    for (const id of session.pendingRequests.keys()) {
+      this.sendToLocal(session, createErrorResponse(id, reason));
+    }
+    session.pendingRequests.clear();
+  }
+
+  /**
+   * 拒绝 Bridge 自身发出的所有请求
+   */
+  private rejectInternalRequests(session: BridgeSession, error: Error): void {
+    for (const pending of session.internalRequests.values()) {
+      pending.reject(error);
+    }
+    session.internalRequests.clear();
+  }
+}
+
+/**
+ * 创建 MCP Bridge
+ */
+export function createMcpBridge(options: McpBridgeOptions): McpBridge {
+  return new McpBridge(options);
+}
@@ -0,0 +1,6 @@
+/**
+ * Bridge 模块导出
+ */
+
+export * from "./types.js";
+export * from "./McpBridge.js";
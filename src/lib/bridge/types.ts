@@ -0,0 +1,103 @@
+/**
+ * MCP Bridge 类型定义
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { StreamableHTTPClientTransportOptions } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+
+/**
+ * 远程 MCP Server 配置
+ */
+export type RemoteServerOptions =
+  | {
+      /**
+       * 通过 Streamable HTTP 连接
+       */
+      type: "streamable-http";
+      /**
+       * MCP 端点地址，相对地址基于当前页面解析
+       */
+      url: string | URL;
+      /**
+       * 传给 SDK StreamableHTTPClientTransport 的配置（请求头、认证、SSE 重连等）
+       */
+      options?: StreamableHTTPClientTransportOptions;
+    }
+  | {
+      /**
+       * 通过 WebSocket 连接
+       */
+      type: "websocket";
+      /**
+       * WebSocket 地址（ws:// 或 wss://）
+       */
+      url: string | URL;
+    }
+  | {
+      /**
+       * 使用自定义 Transport，如测试中连接本地替身 Server
+       */
+      type: "custom";
+      /**
+       * 创建连接远程 Server 的 Transport，每个会话及每次重连都会调用
+       */
+      createTransport: () => Transport | Promise<Transport>;
+    };
+
+/**
+ * McpBridge 配置
+ */
+export interface McpBridgeOptions {
+  /**
+   * 远程 MCP Server
+   */
+  remote: RemoteServerOptions;
+  /**
+   * 远程连接断开或会话失效后的重连次数，默认 3
+   */
+  reconnectAttempts?: number;
+  /**
+   * 重连间隔（毫秒），第 n 次重连等待 n 倍间隔，默认 1000
+   */
+  reconnectDelay?: number;
+  /**
+   * 错误回调，默认输出到控制台
+   */
+  onError?: (error: Error, sessionId: string) => void;
+}
+
+/**
+ * 远程连接状态
+ */
+export type BridgeRemoteState =
+  | "idle"
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "closed";
+
+/**
+ * 桥接会话信息
+ */
+export interface BridgeSessionInfo {
+  /**
+   * 本地会话 ID
+   */
+  id: string;
+  /**
+   * 远程 Server 分配的会话 ID（Streamable HTTP 的 Mcp-Session-Id）
+   */
+  remoteSessionId?: string;
+  /**
+   * 远程连接状态
+   */
+  remoteState: BridgeRemoteState;
+  /**
+   * 协商的协议版本
+   */
+  protocolVersion: string | null;
+  /**
+   * 连接时间
+   */
+  connectedAt: number;
+}
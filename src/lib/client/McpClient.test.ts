@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { McpClient } from "./McpClient.js";
+import { McpServer } from "../server/McpServer.js";
+import { createLoopbackTransportPair } from "../transport/loopback-transport.js";
+import type { ClientState } from "./types.js";
+
+/**
+ * 通过内存 Transport 连接带 echo 工具的 McpServer
+ */
+async function connectClient() {
+  const server = new McpServer({ name: "test", version: "1.0.0" });
+  server.addTool({
+    name: "echo",
+    inputSchema: {
+      type: "object",
+      properties: { text: { type: "string" } },
+      required: ["text"],
+    },
+    handler: (input) => ({
+      content: [{ type: "text", text: String(input.text) }],
+    }),
+  });
+  const pair = createLoopbackTransportPair();
+  await server.connect(pair.server);
+  const client = new McpClient({ autoReconnect: false });
+  await client.connect(pair.client);
+  return { server, client, transport: pair.client };
+}
+
+describe("McpClient.batch", () => {
+  it("按请求顺序返回结果，单个请求失败不影响其他请求", async () => {
+    const { server, client } = await connectClient();
+
+    const results = await client.batch([
+      {
+        method: "tools/call",
+        params: { name: "echo", arguments: { text: "a" } },
+      },
+      { method: "tools/call", params: { name: "echo", arguments: {} } },
+      { method: "ping" },
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      "fulfilled",
+      "rejected",
+      "fulfilled",
+    ]);
+    expect(results[0]).toMatchObject({
+      value: { content: [{ type: "text", text: "a" }] },
+    });
+
+    await client.disconnect();
+    await server.disconnect();
+  });
+
+  it("批量数组发送失败时每个结果都以发送错误 rejected", async () => {
+    const { server, client, transport } = await connectClient();
+    const error = new Error("发送失败");
+    transport.send = () => Promise.reject(error);
+
+    const results = await client.batch([
+      { method: "ping" },
+      { method: "tools/list" },
+    ]);
+
+    expect(results).toEqual([
+      { status: "rejected", reason: error },
+      { status: "rejected", reason: error },
+    ]);
+
+    await client.disconnect();
+    await server.disconnect();
+  });
+});
+
+describe("McpClient 心跳与自动重连", () => {
+  const heartbeat = { interval: 1000, timeout: 500, maxMissed: 2 };
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * 创建 Server 端可以随时停止回复的内存 Transport 并连接到 McpServer
+   */
+  function createPeer(server: McpServer) {
+    const peer = { silent: false, transport: null as unknown as Transport };
+    const pair = createLoopbackTransportPair({
+      drop: (_message, from) => from === "server" && peer.silent,
+    });
+    peer.transport = pair.client;
+    void server.connect(pair.server);
+    return peer;
+  }
+
+  it("连续 maxMissed 次 ping 无响应后断开连接", async () => {
+    vi.useFakeTimers();
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    const peer = createPeer(server);
+    const client = new McpClient({ heartbeat, autoReconnect: false });
+    const states: ClientState[] = [];
+    client.onStateChange((state) => states.push(state));
+
+    const connecting = client.connect(peer.transport);
+    await vi.advanceTimersByTimeAsync(10);
+    await connecting;
+
+    peer.silent = true;
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(client.getState()).toBe("connected");
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(client.getState()).toBe("disconnected");
+    expect(states).toEqual(["connecting", "connected", "disconnected"]);
+    await server.disconnect();
+  });
+
+  it("心跳超时后使用最近一次的配置重新连接", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    const client = new McpClient({ heartbeat });
+    const peers: ReturnType<typeof createPeer>[] = [];
+    // 以内存 Transport 代替按配置创建的窗口 Transport
+    vi.spyOn(
+      client as unknown as { createTransport: () => Transport },
+      "createTransport"
+    ).mockImplementation(() => {
+      const peer = createPeer(server);
+      peers.push(peer);
+      return peer.transport;
+    });
+    const states: ClientState[] = [];
+    client.onStateChange((state) => states.push(state));
+
+    const connecting = client.connect({ targetOrigin: "*" });
+    await vi.advanceTimersByTimeAsync(10);
+    await connecting;
+
+    peers[0].silent = true;
+    await vi.advanceTimersByTimeAsync(2600);
+
+    expect(peers).toHaveLength(2);
+    expect(client.getState()).toBe("connected");
+    expect(states).toEqual([
+      "connecting",
+      "connected",
+      "reconnecting",
+      "connected",
+    ]);
+
+    const ping = client.ping();
+    await vi.advanceTimersByTimeAsync(10);
+    await expect(ping).resolves.toBeUndefined();
+
+    await client.disconnect();
+    await server.disconnect();
+  });
+});
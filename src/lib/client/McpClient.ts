@@ -2,34 +2,67 @@
  * MCP Client 核心实现
  */
 
-import type {
-  JSONRPCMessage,
-  JSONRPCRequest,
-  JSONRPCResponse,
-  Tool,
-  Resource,
-  Prompt,
+import {
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type JSONRPCMessage,
+  type JSONRPCNotification,
+  type JSONRPCRequest,
+  type JSONRPCResponse,
+  type Tool,
+  type Resource,
+  type Prompt,
 } from "@modelcontextprotocol/sdk/types.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
   PostMessageClientTransport,
-  type ClientTransportOptions,
+  MessageChannelClientTransport,
+  ChunkedTransport,
+  EncryptedTransport,
+  MiddlewareTransport,
+  BINARY_TRANSFER_CAPABILITY,
+  decodeBinary,
+  encodeBinaryDeep,
+  isTransport,
+  parsePayload,
+  supportsBinary,
+  validateMessage,
+  delay,
+  DEFAULT_HEARTBEAT_INTERVAL,
+  DEFAULT_HEARTBEAT_MAX_MISSED,
+  DEFAULT_HEARTBEAT_TIMEOUT,
+  MCP_AUTH_CHALLENGE_METHOD,
+  MCP_AUTH_META_KEY,
+  TypedEventEmitter,
+  signChallenge,
+  type AuthCredentials,
+  type BinaryData,
+  type JSONRPCBatch,
 } from "../transport/index.js";
 import type {
   McpClientOptions,
+  ClientConnectOptions,
+  BatchRequest,
   CallToolParams,
   ReadResourceParams,
   GetPromptParams,
   ServerInfo,
   ClientState,
+  ClientEventMap,
 } from "./types.js";
-import type { ToolCallResult } from "../server/types.js";
+import type { ResourceContents, ToolCallResult } from "../server/types.js";
+
+/**
+ * 重连尝试之间的基础等待时间（毫秒），按尝试次数递增
+ */
+const RECONNECT_DELAY = 500;
 
 /**
  * MCP Client 实现
  * 在 iframe 中运行，调用主页面的 MCP Server 能力
  */
-export class McpClient {
-  private transport: PostMessageClientTransport | null = null;
+export class McpClient extends TypedEventEmitter<ClientEventMap> {
+  private transport: Transport | null = null;
   private requestId = 0;
   private pendingRequests: Map<
     number | string,
@@ -40,9 +73,24 @@ export class McpClient {
   > = new Map();
   private state: ClientState = "disconnected";
   private serverInfo: ServerInfo | null = null;
+  /**
+   * 当前已初始化的会话对应的 Server 信息，会话结束时触发 sessionEnd
+   */
+  private activeSession: ServerInfo | null = null;
+  private protocolVersion: string | null = null;
   private options: McpClientOptions;
+  /**
+   * 最近一次 connect 使用的 Transport 配置，用于重连；传入自定义 Transport 时为 null
+   */
+  private connectOptions: ClientConnectOptions | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnecting: Promise<ServerInfo> | null = null;
+  private notificationListeners: Set<
+    (notification: JSONRPCNotification) => void
+  > = new Set();
 
   constructor(options: McpClientOptions = {}) {
+    super();
     this.options = options;
   }
 
@@ -60,11 +108,63 @@ export class McpClient {
     return this.serverInfo;
   }
 
+  /**
+   * 获取与 Server 协商的协议版本
+   */
+  getProtocolVersion(): string | null {
+    return this.protocolVersion;
+  }
+
+  /**
+   * 监听 Server 发来的通知（如 notifications/tools/list_changed）
+   * @returns 取消监听的函数
+   */
+  onNotification(
+    listener: (notification: JSONRPCNotification) => void
+  ): () => void {
+    this.notificationListeners.add(listener);
+    return () => {
+      this.notificationListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 监听连接状态变化（包括心跳断开、自动重连等 Client 内部触发的变化）
+   * @returns 取消监听的函数
+   */
+  onStateChange(listener: (state: ClientState) => void): () => void {
+    return this.on("stateChange", listener);
+  }
+
+  /**
+   * 更新状态并通知
+   */
+  private setState(state: ClientState): void {
+    if (this.state === state) {
+      return;
+    }
+    this.state = state;
+    this.emit("stateChange", state);
+  }
+
+  /**
+   * 结束当前会话并触发 sessionEnd
+   */
+  private endSession(): void {
+    const serverInfo = this.activeSession;
+    if (!serverInfo) {
+      return;
+    }
+    this.activeSession = null;
+    this.emit("sessionEnd", serverInfo);
+  }
+
   /**
    * 连接到 Server
+   * @param transportOptions - Transport 配置，或任意实现了 MCP Transport 接口的实例
    */
   async connect(
-    transportOptions?: ClientTransportOptions
+    transportOptions?: ClientConnectOptions | Transport
   ): Promise<ServerInfo> {
     if (this.state === "connected") {
       if (this.serverInfo) {
@@ -72,21 +172,94 @@ export class McpClient {
       }
     }
 
-    this.state = "connecting";
+    this.setState("connecting");
+    this.connectOptions = isTransport(transportOptions)
+      ? null
+      : (transportOptions ?? {});
 
     try {
-      this.transport = new PostMessageClientTransport(transportOptions);
-      this.transport.onmessage = (message) => this.handleMessage(message);
+      return await this.establish(this.createTransport(transportOptions));
+    } catch (error) {
+      this.setState("error");
+      throw error;
+    }
+  }
+
+  /**
+   * 重新握手并初始化
+   * 用于对端页面刷新或导航后恢复连接，使用最近一次 connect 的 Transport 配置
+   */
+  async reconnect(): Promise<ServerInfo> {
+    if (!this.connectOptions) {
+      throw new Error("未使用 Transport 配置连接，无法重连");
+    }
+    if (this.reconnecting) {
+      return this.reconnecting;
+    }
+
+    const connectOptions = this.connectOptions;
+    const attempts = this.options.reconnectAttempts ?? 3;
+
+    this.reconnecting = (async () => {
+      this.setState("reconnecting");
+      await this.teardown(new Error("连接已断开，正在重连"));
+
+      let lastError: unknown;
+      for (let attempt = 1; attempt <= attempts; attempt++) {
+        try {
+          return await this.establish(this.createTransport(connectOptions));
+        } catch (error) {
+          lastError = error;
+          if (attempt < attempts) {
+            await delay(RECONNECT_DELAY * attempt);
+          }
+        }
+      }
+
+      this.setState("error");
+      throw lastError;
+    })();
+
+    try {
+      return await this.reconnecting;
+    } finally {
+      this.reconnecting = null;
+    }
+  }
+
+  /**
+   * 启动 Transport 并完成初始化
+   */
+  private async establish(transport: Transport): Promise<ServerInfo> {
+    try {
+      this.transport = transport;
+      this.transport.onmessage = (message) => {
+        this.emit("message", message as JSONRPCMessage | JSONRPCBatch);
+        this.handleMessage(message);
+      };
       this.transport.onerror = (error) => {
-        console.error("MCP Client Transport 错误:", error);
-        this.state = "error";
+        if (!this.emit("error", error)) {
+          console.error("MCP Client Transport 错误:", error);
+        }
+        if (this.transport !== transport) {
+          return;
+        }
+        this.endSession();
+        this.setState("error");
         // 发生错误时清理 transport
         this.transport = null;
       };
       this.transport.onclose = () => {
-        this.state = "disconnected";
+        if (this.transport !== transport) {
+          return;
+        }
+        this.stopHeartbeat();
+        this.rejectPendingRequests(new Error("连接已关闭"));
+        this.endSession();
+        this.setState("disconnected");
         // 连接关闭时清理 transport
         this.transport = null;
+        this.emit("close", undefined);
       };
 
       await this.transport.start();
@@ -96,25 +269,45 @@ export class McpClient {
         throw new Error("Transport 启动失败");
       }
 
+      // Server 启用认证时，凭证随 initialize 请求提交
+      const credentials = await this.createAuthCredentials();
+
       // 发送初始化请求
       const result = (await this.sendRequest("initialize", {
-        protocolVersion: "1.0.0",
-        capabilities: {},
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        // Transport 支持时声明可直接接收二进制数据，Server 不再编码为 base64
+        capabilities: supportsBinary(this.transport)
+          ? { experimental: { [BINARY_TRANSFER_CAPABILITY]: {} } }
+          : {},
         clientInfo: {
           name: this.options.name ?? "mcp-client",
           version: this.options.version ?? "1.0.0",
         },
-      })) as { serverInfo: ServerInfo };
+        ...(credentials
+          ? { _meta: { [MCP_AUTH_META_KEY]: credentials } }
+          : {}),
+      })) as { protocolVersion: string; serverInfo: ServerInfo };
+
+      if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+        throw new Error(
+          `Server 的协议版本不受支持: ${result.protocolVersion}`
+        );
+      }
+      this.protocolVersion = result.protocolVersion;
+      this.transport.setProtocolVersion?.(result.protocolVersion);
 
       this.serverInfo = result.serverInfo;
-      this.state = "connected";
+      this.setState("connected");
 
       // 发送 initialized 通知
       await this.sendNotification("notifications/initialized", {});
 
+      this.activeSession = result.serverInfo;
+      this.emit("sessionStart", result.serverInfo);
+
+      this.startHeartbeat();
       return this.serverInfo;
     } catch (error) {
-      this.state = "error";
       // 发生错误时清理 transport
       if (this.transport) {
         try {
@@ -128,16 +321,198 @@ export class McpClient {
     }
   }
 
+  /**
+   * 根据认证配置生成凭证
+   * HMAC 认证需要先向 Server 获取挑战
+   */
+  private async createAuthCredentials(): Promise<AuthCredentials | null> {
+    const { auth } = this.options;
+    if (!auth) {
+      return null;
+    }
+
+    if (auth.secret !== undefined) {
+      if (!auth.keyId) {
+        throw new Error("使用 HMAC 认证时必须配置 keyId");
+      }
+      const { nonce } = (await this.sendRequest(
+        MCP_AUTH_CHALLENGE_METHOD,
+        {}
+      )) as { nonce: string };
+      return {
+        type: "hmac",
+        keyId: auth.keyId,
+        nonce,
+        signature: await signChallenge(auth.secret, nonce),
+      };
+    }
+
+    if (auth.token !== undefined) {
+      const token =
+        typeof auth.token === "function" ? await auth.token() : auth.token;
+      return { type: "token", token };
+    }
+
+    return null;
+  }
+
+  /**
+   * 根据配置创建 Transport
+   */
+  private createTransport(
+    transportOptions: ClientConnectOptions | Transport = {}
+  ): Transport {
+    if (isTransport(transportOptions)) {
+      return transportOptions;
+    }
+
+    const {
+      transportType = "post-robot",
+      chunking,
+      encryption,
+      middleware,
+      ...options
+    } = transportOptions;
+    let transport: Transport =
+      transportType === "message-channel"
+        ? new MessageChannelClientTransport(options)
+        : new PostMessageClientTransport(options);
+    // 先加密再分块：分块的是密文
+    if (encryption) {
+      transport = new EncryptedTransport(
+        transport,
+        "client",
+        encryption === true ? {} : encryption
+      );
+    }
+    if (chunking) {
+      transport = new ChunkedTransport(transport, chunking);
+    }
+    // 中间件位于最外层，看到的是明文的完整消息
+    if (middleware && middleware.length > 0) {
+      transport = new MiddlewareTransport(transport, middleware);
+    }
+    return transport;
+  }
+
+  /**
+   * 开始心跳
+   */
+  private startHeartbeat(): void {
+    const { heartbeat } = this.options;
+    if (!heartbeat) {
+      return;
+    }
+
+    this.stopHeartbeat();
+
+    const interval = heartbeat.interval ?? DEFAULT_HEARTBEAT_INTERVAL;
+    const timeout = heartbeat.timeout ?? DEFAULT_HEARTBEAT_TIMEOUT;
+    const maxMissed = heartbeat.maxMissed ?? DEFAULT_HEARTBEAT_MAX_MISSED;
+    let missed = 0;
+    let inFlight = false;
+
+    this.heartbeatTimer = setInterval(() => {
+      // 上一次 ping 尚未返回时不重复发送
+      if (inFlight) {
+        return;
+      }
+      inFlight = true;
+
+      this.sendRequest("ping", {}, timeout).then(
+        () => {
+          inFlight = false;
+          missed = 0;
+        },
+        () => {
+          inFlight = false;
+          missed++;
+          if (missed >= maxMissed && this.state === "connected") {
+            this.handlePeerLost();
+          }
+        }
+      );
+    }, interval);
+  }
+
+  /**
+   * 停止心跳
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * 心跳判定 Server 已断开
+   */
+  private handlePeerLost(): void {
+    const error = new Error("与 Server 的连接已断开（心跳超时）");
+
+    if (this.options.autoReconnect !== false && this.connectOptions) {
+      this.reconnect().catch((reconnectError) =>
+        console.error("MCP Client 重连失败:", reconnectError)
+      );
+      return;
+    }
+
+    this.teardown(error)
+      .then(() => {
+        this.setState("disconnected");
+        this.emit("close", undefined);
+      })
+      .catch((closeError) => console.error("关闭 Transport 失败:", closeError));
+  }
+
+  /**
+   * 停止心跳、拒绝所有待处理请求并关闭当前 Transport
+   * 关闭前解除回调，避免旧 Transport 的 onclose 影响状态
+   */
+  private async teardown(reason: Error): Promise<void> {
+    this.stopHeartbeat();
+    this.rejectPendingRequests(reason);
+    this.endSession();
+
+    const transport = this.transport;
+    this.transport = null;
+    if (transport) {
+      transport.onmessage = undefined;
+      transport.onerror = undefined;
+      transport.onclose = undefined;
+      try {
+        await transport.close();
+      } catch {
+        // 对端可能已不存在，忽略关闭时的错误
+      }
+    }
+  }
+
+  /**
+   * 拒绝所有待处理请求
+   */
+  private rejectPendingRequests(reason: Error): void {
+    for (const pending of this.pendingRequests.values()) {
+      pending.reject(reason);
+    }
+    this.pendingRequests.clear();
+  }
+
   /**
    * 断开连接
    */
   async disconnect(): Promise<void> {
+    this.stopHeartbeat();
+    this.connectOptions = null;
     if (this.transport) {
       await this.transport.close();
       this.transport = null;
     }
-    this.state = "disconnected";
+    this.endSession();
+    this.setState("disconnected");
     this.serverInfo = null;
+    this.protocolVersion = null;
     this.pendingRequests.clear();
   }
 
@@ -168,7 +543,45 @@ export class McpClient {
         ? { name: nameOrParams, arguments: args }
         : nameOrParams;
 
-    return (await this.sendRequest("tools/call", params)) as ToolCallResult;
+    // 保持协议约定：二进制数据以 base64 字符串返回
+    return encodeBinaryDeep(
+      (await this.sendRequest("tools/call", params)) as ToolCallResult<
+        string | BinaryData
+      >
+    ) as Promise<ToolCallResult>;
+  }
+
+  /**
+   * 调用工具，content 中的 data 以二进制数据返回
+   * Transport 支持时直接得到 Server 返回的 ArrayBuffer/Blob/ImageBitmap，否则由 base64 解码为 ArrayBuffer
+   */
+  async callToolRaw(
+    name: string,
+    args?: Record<string, unknown>
+  ): Promise<ToolCallResult<BinaryData>>;
+  async callToolRaw(
+    params: CallToolParams
+  ): Promise<ToolCallResult<BinaryData>>;
+  async callToolRaw(
+    nameOrParams: string | CallToolParams,
+    args?: Record<string, unknown>
+  ): Promise<ToolCallResult<BinaryData>> {
+    const params: CallToolParams =
+      typeof nameOrParams === "string"
+        ? { name: nameOrParams, arguments: args }
+        : nameOrParams;
+
+    const result = (await this.sendRequest(
+      "tools/call",
+      params
+    )) as ToolCallResult<string | BinaryData>;
+
+    return {
+      ...result,
+      content: result.content.map(({ data, ...item }) =>
+        data === undefined ? item : { ...item, data: decodeBinary(data) }
+      ),
+    };
   }
 
   /**
@@ -211,13 +624,38 @@ export class McpClient {
     const params: ReadResourceParams =
       typeof uriOrParams === "string" ? { uri: uriOrParams } : uriOrParams;
 
-    return (await this.sendRequest("resources/read", params)) as {
-      contents: Array<{
-        uri: string;
-        mimeType?: string;
-        text?: string;
-        blob?: string;
-      }>;
+    // 保持协议约定：二进制数据以 base64 字符串返回
+    return encodeBinaryDeep(
+      (await this.sendRequest("resources/read", params)) as {
+        contents: Array<ResourceContents<string | BinaryData>>;
+      }
+    ) as Promise<{ contents: ResourceContents[] }>;
+  }
+
+  /**
+   * 读取资源，blob 以二进制数据返回
+   * Transport 支持时直接得到 Server 返回的 ArrayBuffer/Blob/ImageBitmap，否则由 base64 解码为 ArrayBuffer
+   */
+  async readResourceRaw(
+    uri: string
+  ): Promise<{ contents: Array<ResourceContents<BinaryData>> }>;
+  async readResourceRaw(
+    params: ReadResourceParams
+  ): Promise<{ contents: Array<ResourceContents<BinaryData>> }>;
+  async readResourceRaw(
+    uriOrParams: string | ReadResourceParams
+  ): Promise<{ contents: Array<ResourceContents<BinaryData>> }> {
+    const params: ReadResourceParams =
+      typeof uriOrParams === "string" ? { uri: uriOrParams } : uriOrParams;
+
+    const result = (await this.sendRequest("resources/read", params)) as {
+      contents: Array<ResourceContents<string | BinaryData>>;
+    };
+
+    return {
+      contents: result.contents.map(({ blob, ...content }) =>
+        blob === undefined ? content : { ...content, blob: decodeBinary(blob) }
+      ),
     };
   }
 
@@ -281,7 +719,10 @@ export class McpClient {
         ? { name: nameOrParams, arguments: args }
         : nameOrParams;
 
-    return (await this.sendRequest("prompts/get", params)) as {
+    // 保持协议约定：二进制数据以 base64 字符串返回
+    return (await encodeBinaryDeep(
+      await this.sendRequest("prompts/get", params)
+    )) as {
       description?: string;
       messages: Array<{
         role: "user" | "assistant";
@@ -302,10 +743,89 @@ export class McpClient {
     await this.sendRequest("ping", {});
   }
 
+  /**
+   * 发送任意方法的请求，返回 Server 的原始结果（二进制数据编码为 base64）
+   * Server 返回错误时，抛出的错误带有对应的 code 与 data
+   */
+  async request(
+    method: string,
+    params: Record<string, unknown> = {}
+  ): Promise<unknown> {
+    return encodeBinaryDeep(await this.sendRequest(method, params));
+  }
+
+  /**
+   * 发送任意方法的通知
+   */
+  async notify(
+    method: string,
+    params: Record<string, unknown> = {}
+  ): Promise<void> {
+    await this.sendNotification(method, params);
+  }
+
+  /**
+   * 批量发送请求
+   * 所有请求作为一个 JSON-RPC 批量数组发送，结果按请求顺序返回，单个请求失败不影响其他请求；
+   * 批量数组发送失败时，每个结果都以发送错误 rejected
+   *
+   * @example
+   * ```ts
+   * const [weather, stock] = await client.batch([
+   *   { method: "tools/call", params: { name: "getWeather", arguments: { city: "上海" } } },
+   *   { method: "tools/call", params: { name: "getStock", arguments: { code: "600000" } } },
+   * ]);
+   * if (weather.status === "fulfilled") console.log(weather.value);
+   * ```
+   */
+  async batch(
+    requests: BatchRequest[]
+  ): Promise<PromiseSettledResult<unknown>[]> {
+    if (!this.transport) {
+      throw new Error("Client 未连接");
+    }
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const batch: JSONRPCRequest[] = requests.map(({ method, params }) => ({
+      jsonrpc: "2.0",
+      id: ++this.requestId,
+      method,
+      params: params ?? {},
+    }));
+    const results = batch.map((request) =>
+      this.waitForResponse(request.id, request.method)
+    );
+
+    try {
+      await this.transport.send(batch as unknown as JSONRPCMessage);
+    } catch (error) {
+      // 发送失败时每个请求都以该错误结束，不再等待超时
+      const err = error instanceof Error ? error : new Error(String(error));
+      for (const { id } of batch) {
+        const pending = this.pendingRequests.get(id);
+        if (pending) {
+          this.pendingRequests.delete(id);
+          pending.reject(err);
+        }
+      }
+    }
+
+    // 保持协议约定：二进制数据以 base64 字符串返回
+    return Promise.allSettled(
+      results.map(async (result) => encodeBinaryDeep(await result))
+    );
+  }
+
   /**
    * 发送请求
    */
-  private async sendRequest(method: string, params: unknown): Promise<unknown> {
+  private async sendRequest(
+    method: string,
+    params: unknown,
+    timeout?: number
+  ): Promise<unknown> {
     if (!this.transport) {
       throw new Error("Client 未连接");
     }
@@ -318,21 +838,35 @@ export class McpClient {
       params: params as Record<string, unknown>,
     };
 
+    const result = this.waitForResponse(id, method, timeout);
+    this.transport.send(request).catch((error) => {
+      const pending = this.pendingRequests.get(id);
+      if (pending) {
+        this.pendingRequests.delete(id);
+        pending.reject(error);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * 登记待处理请求，等待对应的响应
+   */
+  private waitForResponse(
+    id: number | string,
+    method: string,
+    timeout = 30000
+  ): Promise<unknown> {
     return new Promise((resolve, reject) => {
       this.pendingRequests.set(id, { resolve, reject });
 
-      this.transport!.send(request).catch((error) => {
-        this.pendingRequests.delete(id);
-        reject(error);
-      });
-
       // 超时处理
       setTimeout(() => {
         if (this.pendingRequests.has(id)) {
           this.pendingRequests.delete(id);
           reject(new Error(`请求超时: ${method}`));
         }
-      }, 30000);
+      }, timeout);
     });
   }
 
@@ -357,9 +891,51 @@ export class McpClient {
   }
 
   /**
-   * 处理收到的消息
+   * 校验并处理收到的消息（单条消息或批量响应），无效消息通过 error 事件上报
+   */
+  private handleMessage(data: unknown): void {
+    const payload = parsePayload(data);
+    if (!payload.valid) {
+      this.rejectMessage(payload.error, payload.response);
+      return;
+    }
+
+    for (const item of payload.items) {
+      const validation = validateMessage(item);
+      if (validation.valid) {
+        this.dispatch(validation.message);
+      } else {
+        this.rejectMessage(validation.error, validation.response);
+      }
+    }
+  }
+
+  /**
+   * 上报无效消息，形似请求的消息回复错误，其余直接丢弃
    */
-  private handleMessage(message: JSONRPCMessage): void {
+  private rejectMessage(error: Error, response: JSONRPCResponse | null): void {
+    if (!this.emit("error", error)) {
+      console.error("MCP Client 收到无效消息:", error);
+    }
+    if (response && this.transport) {
+      this.transport
+        .send(response as JSONRPCMessage)
+        .catch((sendError) =>
+          console.error("MCP Client 响应 Server 请求失败:", sendError)
+        );
+    }
+  }
+
+  /**
+   * 分发已通过校验的单条消息
+   */
+  private dispatch(message: JSONRPCMessage): void {
+    // 响应 Server 发来的请求（如心跳 ping）
+    if ("id" in message && "method" in message) {
+      this.handleServerRequest(message as JSONRPCRequest);
+      return;
+    }
+
     // 处理响应消息
     if ("id" in message && ("result" in message || "error" in message)) {
       const response = message as JSONRPCResponse;
@@ -368,14 +944,44 @@ export class McpClient {
         if (pending) {
           this.pendingRequests.delete(response.id);
           if ("error" in response) {
-            pending.reject(new Error(response.error.message));
+            const { code, message, data } = response.error;
+            pending.reject(Object.assign(new Error(message), { code, data }));
           } else {
             pending.resolve(response.result);
           }
         }
       }
+      return;
     }
-    // 忽略其他消息类型（如通知）
+
+    // 分发 Server 发来的通知
+    if ("method" in message) {
+      for (const listener of this.notificationListeners) {
+        listener(message as JSONRPCNotification);
+      }
+    }
+  }
+
+  /**
+   * 处理 Server 发来的请求
+   */
+  private handleServerRequest(request: JSONRPCRequest): void {
+    if (!this.transport) {
+      return;
+    }
+
+    const response =
+      request.method === "ping"
+        ? { jsonrpc: "2.0" as const, id: request.id, result: {} }
+        : {
+            jsonrpc: "2.0" as const,
+            id: request.id,
+            error: { code: -32601, message: `未知方法: ${request.method}` },
+          };
+
+    this.transport.send(response as JSONRPCMessage).catch((error) =>
+      console.error("MCP Client 响应 Server 请求失败:", error)
+    );
   }
 }
 
@@ -3,11 +3,22 @@
  */
 
 import type {
+  JSONRPCMessage,
   Tool,
   Resource,
   Prompt,
 } from "@modelcontextprotocol/sdk/types.js";
 import type { ToolCallResult } from "../server/types.js";
+import type {
+  ChunkingOptions,
+  ClientTransportOptions,
+  JSONRPCBatch,
+  EncryptionOptions,
+  TransportMiddleware,
+  HeartbeatOptions,
+  TransportType,
+} from "../transport/types.js";
+import type { HmacSecret } from "../transport/auth.js";
 
 /**
  * MCP Client 配置
@@ -21,6 +32,79 @@ export interface McpClientOptions {
    * 客户端版本
    */
   version?: string;
+  /**
+   * 心跳配置，设置后连接建立期间周期性 ping Server，连续丢失心跳时判定连接断开
+   */
+  heartbeat?: HeartbeatOptions;
+  /**
+   * 判定连接断开后是否自动重新握手并初始化，默认 true
+   * 仅对通过 Transport 配置建立的连接有效（传入自定义 Transport 实例时无法重建）
+   */
+  autoReconnect?: boolean;
+  /**
+   * 自动重连的最大尝试次数，默认 3
+   */
+  reconnectAttempts?: number;
+  /**
+   * 认证配置，Server 启用认证时需要配置
+   */
+  auth?: ClientAuthOptions;
+}
+
+/**
+ * Client 认证配置
+ * 同时配置 secret 与 token 时使用 HMAC 认证
+ */
+export interface ClientAuthOptions {
+  /**
+   * 一次性 token 或 Server 自定义校验的 token
+   * 一次性 token 只能使用一次，需要重连时传入函数，每次连接时获取新的 token
+   */
+  token?: string | (() => string | Promise<string>);
+  /**
+   * HMAC 密钥 ID，与 Server 端 auth.secrets 的键对应
+   */
+  keyId?: string;
+  /**
+   * HMAC 共享密钥
+   */
+  secret?: HmacSecret;
+}
+
+/**
+ * McpClient.connect 配置
+ */
+export interface ClientConnectOptions extends ClientTransportOptions {
+  /**
+   * Transport 类型，默认为 'post-robot'
+   */
+  transportType?: TransportType;
+  /**
+   * 分块传输配置，设置后超大消息会被拆分发送，Server 端需要同时启用
+   */
+  chunking?: ChunkingOptions;
+  /**
+   * 端到端加密配置，设为 true 使用默认配置，Server 端需要同时启用
+   */
+  encryption?: EncryptionOptions | boolean;
+  /**
+   * 消息中间件，发送的消息按数组顺序经过各中间件，收到的消息按相反顺序经过
+   */
+  middleware?: TransportMiddleware[];
+}
+
+/**
+ * 批量请求中的单个调用
+ */
+export interface BatchRequest {
+  /**
+   * 方法名，如 'tools/call'、'resources/read'
+   */
+  method: string;
+  /**
+   * 请求参数
+   */
+  params?: Record<string, unknown>;
 }
 
 /**
@@ -72,7 +156,42 @@ export interface ServerInfo {
 /**
  * Client 连接状态
  */
-export type ClientState = "disconnected" | "connecting" | "connected" | "error";
+export type ClientState =
+  | "disconnected"
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "error";
+
+/**
+ * McpClient 事件
+ */
+export interface ClientEventMap {
+  /**
+   * 连接状态变化（包括心跳断开、自动重连等 Client 内部触发的变化）
+   */
+  stateChange: ClientState;
+  /**
+   * 收到 Server 的消息（单条消息或批量响应）
+   */
+  message: JSONRPCMessage | JSONRPCBatch;
+  /**
+   * Transport 出错或收到无效消息；没有监听器时输出到控制台
+   */
+  error: Error;
+  /**
+   * 连接已关闭且不会自动恢复（Transport 关闭或心跳断开后未重连）
+   */
+  close: void;
+  /**
+   * 与 Server 完成初始化
+   */
+  sessionStart: ServerInfo;
+  /**
+   * 已初始化的会话结束（连接关闭、断开或重连前）
+   */
+  sessionEnd: ServerInfo;
+}
 
 /**
  * 导出 SDK 类型供外部使用
@@ -4,4 +4,6 @@
 
 export * from './useMcpServer.js';
 export * from './useMcpClient.js';
+export * from './useMcpBridge.js';
 
+export * from './useMcpRelay.js';
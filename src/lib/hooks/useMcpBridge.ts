@@ -0,0 +1,154 @@
+/**
+ * MCP Bridge React Hook
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { McpBridge, type McpBridgeOptions } from "../bridge/index.js";
+import type { ServerConnectOptions } from "../server/index.js";
+
+/**
+ * useMcpBridge Hook 配置
+ */
+export interface UseMcpBridgeOptions extends McpBridgeOptions {
+  /**
+   * iframe 元素的 ref
+   */
+  iframeRef?: React.RefObject<HTMLIFrameElement | null>;
+  /**
+   * 目标窗口（如果不使用 iframeRef）
+   */
+  targetWindow?: Window;
+  /**
+   * 自定义 Transport，设置后忽略 iframeRef、targetWindow
+   */
+  transport?: Transport;
+  /**
+   * 与目标窗口通信的配置（origin 白名单、Transport 类型、分块、加密、中间件等），
+   * 与 McpServer.connect 相同，建议使用稳定的引用（如 useMemo）避免重复连接
+   */
+  connectOptions?: ServerConnectOptions;
+  /**
+   * 是否自动连接
+   */
+  autoConnect?: boolean;
+}
+
+/**
+ * useMcpBridge Hook 返回值
+ */
+export interface UseMcpBridgeReturn {
+  /**
+   * MCP Bridge 实例
+   */
+  bridge: McpBridge;
+  /**
+   * 是否已连接
+   */
+  isConnected: boolean;
+  /**
+   * 连接错误
+   */
+  error: Error | null;
+  /**
+   * 连接到 iframe
+   */
+  connect: () => Promise<void>;
+  /**
+   * 断开连接
+   */
+  disconnect: () => Promise<void>;
+}
+
+/**
+ * MCP Bridge React Hook
+ * 在主页面中把 iframe 中的 McpClient 桥接到远程 MCP Server
+ */
+export function useMcpBridge(options: UseMcpBridgeOptions): UseMcpBridgeReturn {
+  const {
+    iframeRef,
+    targetWindow,
+    transport,
+    connectOptions,
+    autoConnect = true,
+    ...bridgeOptions
+  } = options;
+
+  // 使用 useState 保存 bridge 实例，避免重复创建
+  const [bridge] = useState<McpBridge>(() => new McpBridge(bridgeOptions));
+
+  const [isConnected, setIsConnected] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // 连接函数
+  const connect = useCallback(async () => {
+    try {
+      setError(null);
+
+      if (transport) {
+        await bridge.connect(transport);
+      } else {
+        const target = targetWindow ?? iframeRef?.current;
+        if (!target) {
+          throw new Error("未指定目标 iframe 或窗口");
+        }
+        await bridge.connect(target, connectOptions);
+      }
+      setIsConnected(true);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      setError(error);
+      setIsConnected(false);
+      throw error;
+    }
+  }, [bridge, transport, targetWindow, iframeRef, connectOptions]);
+
+  // 断开连接函数
+  const disconnect = useCallback(async () => {
+    await bridge.disconnect();
+    setIsConnected(false);
+  }, [bridge]);
+
+  // 自动连接
+  useEffect(() => {
+    if (!autoConnect) return;
+
+    // iframe 每次加载（包括刷新、导航）都重新建立会话，替换旧会话
+    const iframe = transport ? null : iframeRef?.current;
+    if (iframe) {
+      const handleLoad = () => {
+        setTimeout(() => {
+          connect().catch(console.error);
+        }, 0);
+      };
+
+      if (iframe.contentDocument?.readyState === "complete") {
+        handleLoad();
+      }
+
+      iframe.addEventListener("load", handleLoad);
+      return () => iframe.removeEventListener("load", handleLoad);
+    }
+
+    if (!transport && !targetWindow) return;
+
+    setTimeout(() => {
+      connect().catch(console.error);
+    }, 0);
+  }, [autoConnect, connect, transport, iframeRef, targetWindow]);
+
+  // 组件卸载时断开连接
+  useEffect(() => {
+    return () => {
+      bridge.disconnect().catch(console.error);
+    };
+  }, [bridge]);
+
+  return {
+    bridge,
+    isConnected,
+    error,
+    connect,
+    disconnect,
+  };
+}
@@ -2,7 +2,8 @@
  * MCP Client React Hook
  */
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import type {
   Tool,
   Resource,
@@ -13,8 +14,20 @@ import {
   type McpClientOptions,
   type ServerInfo,
   type ClientState,
+  type ClientConnectOptions,
+  type BatchRequest,
 } from "../client/index.js";
-import type { ClientTransportOptions } from "../transport/index.js";
+import {
+  openPopup as openPopupWindow,
+  watchWindowClosed,
+  type ClientTransportOptions,
+  type PopupOptions,
+  type ChunkingOptions,
+  type EncryptionOptions,
+  type TransportMiddleware,
+  type OriginRule,
+  type TransportType,
+} from "../transport/index.js";
 import type { ToolCallResult } from "../server/types.js";
 
 /**
@@ -25,13 +38,28 @@ export interface UseMcpClientOptions extends McpClientOptions {
    * Transport 配置
    */
   transportOptions?: ClientTransportOptions;
+  /**
+   * 自定义 Transport（如 createLoopbackTransportPair 创建的一端）
+   * 设置后直接使用该 Transport 连接，忽略 transportOptions、iframeRef 等窗口相关配置
+   */
+  transport?: Transport;
   /**
    * iframe 元素的 ref（反向模式使用）
    * 设置后，Client 在主页面中运行，与 iframe 中的 Server 通信
    */
   iframeRef?: React.RefObject<HTMLIFrameElement | null>;
   /**
-   * 连接后是否自动获取 tools/resources/prompts 列表
+   * 是否在弹出窗口中运行
+   * 设为 true 时，Client 在 window.open 打开的窗口中运行，与 window.opener 的 Server 通信
+   */
+  asPopup?: boolean;
+  /**
+   * 弹出窗口配置（主页面模式使用）
+   * 设置后通过返回的 openPopup() 打开窗口并连接其中的 Server，窗口关闭时自动断开
+   */
+  popup?: PopupOptions;
+  /**
+   * 连接后是否自动获取 tools/resources/prompts 列表，Server 通知列表变化时也会重新获取
    */
   autoFetch?: boolean;
   /**
@@ -39,10 +67,48 @@ export interface UseMcpClientOptions extends McpClientOptions {
    */
   autoConnect?: boolean;
   /**
-   * 允许通信的域名白名单列表，不配置则允许所有域名
-   * 支持精确匹配和通配符，如：['https://example.com', '*.example.com']
+   * 严格模式：未配置 targetOrigin 时从 iframe.src 或 document.referrer 推导目标 origin，
+   * 拒绝向 '*' 发送消息，并在每次发送前重新检查目标 origin
+   */
+  strictOrigin?: boolean;
+  /**
+   * 严格模式下是否允许向 '*' 发送消息，默认 false
+   */
+  allowWildcardOrigin?: boolean;
+  /**
+   * 允许通信的 origin 白名单，不配置则允许所有 origin
+   * 支持字符串规则、正则与函数，如：['https://example.com', '*.example.com:*']
+   */
+  allowedOrigins?: OriginRule[];
+  /**
+   * 拒绝通信的 origin 黑名单，优先于白名单
+   */
+  deniedOrigins?: OriginRule[];
+  /**
+   * 是否允许 origin 为 'null' 的对端（沙箱 iframe、file: 页面）
+   */
+  allowNullOrigin?: boolean;
+  /**
+   * Transport 类型，默认为 'post-robot'
+   * 设为 'message-channel' 时，握手后通过专用 MessagePort 通信
+   */
+  transportType?: TransportType;
+  /**
+   * 分块传输配置，设置后超大消息会被拆分发送，对端需要同时启用
+   */
+  chunking?: ChunkingOptions;
+  /**
+   * 端到端加密配置，设为 true 使用默认配置，对端需要同时启用
+   */
+  encryption?: EncryptionOptions | boolean;
+  /**
+   * 消息中间件，用于日志、脱敏、统计等，建议使用稳定的引用（如 useMemo）避免重复连接
    */
-  allowedOrigins?: string[];
+  middleware?: TransportMiddleware[];
+  /**
+   * 通信频道（命名空间），同一对窗口之间运行多个 MCP 会话时用于区分，对端需要配置相同频道
+   */
+  channel?: string;
 }
 
 /**
@@ -89,6 +155,18 @@ export interface UseMcpClientReturn {
    * 断开连接
    */
   disconnect: () => Promise<void>;
+  /**
+   * 当前打开的弹出窗口
+   */
+  popupWindow: Window | null;
+  /**
+   * 打开弹出窗口并连接（需要配置 popup，且在用户点击等操作中调用）
+   */
+  openPopup: () => Promise<ServerInfo>;
+  /**
+   * 关闭弹出窗口
+   */
+  closePopup: () => void;
   /**
    * 刷新工具列表
    */
@@ -108,6 +186,10 @@ export interface UseMcpClientReturn {
     name: string,
     args?: Record<string, unknown>
   ) => Promise<ToolCallResult>;
+  /**
+   * 批量发送请求，结果按请求顺序返回
+   */
+  batch: (requests: BatchRequest[]) => Promise<PromiseSettledResult<unknown>[]>;
   /**
    * 读取资源
    */
@@ -148,10 +230,22 @@ export function useMcpClient(
 ): UseMcpClientReturn {
   const {
     transportOptions,
+    transport,
     iframeRef,
+    asPopup = false,
+    popup,
     autoConnect = true,
     autoFetch = true,
+    strictOrigin,
+    allowWildcardOrigin,
     allowedOrigins,
+    deniedOrigins,
+    allowNullOrigin,
+    transportType,
+    chunking,
+    encryption,
+    middleware,
+    channel,
     ...clientOptions
   } = options;
 
@@ -164,6 +258,8 @@ export function useMcpClient(
   const [tools, setTools] = useState<Tool[]>([]);
   const [resources, setResources] = useState<Resource[]>([]);
   const [prompts, setPrompts] = useState<Prompt[]>([]);
+  const [popupWindow, setPopupWindow] = useState<Window | null>(null);
+  const popupRef = useRef<Window | null>(null);
 
   // 刷新工具列表
   const refreshTools = useCallback(async () => {
@@ -186,6 +282,43 @@ export function useMcpClient(
     return result;
   }, [client]);
 
+  // 同步 Client 内部触发的状态变化（心跳断开、自动重连等）
+  useEffect(() => {
+    let previous = client.getState();
+    return client.on("stateChange", (next) => {
+      setState(next);
+      if (next === "connected") {
+        setServerInfo(client.getServerInfo());
+        // 重连后对端可能是新页面，重新获取列表
+        if (previous === "reconnecting" && autoFetch) {
+          Promise.all([
+            refreshTools(),
+            refreshResources(),
+            refreshPrompts(),
+          ]).catch((err) => console.error("重连后刷新列表失败:", err));
+        }
+      }
+      previous = next;
+    });
+  }, [client, autoFetch, refreshTools, refreshResources, refreshPrompts]);
+
+  // Server 的列表变化时重新获取对应列表
+  useEffect(() => {
+    if (!autoFetch) return;
+
+    const refreshers: Record<string, () => Promise<unknown>> = {
+      "notifications/tools/list_changed": refreshTools,
+      "notifications/resources/list_changed": refreshResources,
+      "notifications/prompts/list_changed": refreshPrompts,
+    };
+    return client.onNotification((notification) => {
+      const refresh = refreshers[notification.method];
+      if (refresh) {
+        refresh().catch((err) => console.error("刷新列表失败:", err));
+      }
+    });
+  }, [client, autoFetch, refreshTools, refreshResources, refreshPrompts]);
+
   // 连接函数
   const connect = useCallback(async () => {
     // 如果已经在连接中或已连接，不重复连接
@@ -197,13 +330,18 @@ export function useMcpClient(
         const info = client.getServerInfo();
         if (info) return info;
       }
-      // 如果正在连接，等待完成
+      // 如果正在连接，等待状态变化
       return new Promise<ServerInfo>((resolve, reject) => {
-        const checkInterval = setInterval(() => {
-          const currentState = client.getState();
+        // 超时保护
+        const timer = setTimeout(() => {
+          off();
+          reject(new Error("连接超时"));
+        }, 5000);
+        const off = client.on("stateChange", (currentState) => {
           if (currentState === "connected") {
             const info = client.getServerInfo();
-            clearInterval(checkInterval);
+            clearTimeout(timer);
+            off();
             if (info) {
               resolve(info);
             } else {
@@ -213,15 +351,11 @@ export function useMcpClient(
             currentState === "error" ||
             currentState === "disconnected"
           ) {
-            clearInterval(checkInterval);
+            clearTimeout(timer);
+            off();
             reject(new Error("连接失败"));
           }
-        }, 100);
-        // 超时保护
-        setTimeout(() => {
-          clearInterval(checkInterval);
-          reject(new Error("连接超时"));
-        }, 5000);
+        });
       });
     }
 
@@ -229,15 +363,29 @@ export function useMcpClient(
       setError(null);
       setState("connecting");
 
-      // 如果指定了 iframeRef，使用反向模式（主页面作为 Client）
-      const target = iframeRef?.current?.contentWindow;
-      const finalTransportOptions: ClientTransportOptions = {
+      // 如果指定了 iframeRef 或打开了弹出窗口，使用反向模式（主页面作为 Client）；
+      // asPopup 模式下与 window.opener 通信
+      const target =
+        iframeRef?.current?.contentWindow ??
+        popupRef.current ??
+        (asPopup ? (window.opener as Window | null) : null);
+      const finalTransportOptions: ClientConnectOptions = {
         ...transportOptions,
+        strictOrigin: strictOrigin ?? transportOptions?.strictOrigin,
+        allowWildcardOrigin:
+          allowWildcardOrigin ?? transportOptions?.allowWildcardOrigin,
         allowedOrigins: allowedOrigins ?? transportOptions?.allowedOrigins,
+        deniedOrigins: deniedOrigins ?? transportOptions?.deniedOrigins,
+        allowNullOrigin: allowNullOrigin ?? transportOptions?.allowNullOrigin,
+        transportType,
+        chunking,
+        encryption,
+        middleware,
+        channel: channel ?? transportOptions?.channel,
         ...(target ? { target } : {}),
       };
 
-      const info = await client.connect(finalTransportOptions);
+      const info = await client.connect(transport ?? finalTransportOptions);
       setServerInfo(info);
       setState("connected");
 
@@ -264,8 +412,19 @@ export function useMcpClient(
   }, [
     client,
     transportOptions,
+    transport,
     iframeRef,
+    asPopup,
+    strictOrigin,
+    allowWildcardOrigin,
     allowedOrigins,
+    deniedOrigins,
+    allowNullOrigin,
+    transportType,
+    chunking,
+    encryption,
+    middleware,
+    channel,
     autoFetch,
     refreshTools,
     refreshResources,
@@ -282,6 +441,48 @@ export function useMcpClient(
     setPrompts([]);
   }, [client]);
 
+  // 打开弹出窗口并连接其中的 Server
+  const openPopup = useCallback(async () => {
+    if (!popup) {
+      throw new Error("未配置 popup，无法打开弹出窗口");
+    }
+
+    // 已打开的窗口直接聚焦
+    if (popupRef.current && !popupRef.current.closed) {
+      popupRef.current.focus();
+      const info = client.getServerInfo();
+      if (info) return info;
+    } else {
+      popupRef.current = openPopupWindow(popup);
+      setPopupWindow(popupRef.current);
+    }
+
+    // 弹出窗口加载期间由握手重试等待 Server 就绪
+    return connect();
+  }, [client, popup, connect]);
+
+  // 关闭弹出窗口，连接随窗口关闭自动断开
+  const closePopup = useCallback(() => {
+    popupRef.current?.close();
+  }, []);
+
+  // 弹出窗口被关闭时更新状态（Transport 会自行关闭）
+  useEffect(() => {
+    if (!popupWindow) return;
+
+    return watchWindowClosed(popupWindow, () => {
+      if (popupRef.current === popupWindow) {
+        popupRef.current = null;
+      }
+      setPopupWindow(null);
+      setState("disconnected");
+      setServerInfo(null);
+      setTools([]);
+      setResources([]);
+      setPrompts([]);
+    });
+  }, [popupWindow]);
+
   // 调用工具
   const callTool = useCallback(
     async (name: string, args?: Record<string, unknown>) => {
@@ -290,6 +491,14 @@ export function useMcpClient(
     [client]
   );
 
+  // 批量请求
+  const batch = useCallback(
+    async (requests: BatchRequest[]) => {
+      return await client.batch(requests);
+    },
+    [client]
+  );
+
   // 读取资源
   const readResource = useCallback(
     async (uri: string) => {
@@ -307,9 +516,18 @@ export function useMcpClient(
   );
 
   // 自动连接
+  const hasPopup = !!popup;
   useEffect(() => {
     if (!autoConnect) return;
 
+    // 自定义 Transport 不依赖窗口，直接连接
+    if (transport) {
+      setTimeout(() => {
+        connect().catch(console.error);
+      }, 0);
+      return;
+    }
+
     // 反向模式：Client 在主页面中运行，与 iframe 中的 Server 通信
     if (iframeRef) {
       const iframe = iframeRef.current;
@@ -317,7 +535,13 @@ export function useMcpClient(
 
       const handleLoad = () => {
         setTimeout(() => {
-          connect().catch(console.error);
+          // iframe 刷新或导航后其中的 Server 已重新启动，已连接过时需要重新握手并初始化
+          const current = client.getState();
+          const pending =
+            current === "connected" || current === "error"
+              ? client.reconnect()
+              : connect();
+          pending.catch(console.error);
         }, 0);
       };
 
@@ -326,15 +550,24 @@ export function useMcpClient(
         setTimeout(() => {
           connect().catch(console.error);
         }, 0);
-      } else {
-        iframe.addEventListener("load", handleLoad);
-        return () => iframe.removeEventListener("load", handleLoad);
       }
+
+      // 持续监听 load 事件，以便在 iframe 刷新后恢复连接
+      iframe.addEventListener("load", handleLoad);
+      return () => iframe.removeEventListener("load", handleLoad);
+    }
+
+    // 主页面打开弹出窗口的模式需要用户手势，不自动连接
+    if (hasPopup) return;
+
+    // asPopup 模式：检查是否在弹出窗口中
+    if (asPopup && !window.opener) {
+      console.warn("asPopup 模式需要在通过 window.open 打开的窗口中运行");
       return;
     }
 
     // 默认模式：检查是否在 iframe 中
-    if (window === window.parent) {
+    if (!asPopup && window === window.parent) {
       console.warn(
         "MCP Client 默认模式需要在 iframe 中运行，或使用 iframeRef 指定目标"
       );
@@ -360,7 +593,7 @@ export function useMcpClient(
     return () => {
       mounted = false;
     };
-  }, [autoConnect, connect, iframeRef]);
+  }, [autoConnect, client, connect, transport, iframeRef, asPopup, hasPopup]);
 
   // 组件卸载时断开连接
   useEffect(() => {
@@ -380,10 +613,14 @@ export function useMcpClient(
     prompts,
     connect,
     disconnect,
+    popupWindow,
+    openPopup,
+    closePopup,
     refreshTools,
     refreshResources,
     refreshPrompts,
     callTool,
+    batch,
     readResource,
     getPrompt,
   };
@@ -0,0 +1,175 @@
+/**
+ * MCP Relay React Hook
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { McpRelay, type McpRelayOptions } from "../relay/index.js";
+import type { ServerConnectOptions } from "../server/index.js";
+import type { ClientConnectOptions, ClientState } from "../client/index.js";
+
+/**
+ * useMcpRelay Hook 配置
+ */
+export interface UseMcpRelayOptions extends McpRelayOptions {
+  /**
+   * 连接上级窗口的配置（目标 origin、Transport 类型、分块、加密、中间件等），
+   * 与 McpClient.connect 相同，默认连接 window.parent；建议使用稳定的引用（如 useMemo）
+   */
+  upstream?: ClientConnectOptions | Transport;
+  /**
+   * 下级 iframe 元素的 ref
+   */
+  iframeRef?: React.RefObject<HTMLIFrameElement | null>;
+  /**
+   * 下级目标窗口（如果不使用 iframeRef）
+   */
+  targetWindow?: Window;
+  /**
+   * 与下级通信的自定义 Transport，设置后忽略 iframeRef、targetWindow
+   */
+  transport?: Transport;
+  /**
+   * 与下级窗口通信的配置（origin 白名单、Transport 类型、分块、加密、中间件等），
+   * 与 McpServer.connect 相同（使用自定义 Transport 时只读取其中的 relay），建议使用稳定的引用（如 useMemo）避免重复连接
+   */
+  connectOptions?: ServerConnectOptions;
+  /**
+   * 是否自动连接
+   */
+  autoConnect?: boolean;
+}
+
+/**
+ * useMcpRelay Hook 返回值
+ */
+export interface UseMcpRelayReturn {
+  /**
+   * MCP Relay 实例
+   */
+  relay: McpRelay;
+  /**
+   * 上级连接状态
+   */
+  upstreamState: ClientState;
+  /**
+   * 下级是否已连接
+   */
+  isConnected: boolean;
+  /**
+   * 连接错误
+   */
+  error: Error | null;
+  /**
+   * 连接上级窗口与下级 iframe
+   */
+  connect: () => Promise<void>;
+  /**
+   * 断开所有连接
+   */
+  disconnect: () => Promise<void>;
+}
+
+/**
+ * MCP Relay React Hook
+ * 在中间层窗口中把下级 iframe 的 MCP 请求转发给上级窗口的 McpServer
+ */
+export function useMcpRelay(
+  options: UseMcpRelayOptions = {}
+): UseMcpRelayReturn {
+  const {
+    upstream,
+    iframeRef,
+    targetWindow,
+    transport,
+    connectOptions,
+    autoConnect = true,
+    ...relayOptions
+  } = options;
+
+  // 使用 useState 保存 relay 实例，避免重复创建
+  const [relay] = useState<McpRelay>(() => new McpRelay(relayOptions));
+
+  const [upstreamState, setUpstreamState] = useState<ClientState>(() =>
+    relay.getUpstreamState()
+  );
+  const [isConnected, setIsConnected] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // 同步上级连接状态（心跳断开、自动重连等）
+  useEffect(() => relay.onUpstreamStateChange(setUpstreamState), [relay]);
+
+  // 连接函数：先连接上级，再连接下级
+  const connect = useCallback(async () => {
+    try {
+      setError(null);
+      await relay.connectUpstream(upstream);
+
+      if (transport) {
+        await relay.connect(transport, connectOptions);
+      } else {
+        const target = targetWindow ?? iframeRef?.current;
+        if (!target) {
+          throw new Error("未指定目标 iframe 或窗口");
+        }
+        await relay.connect(target, connectOptions);
+      }
+      setIsConnected(true);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      setError(error);
+      setIsConnected(false);
+      throw error;
+    }
+  }, [relay, upstream, transport, targetWindow, iframeRef, connectOptions]);
+
+  // 断开连接函数
+  const disconnect = useCallback(async () => {
+    await relay.disconnect();
+    setIsConnected(false);
+  }, [relay]);
+
+  // 自动连接
+  useEffect(() => {
+    if (!autoConnect) return;
+
+    // iframe 每次加载（包括刷新、导航）都重新建立会话，替换旧会话
+    const iframe = transport ? null : iframeRef?.current;
+    if (iframe) {
+      const handleLoad = () => {
+        setTimeout(() => {
+          connect().catch(console.error);
+        }, 0);
+      };
+
+      if (iframe.contentDocument?.readyState === "complete") {
+        handleLoad();
+      }
+
+      iframe.addEventListener("load", handleLoad);
+      return () => iframe.removeEventListener("load", handleLoad);
+    }
+
+    if (!transport && !targetWindow) return;
+
+    setTimeout(() => {
+      connect().catch(console.error);
+    }, 0);
+  }, [autoConnect, connect, transport, iframeRef, targetWindow]);
+
+  // 组件卸载时断开连接
+  useEffect(() => {
+    return () => {
+      relay.disconnect().catch(console.error);
+    };
+  }, [relay]);
+
+  return {
+    relay,
+    upstreamState,
+    isConnected,
+    error,
+    connect,
+    disconnect,
+  };
+}
@@ -2,7 +2,8 @@
  * MCP Server React Hook
  */
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
   McpServer,
   type McpServerOptions,
@@ -10,6 +11,16 @@ import {
   type ResourceDefinition,
   type PromptDefinition,
 } from "../server/index.js";
+import {
+  openPopup as openPopupWindow,
+  watchWindowClosed,
+  type PopupOptions,
+  type ChunkingOptions,
+  type EncryptionOptions,
+  type TransportMiddleware,
+  type OriginRule,
+  type TransportType,
+} from "../transport/index.js";
 
 /**
  * useMcpServer Hook 配置
@@ -23,20 +34,77 @@ export interface UseMcpServerOptions extends McpServerOptions {
    * 目标窗口（如果不使用 iframeRef）
    */
   targetWindow?: Window;
+  /**
+   * 自定义 Transport（如 createLoopbackTransportPair 创建的一端）
+   * 设置后直接使用该 Transport 连接，忽略 iframeRef、targetWindow 等窗口相关配置
+   */
+  transport?: Transport;
   /**
    * 是否在 iframe 中运行（反向模式）
    * 设为 true 时，Server 在 iframe 中运行，与父窗口的 Client 通信
    */
   asIframe?: boolean;
+  /**
+   * 是否在弹出窗口中运行
+   * 设为 true 时，Server 在 window.open 打开的窗口中运行，与 window.opener 的 Client 通信
+   */
+  asPopup?: boolean;
+  /**
+   * 弹出窗口配置（主页面模式使用）
+   * 设置后通过返回的 openPopup() 打开窗口并连接，窗口关闭时自动断开
+   */
+  popup?: PopupOptions;
   /**
    * 允许的 origin
    */
   targetOrigin?: string;
   /**
-   * 允许通信的域名白名单列表，不配置则允许所有域名
-   * 支持精确匹配和通配符，如：['https://example.com', '*.example.com']
+   * 严格模式：未配置 targetOrigin 时从 iframe.src 或 document.referrer 推导目标 origin，
+   * 拒绝向 '*' 发送消息，并在每次发送前重新检查目标 origin
+   */
+  strictOrigin?: boolean;
+  /**
+   * 严格模式下是否允许向 '*' 发送消息，默认 false
+   */
+  allowWildcardOrigin?: boolean;
+  /**
+   * 允许通信的 origin 白名单，不配置则允许所有 origin
+   * 支持字符串规则、正则与函数，如：['https://example.com', '*.example.com:*']
+   */
+  allowedOrigins?: OriginRule[];
+  /**
+   * 拒绝通信的 origin 黑名单，优先于白名单
+   */
+  deniedOrigins?: OriginRule[];
+  /**
+   * 是否允许 origin 为 'null' 的对端（沙箱 iframe、file: 页面）
+   */
+  allowNullOrigin?: boolean;
+  /**
+   * Transport 类型，默认为 'post-robot'
+   * 设为 'message-channel' 时，握手后通过专用 MessagePort 通信
+   */
+  transportType?: TransportType;
+  /**
+   * 分块传输配置，设置后超大消息会被拆分发送，对端需要同时启用
    */
-  allowedOrigins?: string[];
+  chunking?: ChunkingOptions;
+  /**
+   * 端到端加密配置，设为 true 使用默认配置，对端需要同时启用
+   */
+  encryption?: EncryptionOptions | boolean;
+  /**
+   * 消息中间件，用于日志、脱敏、统计等，建议使用稳定的引用（如 useMemo）避免重复连接
+   */
+  middleware?: TransportMiddleware[];
+  /**
+   * 通信频道（命名空间），同一对窗口之间运行多个 MCP 会话时用于区分，对端需要配置相同频道
+   */
+  channel?: string;
+  /**
+   * 对端是否为 McpRelay，设为 true 时处理函数可以通过 context.route 读取转发路径
+   */
+  relay?: boolean;
   /**
    * 是否自动连接
    */
@@ -67,6 +135,18 @@ export interface UseMcpServerReturn {
    * 断开连接
    */
   disconnect: () => Promise<void>;
+  /**
+   * 当前打开的弹出窗口
+   */
+  popupWindow: Window | null;
+  /**
+   * 打开弹出窗口并连接（需要配置 popup，且在用户点击等操作中调用）
+   */
+  openPopup: () => Promise<void>;
+  /**
+   * 关闭弹出窗口
+   */
+  closePopup: () => void;
   /**
    * 添加工具
    */
@@ -101,9 +181,22 @@ export function useMcpServer(options: UseMcpServerOptions): UseMcpServerReturn {
   const {
     iframeRef,
     targetWindow,
+    transport,
     asIframe = false,
+    asPopup = false,
+    popup,
     targetOrigin,
+    strictOrigin,
+    allowWildcardOrigin,
     allowedOrigins,
+    deniedOrigins,
+    allowNullOrigin,
+    transportType,
+    chunking,
+    encryption,
+    middleware,
+    channel,
+    relay,
     autoConnect = true,
     ...serverOptions
   } = options;
@@ -111,42 +204,125 @@ export function useMcpServer(options: UseMcpServerOptions): UseMcpServerReturn {
   // 使用 useState 保存 server 实例，避免重复创建
   const [server] = useState<McpServer>(() => new McpServer(serverOptions));
 
-  const [isConnected, setIsConnected] = useState(false);
+  const [isConnected, setIsConnected] = useState(
+    () => server.getState() === "connected"
+  );
   const [error, setError] = useState<Error | null>(null);
+  const [popupWindow, setPopupWindow] = useState<Window | null>(null);
+  const popupRef = useRef<Window | null>(null);
+
+  // 同步 Server 状态：会话建立、Transport 关闭（iframe 移除、弹出窗口关闭）、心跳超时等都会触发
+  useEffect(
+    () =>
+      server.on("stateChange", (state) => setIsConnected(state === "connected")),
+    [server]
+  );
 
   // 连接函数
   const connect = useCallback(async () => {
     try {
       setError(null);
 
-      // 确定目标：asIframe 模式使用 'parent'，否则使用 iframe 或 window
-      let target: HTMLIFrameElement | Window | "parent";
+      if (transport) {
+        await server.connect(transport, { relay });
+        return;
+      }
+
+      // 确定目标：asIframe 模式使用 'parent'，asPopup 模式使用 'opener'，
+      // 否则使用 iframe、window 或已打开的弹出窗口
+      let target: HTMLIFrameElement | Window | "parent" | "opener";
       if (asIframe) {
         target = "parent";
+      } else if (asPopup) {
+        target = "opener";
       } else {
-        const resolvedTarget = targetWindow ?? iframeRef?.current;
+        const resolvedTarget =
+          targetWindow ?? iframeRef?.current ?? popupRef.current;
         if (!resolvedTarget) {
           throw new Error("未指定目标 iframe 或窗口");
         }
         target = resolvedTarget;
       }
 
-      await server.connect(target, { targetOrigin, allowedOrigins });
-      setIsConnected(true);
+      await server.connect(target, {
+        targetOrigin,
+        strictOrigin,
+        allowWildcardOrigin,
+        allowedOrigins,
+        deniedOrigins,
+        allowNullOrigin,
+        transportType,
+        chunking,
+        encryption,
+        middleware,
+        channel,
+        relay,
+      });
     } catch (err) {
       const error = err instanceof Error ? err : new Error(String(err));
       setError(error);
-      setIsConnected(false);
       throw error;
     }
-  }, [server, iframeRef, targetWindow, asIframe, targetOrigin, allowedOrigins]);
+  }, [
+    server,
+    iframeRef,
+    targetWindow,
+    transport,
+    asIframe,
+    asPopup,
+    targetOrigin,
+    strictOrigin,
+    allowWildcardOrigin,
+    allowedOrigins,
+    deniedOrigins,
+    allowNullOrigin,
+    transportType,
+    chunking,
+    encryption,
+    middleware,
+    channel,
+    relay,
+  ]);
 
   // 断开连接函数
   const disconnect = useCallback(async () => {
     await server.disconnect();
-    setIsConnected(false);
   }, [server]);
 
+  // 打开弹出窗口并连接
+  const openPopup = useCallback(async () => {
+    if (!popup) {
+      throw new Error("未配置 popup，无法打开弹出窗口");
+    }
+
+    // 已打开的窗口直接聚焦
+    if (popupRef.current && !popupRef.current.closed) {
+      popupRef.current.focus();
+      return;
+    }
+
+    popupRef.current = openPopupWindow(popup);
+    setPopupWindow(popupRef.current);
+    await connect();
+  }, [popup, connect]);
+
+  // 关闭弹出窗口，会话随窗口关闭自动结束
+  const closePopup = useCallback(() => {
+    popupRef.current?.close();
+  }, []);
+
+  // 弹出窗口被关闭时更新状态（Transport 会自行关闭对应会话）
+  useEffect(() => {
+    if (!popupWindow) return;
+
+    return watchWindowClosed(popupWindow, () => {
+      if (popupRef.current === popupWindow) {
+        popupRef.current = null;
+      }
+      setPopupWindow(null);
+    });
+  }, [popupWindow]);
+
   // 添加工具
   const addTool = useCallback(
     (tool: ToolDefinition) => {
@@ -199,6 +375,14 @@ export function useMcpServer(options: UseMcpServerOptions): UseMcpServerReturn {
   useEffect(() => {
     if (!autoConnect) return;
 
+    // 自定义 Transport 不依赖窗口，直接连接
+    if (transport) {
+      setTimeout(() => {
+        connect().catch(console.error);
+      }, 0);
+      return;
+    }
+
     // asIframe 模式：Server 在 iframe 中运行
     if (asIframe) {
       // 检查是否在 iframe 中
@@ -212,6 +396,18 @@ export function useMcpServer(options: UseMcpServerOptions): UseMcpServerReturn {
       return;
     }
 
+    // asPopup 模式：Server 在弹出窗口中运行
+    if (asPopup) {
+      if (!window.opener) {
+        console.warn("asPopup 模式需要在通过 window.open 打开的窗口中运行");
+        return;
+      }
+      setTimeout(() => {
+        connect().catch(console.error);
+      }, 0);
+      return;
+    }
+
     // 默认模式：需要 target
     const target = targetWindow ?? iframeRef?.current;
     if (!target) return;
@@ -220,6 +416,7 @@ export function useMcpServer(options: UseMcpServerOptions): UseMcpServerReturn {
     if (iframeRef?.current) {
       const iframe = iframeRef.current;
 
+      // iframe 每次加载（包括刷新、导航）都重新建立会话，替换旧会话
       const handleLoad = () => {
         setTimeout(() => {
           connect().catch(console.error);
@@ -231,16 +428,24 @@ export function useMcpServer(options: UseMcpServerOptions): UseMcpServerReturn {
         setTimeout(() => {
           connect().catch(console.error);
         }, 0);
-      } else {
-        iframe.addEventListener("load", handleLoad);
-        return () => iframe.removeEventListener("load", handleLoad);
       }
+
+      iframe.addEventListener("load", handleLoad);
+      return () => iframe.removeEventListener("load", handleLoad);
     } else {
       setTimeout(() => {
         connect().catch(console.error);
       }, 0);
     }
-  }, [autoConnect, connect, iframeRef, targetWindow, asIframe]);
+  }, [
+    autoConnect,
+    connect,
+    iframeRef,
+    targetWindow,
+    transport,
+    asIframe,
+    asPopup,
+  ]);
 
   // 组件卸载时断开连接
   useEffect(() => {
@@ -255,6 +460,9 @@ export function useMcpServer(options: UseMcpServerOptions): UseMcpServerReturn {
     error,
     connect,
     disconnect,
+    popupWindow,
+    openPopup,
+    closePopup,
     addTool,
     removeTool,
     addResource,
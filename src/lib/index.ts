@@ -8,12 +8,93 @@
 export {
   PostMessageServerTransport,
   PostMessageClientTransport,
+  MessageChannelServerTransport,
+  MessageChannelClientTransport,
   createServerTransport,
   createClientTransport,
+  createChannelServerTransport,
+  createChannelClientTransport,
+  BroadcastChannelServerTransport,
+  BroadcastChannelClientTransport,
+  BroadcastChannelListener,
+  createBroadcastServerTransport,
+  createBroadcastClientTransport,
+  WorkerServerTransport,
+  WorkerClientTransport,
+  SharedWorkerListener,
+  createWorkerServerTransport,
+  createWorkerClientTransport,
+  ChunkedTransport,
+  createChunkedTransport,
+  EncryptedTransport,
+  createEncryptedTransport,
+  MiddlewareTransport,
+  createMiddlewareTransport,
+  TraceRecorder,
+  createTraceRecorder,
+  serializeTrace,
+  parseTrace,
+  ReplayTransport,
+  createReplayTransport,
+  LoopbackTransport,
+  createLoopbackTransportPair,
+  OriginPolicy,
+  createOriginPolicy,
+  TargetOriginResolver,
+  deriveTargetOrigin,
+  openPopup,
+  TypedEventEmitter,
+  TransportEventEmitter,
+  parsePayload,
+  validateMessage,
   type ServerTransportOptions,
   type ClientTransportOptions,
+  type BroadcastServerTransportOptions,
+  type BroadcastClientTransportOptions,
+  type WorkerServerTransportOptions,
+  type WorkerClientTransportOptions,
+  type MessageEndpoint,
+  type PopupOptions,
+  type ChunkingOptions,
+  type EncryptionOptions,
+  type EncryptionRole,
+  type TransportMiddleware,
+  type MessageMiddleware,
+  type MiddlewareContext,
+  type MiddlewareNext,
+  type MiddlewareMessage,
+  type TraceEntry,
+  type TraceRecorderOptions,
+  type ReplayTransportOptions,
+  type ReplayResult,
+  type ReplayMismatch,
+  type LoopbackSide,
+  type LoopbackTransportOptions,
+  type LoopbackTransportPair,
+  type OriginRule,
+  type OriginPolicyOptions,
+  type TargetOriginOptions,
+  type TransportListener,
   type TransportState,
+  type TransportEventMap,
+  type TransportSessionEvent,
+  type TypedEventListener,
+  type MessageValidationResult,
+  type PayloadParseResult,
+  type TransportType,
+  type JSONRPCBatch,
+  type BinaryData,
+  type AuthIdentity,
+  type AuthCredentials,
+  type HmacSecret,
+  type RouteHop,
   MCP_MESSAGE_EVENT,
+  MCP_BROADCAST_CHANNEL,
+  BINARY_TRANSFER_CAPABILITY,
+  MCP_AUTH_ERROR_CODE,
+  MCP_ROUTE_META_KEY,
+  MCP_RATE_LIMIT_ERROR_CODE,
+  TRACE_FORMAT_VERSION,
 } from './transport/index.js';
 
 // Server
@@ -21,17 +102,34 @@ export {
   McpServer,
   createMcpServer,
   type McpServerOptions,
+  type ServerConnectOptions,
+  type SessionOptions,
   type ToolDefinition,
+  type ToolInputValidation,
+  type SchemaValidationIssue,
   type ResourceDefinition,
   type PromptDefinition,
   type ToolCallInput,
   type ToolCallResult,
+  type ResourceContents,
   type ToolInfo,
   type ResourceInfo,
   type PromptInfo,
   type PromptArgument,
   type ResourceReadHandler,
   type PromptGetHandler,
+  type SessionInfo,
+  type ClientInfo,
+  type RequestContext,
+  type ServerAuthOptions,
+  type AuthIdentityInput,
+  type ServerEventMap,
+  type ServerMessageEvent,
+  type ServerErrorEvent,
+  type RateLimitOptions,
+  type RateLimitRule,
+  type RateLimitReason,
+  type RateLimitEvent,
 } from './server/index.js';
 
 // Client
@@ -39,23 +137,50 @@ export {
   McpClient,
   createMcpClient,
   type McpClientOptions,
+  type ClientConnectOptions,
+  type ClientAuthOptions,
+  type BatchRequest,
   type CallToolParams,
   type ReadResourceParams,
   type GetPromptParams,
   type ServerInfo,
   type ClientState,
+  type ClientEventMap,
   type Tool,
   type Resource,
   type Prompt,
 } from './client/index.js';
 
+// Bridge
+export {
+  McpBridge,
+  createMcpBridge,
+  type McpBridgeOptions,
+  type RemoteServerOptions,
+  type BridgeRemoteState,
+  type BridgeSessionInfo,
+} from './bridge/index.js';
+// Relay
+export {
+  McpRelay,
+  createMcpRelay,
+  type McpRelayOptions,
+  type RelaySessionInfo,
+} from './relay/index.js';
+
 // React Hooks
 export {
   useMcpServer,
   useMcpClient,
+  useMcpBridge,
+  useMcpRelay,
   type UseMcpServerOptions,
   type UseMcpServerReturn,
   type UseMcpClientOptions,
   type UseMcpClientReturn,
+  type UseMcpBridgeOptions,
+  type UseMcpBridgeReturn,
+  type UseMcpRelayOptions,
+  type UseMcpRelayReturn,
 } from './hooks/index.js';
 
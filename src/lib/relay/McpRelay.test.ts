@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type {
+  JSONRPCMessage,
+  JSONRPCRequest,
+  JSONRPCResultResponse,
+} from "@modelcontextprotocol/sdk/types.js";
+import { McpRelay } from "./McpRelay.js";
+import { McpServer } from "../server/McpServer.js";
+import type { SessionOptions } from "../server/types.js";
+import { createLoopbackTransportPair } from "../transport/loopback-transport.js";
+import { MCP_ROUTE_META_KEY, type RouteHop } from "../transport/types.js";
+
+/**
+ * 创建返回 context.route 的 McpServer
+ */
+function createServer(): McpServer {
+  const server = new McpServer({ name: "shell", version: "1.0.0" });
+  server.addTool({
+    name: "route",
+    inputSchema: { type: "object" },
+    handler: (_input, context) => ({
+      content: [{ type: "text", text: JSON.stringify(context.route) }],
+    }),
+  });
+  return server;
+}
+
+const forgedHop: RouteHop = {
+  origin: "https://forged.example.com",
+  sessionId: "forged",
+  relay: "forged",
+};
+
+/**
+ * 调用 route 工具，_meta 中携带指定的转发路径
+ */
+const callRoute = (id: number, route: RouteHop[]): JSONRPCRequest => ({
+  jsonrpc: "2.0",
+  id,
+  method: "tools/call",
+  params: {
+    name: "route",
+    arguments: {},
+    _meta: { [MCP_ROUTE_META_KEY]: route },
+  },
+});
+
+/**
+ * 通过原始 Transport 发送请求，返回处理函数看到的转发路径
+ */
+async function requestRoute(
+  connect: (transport: Transport) => Promise<unknown>,
+  route: RouteHop[]
+): Promise<RouteHop[]> {
+  const pair = createLoopbackTransportPair();
+  const received: JSONRPCMessage[] = [];
+  pair.client.onmessage = (message) => received.push(message);
+  await connect(pair.server);
+  await pair.client.start();
+
+  await pair.client.send(callRoute(1, route));
+  await vi.waitFor(() => expect(received).toHaveLength(1));
+  const { result } = received[0] as JSONRPCResultResponse;
+  const [content] = result.content as Array<{ text: string }>;
+  return JSON.parse(content.text) as RouteHop[];
+}
+
+describe("McpServer 转发路径", () => {
+  const connectServer = (server: McpServer, options?: SessionOptions) =>
+    requestRoute(
+      (transport) => server.connect(transport, options),
+      [forgedHop]
+    );
+
+  it("忽略非 Relay 会话携带的转发路径", async () => {
+    const server = createServer();
+    expect(await connectServer(server)).toEqual([]);
+    await server.disconnect();
+  });
+
+  it("读取 Relay 会话携带的转发路径", async () => {
+    const server = createServer();
+    expect(await connectServer(server, { relay: true })).toEqual([forgedHop]);
+    await server.disconnect();
+  });
+});
+
+describe("McpRelay 转发路径", () => {
+  it("丢弃下级伪造的路径，追加当前这一跳", async () => {
+    const server = createServer();
+    const upstream = createLoopbackTransportPair();
+    await server.connect(upstream.server, { relay: true });
+    const relay = new McpRelay({ name: "workspace", autoReconnect: false });
+    await relay.connectUpstream(upstream.client);
+
+    let sessionId = "";
+    const route = await requestRoute(
+      async (transport) => {
+        sessionId = await relay.connect(transport);
+      },
+      [forgedHop]
+    );
+    expect(route).toEqual([{ origin: null, sessionId, relay: "workspace" }]);
+
+    await relay.disconnect();
+    await server.disconnect();
+  });
+
+  it("下级为 Relay 时保留其路径", async () => {
+    const server = createServer();
+    const upstream = createLoopbackTransportPair();
+    await server.connect(upstream.server, { relay: true });
+    const relay = new McpRelay({ name: "workspace", autoReconnect: false });
+    await relay.connectUpstream(upstream.client);
+
+    let sessionId = "";
+    const route = await requestRoute(
+      async (transport) => {
+        sessionId = await relay.connect(transport, { relay: true });
+      },
+      [forgedHop]
+    );
+    expect(route).toEqual([
+      forgedHop,
+      { origin: null, sessionId, relay: "workspace" },
+    ]);
+
+    await relay.disconnect();
+    await server.disconnect();
+  });
+});
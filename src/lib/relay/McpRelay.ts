@@ -0,0 +1,519 @@
+/**
+ * MCP Relay 实现
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type JSONRPCMessage,
+  type JSONRPCNotification,
+  type JSONRPCRequest,
+  type JSONRPCResponse,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  MCP_ROUTE_META_KEY,
+  generateSessionId,
+  getPeerOrigin,
+  isTransport,
+  parsePayload,
+  validateMessage,
+  type RouteHop,
+  type ServerTransportOptions,
+} from "../transport/index.js";
+import {
+  createServerConnectTransport,
+  type ClientInfo,
+  type ServerConnectOptions,
+  type SessionOptions,
+} from "../server/index.js";
+import {
+  McpClient,
+  type ClientConnectOptions,
+  type ClientState,
+  type ServerInfo,
+} from "../client/index.js";
+import type { McpRelayOptions, RelaySessionInfo } from "./types.js";
+
+/**
+ * 连接目标
+ */
+type ConnectTarget = ServerTransportOptions["target"];
+
+/**
+ * 默认的中转窗口名称
+ */
+const DEFAULT_RELAY_NAME = "mcp-relay";
+
+/**
+ * 下级会话内部状态
+ */
+interface RelaySession {
+  info: Omit<RelaySessionInfo, "origin">;
+  transport: Transport;
+  /**
+   * 通过目标窗口建立的会话记录其目标与频道，用于重复连接同一目标时替换旧会话
+   */
+  target?: ConnectTarget;
+  channel?: string;
+  /**
+   * 下级是否为另一个 McpRelay，只有此时才保留其请求中的转发路径
+   */
+  relay: boolean;
+  closed: boolean;
+}
+
+/**
+ * initialize 请求参数
+ */
+interface InitializeParams {
+  protocolVersion?: string;
+  clientInfo?: ClientInfo;
+}
+
+/**
+ * 判断消息是否为请求
+ */
+function isRequest(message: JSONRPCMessage): message is JSONRPCRequest {
+  return "method" in message && "id" in message;
+}
+
+/**
+ * 构造 JSON-RPC 错误响应，保留上级 Server 返回的错误码与附加数据
+ */
+function createErrorResponse(
+  id: JSONRPCRequest["id"],
+  error: unknown,
+  fallbackCode: number = ErrorCode.InternalError
+): JSONRPCResponse {
+  const { code, data } = (error ?? {}) as { code?: unknown; data?: unknown };
+  return {
+    jsonrpc: "2.0",
+    id,
+    error: {
+      code: typeof code === "number" ? code : fallbackCode,
+      message: error instanceof Error ? error.message : String(error),
+      ...(data !== undefined ? { data } : {}),
+    },
+  } as JSONRPCResponse;
+}
+
+/**
+ * MCP Relay
+ *
+ * 在嵌套 iframe 的中间层窗口中运行，把下级窗口（子 iframe）的 MCP 请求转发给上级窗口的 McpServer，
+ * 使多层嵌套的 iframe 可以使用顶层页面的工具。
+ * 上级连接由内部的 McpClient 建立，下级会话与 McpServer.connect 相同，
+ * 每一跳都按各自的配置校验 origin；转发的请求会在 _meta 中追加转发路径，
+ * 上级 Server 以 relay 选项连接本 Relay 后，处理函数可以通过 context.route 读取。
+ *
+ * @example
+ * ```ts
+ * // workspace 页面：连接 shell，并为 plugin iframe 转发
+ * const relay = new McpRelay({ name: "workspace" });
+ * await relay.connectUpstream({ targetOrigin: "https://shell.example.com" });
+ * await relay.connect(pluginIframe, {
+ *   allowedOrigins: ["https://plugin.example.com"],
+ * });
+ * ```
+ */
+export class McpRelay {
+  private options: McpRelayOptions;
+  private upstream: McpClient;
+  private upstreamConnecting: Promise<ServerInfo> | null = null;
+  private sessions = new Map<string, RelaySession>();
+
+  constructor(options: McpRelayOptions = {}) {
+    this.options = options;
+    this.upstream = new McpClient({
+      ...options,
+      name: options.name ?? DEFAULT_RELAY_NAME,
+    });
+    // 上级 Server 的通知（如列表变化）转发给所有下级会话
+    this.upstream.onNotification((notification) =>
+      this.broadcast(notification)
+    );
+  }
+
+  /**
+   * 获取上级连接状态
+   */
+  getUpstreamState(): ClientState {
+    return this.upstream.getState();
+  }
+
+  /**
+   * 监听上级连接状态变化
+   * @returns 取消监听的函数
+   */
+  onUpstreamStateChange(listener: (state: ClientState) => void): () => void {
+    return this.upstream.onStateChange(listener);
+  }
+
+  /**
+   * 连接上级窗口的 McpServer
+   * 已连接时直接返回 Server 信息，连接过程中重复调用会等待同一次连接
+   * @param options - 与 McpClient.connect 相同，默认连接 window.parent
+   */
+  async connectUpstream(
+    options?: ClientConnectOptions | Transport
+  ): Promise<ServerInfo> {
+    const serverInfo = this.upstream.getServerInfo();
+    if (this.upstream.getState() === "connected" && serverInfo) {
+      return serverInfo;
+    }
+    if (!this.upstreamConnecting) {
+      this.upstreamConnecting = this.upstream.connect(options).finally(() => {
+        this.upstreamConnecting = null;
+      });
+    }
+    return this.upstreamConnecting;
+  }
+
+  /**
+   * 连接到下级窗口并建立一个新的会话
+   * 同一目标的同一频道只保留一个会话，重复连接时替换旧会话
+   * @returns 会话 ID
+   */
+  async connect(
+    target: ConnectTarget,
+    options?: ServerConnectOptions
+  ): Promise<string>;
+  /**
+   * 使用自定义 Transport 建立一个新的下级会话
+   * @returns 会话 ID
+   */
+  async connect(
+    transport: Transport,
+    options?: SessionOptions
+  ): Promise<string>;
+  async connect(
+    targetOrTransport: ConnectTarget | Transport,
+    options: ServerConnectOptions = {}
+  ): Promise<string> {
+    let transport: Transport;
+    let target: ConnectTarget | undefined;
+
+    if (isTransport(targetOrTransport)) {
+      for (const session of this.sessions.values()) {
+        if (session.transport === targetOrTransport) {
+          return session.info.id;
+        }
+      }
+      transport = targetOrTransport;
+    } else {
+      target = targetOrTransport;
+      for (const session of this.sessions.values()) {
+        if (
+          session.target === target &&
+          (session.channel || undefined) === (options.channel || undefined)
+        ) {
+          await this.closeSession(session.info.id);
+        }
+      }
+      transport = createServerConnectTransport(target, options);
+    }
+
+    const session: RelaySession = {
+      info: {
+        id: generateSessionId(),
+        clientInfo: null,
+        protocolVersion: null,
+        connectedAt: Date.now(),
+      },
+      transport,
+      target,
+      channel: target ? options.channel : undefined,
+      relay: options.relay ?? false,
+      closed: false,
+    };
+
+    transport.onmessage = (message) => {
+      const payload = parsePayload(message);
+      if (!payload.valid) {
+        this.rejectMessage(session, payload.error, payload.response);
+        return;
+      }
+      for (const item of payload.items) {
+        const validation = validateMessage(item);
+        if (!validation.valid) {
+          this.rejectMessage(session, validation.error, validation.response);
+          continue;
+        }
+        this.handleDownstreamMessage(session, validation.message).catch(
+          (error) => this.reportError(error, session)
+        );
+      }
+    };
+    transport.onerror = (error) => this.reportError(error, session);
+    transport.onclose = () => {
+      this.closeSession(session.info.id).catch((error) =>
+        this.reportError(error, session)
+      );
+    };
+
+    this.sessions.set(session.info.id, session);
+
+    try {
+      await transport.start();
+    } catch (error) {
+      this.sessions.delete(session.info.id);
+      throw error;
+    }
+
+    return session.info.id;
+  }
+
+  /**
+   * 关闭指定的下级会话
+   * @returns 会话是否存在
+   */
+  async closeSession(id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+
+    this.sessions.delete(id);
+    session.closed = true;
+    await session.transport.close();
+    return true;
+  }
+
+  /**
+   * 关闭所有下级会话并断开上级连接
+   */
+  async disconnect(): Promise<void> {
+    const ids = Array.from(this.sessions.keys());
+    await Promise.all(ids.map((id) => this.closeSession(id)));
+    await this.upstream.disconnect();
+  }
+
+  /**
+   * 获取所有下级会话信息
+   */
+  getSessions(): RelaySessionInfo[] {
+    return Array.from(this.sessions.values()).map((session) =>
+      this.toSessionInfo(session)
+    );
+  }
+
+  /**
+   * 获取指定下级会话信息
+   */
+  getSession(id: string): RelaySessionInfo | undefined {
+    const session = this.sessions.get(id);
+    return session ? this.toSessionInfo(session) : undefined;
+  }
+
+  /**
+   * 生成对外的会话信息
+   */
+  private toSessionInfo(session: RelaySession): RelaySessionInfo {
+    return {
+      ...session.info,
+      origin: getPeerOrigin(session.transport) ?? null,
+    };
+  }
+
+  /**
+   * 上报错误
+   */
+  private reportError(error: unknown, session?: RelaySession): void {
+    const err = error instanceof Error ? error : new Error(String(error));
+    if (this.options.onError) {
+      this.options.onError(err, session?.info.id);
+    } else {
+      console.error(
+        session ? `MCP Relay 错误 [${session.info.id}]:` : "MCP Relay 错误:",
+        err
+      );
+    }
+  }
+
+  /**
+   * 上报下级发来的无效消息，形似请求的消息回复错误，其余直接丢弃
+   */
+  private rejectMessage(
+    session: RelaySession,
+    error: Error,
+    response: JSONRPCResponse | null
+  ): void {
+    this.reportError(error, session);
+    if (response) {
+      this.sendToDownstream(session, response);
+    }
+  }
+
+  /**
+   * 向下级 Client 发送消息
+   */
+  private sendToDownstream(
+    session: RelaySession,
+    message: JSONRPCMessage
+  ): void {
+    if (session.closed) {
+      return;
+    }
+    session.transport
+      .send(message)
+      .catch((error) => this.reportError(error, session));
+  }
+
+  /**
+   * 把上级 Server 的通知发送给已初始化的下级会话
+   */
+  private broadcast(notification: JSONRPCNotification): void {
+    for (const session of this.sessions.values()) {
+      if (session.info.protocolVersion !== null) {
+        this.sendToDownstream(session, notification);
+      }
+    }
+  }
+
+  /**
+   * 处理下级 Client 发来的消息
+   */
+  private async handleDownstreamMessage(
+    session: RelaySession,
+    message: JSONRPCMessage
+  ): Promise<void> {
+    if (session.closed) {
+      return;
+    }
+
+    if (isRequest(message)) {
+      this.sendToDownstream(session, await this.handleRequest(session, message));
+      return;
+    }
+
+    if (!("method" in message)) {
+      // Relay 不向下级发送请求，忽略响应
+      return;
+    }
+
+    // 上级连接由 Relay 自身初始化；取消通知中的请求 ID 与上级不对应，无法转发
+    if (
+      message.method === "notifications/initialized" ||
+      message.method === "notifications/cancelled"
+    ) {
+      return;
+    }
+
+    await this.upstream.notify(
+      message.method,
+      this.appendRoute(session, message.params)
+    );
+  }
+
+  /**
+   * 处理下级 Client 发来的请求
+   * initialize 与 ping 由 Relay 直接响应，其余请求追加转发路径后转发给上级 Server
+   */
+  private async handleRequest(
+    session: RelaySession,
+    request: JSONRPCRequest
+  ): Promise<JSONRPCMessage> {
+    const { id, method, params } = request;
+
+    try {
+      let result: unknown;
+
+      switch (method) {
+        case "initialize":
+          result = await this.handleInitialize(
+            session,
+            (params ?? {}) as InitializeParams
+          );
+          break;
+
+        case "ping":
+          result = {};
+          break;
+
+        default:
+          if (this.upstream.getState() !== "connected") {
+            throw new Error("上级 Server 未连接");
+          }
+          result = await this.upstream.request(
+            method,
+            this.appendRoute(session, params)
+          );
+      }
+
+      return { jsonrpc: "2.0", id, result } as JSONRPCMessage;
+    } catch (error) {
+      // 上级 Server 返回的错误保留原错误码，Relay 自身的错误视为连接不可用
+      return createErrorResponse(id, error, ErrorCode.ConnectionClosed);
+    }
+  }
+
+  /**
+   * 响应下级 Client 的 initialize 请求
+   * 等待上级连接建立，使用上级 Server 的信息，协议版本与下级单独协商
+   */
+  private async handleInitialize(
+    session: RelaySession,
+    params: InitializeParams
+  ): Promise<Record<string, unknown>> {
+    const serverInfo = this.upstreamConnecting
+      ? await this.upstreamConnecting
+      : this.upstream.getServerInfo();
+    if (!serverInfo) {
+      throw new Error("上级 Server 未连接");
+    }
+
+    const protocolVersion =
+      params.protocolVersion &&
+      SUPPORTED_PROTOCOL_VERSIONS.includes(params.protocolVersion)
+        ? params.protocolVersion
+        : LATEST_PROTOCOL_VERSION;
+
+    session.info.clientInfo = params.clientInfo ?? null;
+    session.info.protocolVersion = protocolVersion;
+    session.transport.setProtocolVersion?.(protocolVersion);
+
+    return {
+      protocolVersion,
+      capabilities: {
+        tools: { listChanged: true },
+        resources: { listChanged: true },
+        prompts: { listChanged: true },
+      },
+      serverInfo,
+    };
+  }
+
+  /**
+   * 在请求参数的 _meta 中追加当前这一跳
+   * 下级不是 Relay 时丢弃其携带的路径，从这一跳重新开始，避免下级伪造转发记录
+   */
+  private appendRoute(
+    session: RelaySession,
+    params: Record<string, unknown> | undefined
+  ): Record<string, unknown> {
+    const meta = (params?._meta ?? {}) as Record<string, unknown>;
+    const route =
+      session.relay && Array.isArray(meta[MCP_ROUTE_META_KEY])
+        ? (meta[MCP_ROUTE_META_KEY] as RouteHop[])
+        : [];
+    const hop: RouteHop = {
+      origin: getPeerOrigin(session.transport) ?? null,
+      sessionId: session.info.id,
+      relay: this.options.name ?? DEFAULT_RELAY_NAME,
+    };
+
+    return {
+      ...params,
+      _meta: { ...meta, [MCP_ROUTE_META_KEY]: [...route, hop] },
+    };
+  }
+}
+
+/**
+ * 创建 MCP Relay
+ */
+export function createMcpRelay(options?: McpRelayOptions): McpRelay {
+  return new McpRelay(options);
+}
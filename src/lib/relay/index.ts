@@ -0,0 +1,6 @@
+/**
+ * Relay 模块导出
+ */
+
+export * from "./types.js";
+export * from "./McpRelay.js";
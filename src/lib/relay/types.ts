@@ -0,0 +1,48 @@
+/**
+ * MCP Relay 类型定义
+ */
+
+import type { McpClientOptions } from "../client/types.js";
+import type { ClientInfo } from "../server/types.js";
+
+/**
+ * McpRelay 配置
+ * 连接上级 Server 时的心跳、自动重连、认证等配置与 McpClient 相同
+ */
+export interface McpRelayOptions extends McpClientOptions {
+  /**
+   * 中转窗口名称，写入转发路径，同时作为连接上级 Server 时的 Client 名称，默认 'mcp-relay'
+   */
+  name?: string;
+  /**
+   * 错误回调，默认输出到控制台
+   * @param sessionId - 出错的下级会话，上级连接出错时为 undefined
+   */
+  onError?: (error: Error, sessionId?: string) => void;
+}
+
+/**
+ * 下级会话信息
+ */
+export interface RelaySessionInfo {
+  /**
+   * 会话 ID
+   */
+  id: string;
+  /**
+   * 下级窗口的 origin，Transport 无法确定时为 null
+   */
+  origin: string | null;
+  /**
+   * 下级 Client 信息，收到 initialize 请求前为 null
+   */
+  clientInfo: ClientInfo | null;
+  /**
+   * 协商的协议版本，收到 initialize 请求前为 null
+   */
+  protocolVersion: string | null;
+  /**
+   * 会话建立时间（毫秒时间戳）
+   */
+  connectedAt: number;
+}
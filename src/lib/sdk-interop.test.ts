@@ -0,0 +1,184 @@
+import { describe, expect, it, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpServer as SdkMcpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  LATEST_PROTOCOL_VERSION,
+  ToolListChangedNotificationSchema,
+  type JSONRPCMessage,
+  type JSONRPCNotification,
+} from "@modelcontextprotocol/sdk/types.js";
+import { McpServer } from "./server/McpServer.js";
+import { McpClient } from "./client/McpClient.js";
+import { createLoopbackTransportPair } from "./transport/loopback-transport.js";
+import { WorkerClientTransport } from "./transport/worker-client-transport.js";
+import { WorkerServerTransport } from "./transport/worker-server-transport.js";
+
+/**
+ * 创建带 echo 工具的 McpServer
+ */
+function createServer(): McpServer {
+  const server = new McpServer({ name: "ours", version: "1.0.0" });
+  server.addTool({
+    name: "echo",
+    inputSchema: {
+      type: "object",
+      properties: { text: { type: "string" } },
+    },
+    handler: (input) => ({
+      content: [{ type: "text", text: String(input.text) }],
+    }),
+  });
+  return server;
+}
+
+describe("官方 Client 连接 McpServer", () => {
+  it("完成 initialize 握手并协商协议版本", async () => {
+    const server = createServer();
+    const pair = createLoopbackTransportPair();
+    const setServerVersion = vi.fn();
+    const setClientVersion = vi.fn();
+    Object.assign(pair.server, { setProtocolVersion: setServerVersion });
+    Object.assign(pair.client, { setProtocolVersion: setClientVersion });
+    await server.connect(pair.server);
+
+    const client = new Client({ name: "sdk-client", version: "2.0.0" });
+    await client.connect(pair.client);
+
+    expect(client.getServerVersion()).toMatchObject({
+      name: "ours",
+      version: "1.0.0",
+    });
+    expect(client.getServerCapabilities()?.tools).toEqual({
+      listChanged: true,
+    });
+    expect(setServerVersion).toHaveBeenCalledWith(LATEST_PROTOCOL_VERSION);
+    expect(setClientVersion).toHaveBeenCalledWith(LATEST_PROTOCOL_VERSION);
+    expect(server.getSessions()[0]).toMatchObject({
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      clientInfo: { name: "sdk-client", version: "2.0.0" },
+    });
+
+    const result = await client.callTool({
+      name: "echo",
+      arguments: { text: "hi" },
+    });
+    expect(result.content).toEqual([{ type: "text", text: "hi" }]);
+
+    await client.close();
+    await server.disconnect();
+  });
+
+  it("工具变化时发送 list_changed 通知", async () => {
+    const server = createServer();
+    const pair = createLoopbackTransportPair();
+    await server.connect(pair.server);
+
+    const client = new Client({ name: "sdk-client", version: "2.0.0" });
+    const onChanged = vi.fn();
+    client.setNotificationHandler(ToolListChangedNotificationSchema, onChanged);
+    await client.connect(pair.client);
+
+    server.removeTool("echo");
+    await vi.waitFor(() => expect(onChanged).toHaveBeenCalledTimes(1));
+    expect((await client.listTools()).tools).toEqual([]);
+
+    await client.close();
+    await server.disconnect();
+  });
+
+  it("使用 Client 请求的旧版本，不支持的版本返回最新版本", async () => {
+    const server = createServer();
+    const pair = createLoopbackTransportPair();
+    const received: JSONRPCMessage[] = [];
+    pair.client.onmessage = (message) => received.push(message);
+    await server.connect(pair.server);
+    await pair.client.start();
+
+    const initialize = (id: number, protocolVersion: string) =>
+      pair.client.send({
+        jsonrpc: "2.0",
+        id,
+        method: "initialize",
+        params: {
+          protocolVersion,
+          capabilities: {},
+          clientInfo: { name: "raw", version: "1.0.0" },
+        },
+      });
+    await initialize(1, "2024-11-05");
+    await initialize(2, "1999-01-01");
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+
+    expect(received).toMatchObject([
+      { id: 1, result: { protocolVersion: "2024-11-05" } },
+      { id: 2, result: { protocolVersion: LATEST_PROTOCOL_VERSION } },
+    ]);
+    await server.disconnect();
+  });
+
+  it("握手会话 ID 不作为 sessionId 暴露，官方 Client 仍发送 initialize", async () => {
+    const server = createServer();
+    const channel = new MessageChannel();
+    await server.connect(
+      new WorkerServerTransport({ endpoint: channel.port1 })
+    );
+
+    const transport: Transport = new WorkerClientTransport({
+      endpoint: channel.port2,
+    });
+    const client = new Client({ name: "sdk-client", version: "2.0.0" });
+    await client.connect(transport);
+
+    expect(transport.sessionId).toBeUndefined();
+    expect(client.getServerVersion()?.name).toBe("ours");
+    expect(server.getSessions()[0].protocolVersion).toBe(
+      LATEST_PROTOCOL_VERSION
+    );
+
+    await client.close();
+    await server.disconnect();
+    channel.port1.close();
+  });
+});
+
+describe("McpClient 连接官方 McpServer", () => {
+  it("完成握手、调用工具并接收 list_changed 通知", async () => {
+    const sdkServer = new SdkMcpServer({
+      name: "sdk-server",
+      version: "3.0.0",
+    });
+    sdkServer.registerTool("hello", { description: "问候" }, async () => ({
+      content: [{ type: "text", text: "hello" }],
+    }));
+    const pair = createLoopbackTransportPair();
+    const setClientVersion = vi.fn();
+    Object.assign(pair.client, { setProtocolVersion: setClientVersion });
+    await sdkServer.connect(pair.server);
+
+    const client = new McpClient({ autoReconnect: false });
+    const notifications: JSONRPCNotification[] = [];
+    client.onNotification((notification) => notifications.push(notification));
+    const info = await client.connect(pair.client);
+
+    expect(info).toMatchObject({ name: "sdk-server", version: "3.0.0" });
+    expect(client.getProtocolVersion()).toBe(LATEST_PROTOCOL_VERSION);
+    expect(setClientVersion).toHaveBeenCalledWith(LATEST_PROTOCOL_VERSION);
+
+    expect((await client.listTools()).map((tool) => tool.name)).toEqual([
+      "hello",
+    ]);
+    const result = await client.callTool({ name: "hello" });
+    expect(result.content).toEqual([{ type: "text", text: "hello" }]);
+
+    sdkServer.registerTool("bye", {}, async () => ({ content: [] }));
+    await vi.waitFor(() =>
+      expect(notifications.map((item) => item.method)).toContain(
+        "notifications/tools/list_changed"
+      )
+    );
+
+    await client.disconnect();
+    await sdkServer.close();
+  });
+});
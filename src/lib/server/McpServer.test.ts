@@ -0,0 +1,464 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type {
+  JSONRPCMessage,
+  JSONRPCRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { McpServer } from "./McpServer.js";
+import type { SessionOptions } from "./types.js";
+import { signChallenge } from "../transport/auth.js";
+import { createLoopbackTransportPair } from "../transport/loopback-transport.js";
+import {
+  MCP_AUTH_CHALLENGE_METHOD,
+  MCP_AUTH_ERROR_CODE,
+  MCP_AUTH_META_KEY,
+  MCP_RATE_LIMIT_ERROR_CODE,
+  type AuthCredentials,
+} from "../transport/types.js";
+
+/**
+ * 启动 McpServer 并返回可以直接收发原始消息的 Client 端
+ * request 发送请求并等待同 id 的响应
+ */
+async function connectRaw(server: McpServer, options?: SessionOptions) {
+  const pair = createLoopbackTransportPair();
+  const received: JSONRPCMessage[] = [];
+  pair.client.onmessage = (message) => received.push(message);
+  const sessionId = await server.connect(pair.server, options);
+  await pair.client.start();
+
+  const request = async (message: JSONRPCRequest) => {
+    await pair.client.send(message);
+    let response: JSONRPCMessage | undefined;
+    await vi.waitFor(() => {
+      response = received.find(
+        (item) => "id" in item && !("method" in item) && item.id === message.id
+      );
+      expect(response).toBeDefined();
+    });
+    return response as Record<string, unknown>;
+  };
+  return { client: pair.client, received, request, sessionId };
+}
+
+const initialize = (
+  id: number,
+  credentials?: AuthCredentials
+): JSONRPCRequest => ({
+  jsonrpc: "2.0",
+  id,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-06-18",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+    ...(credentials && { _meta: { [MCP_AUTH_META_KEY]: credentials } }),
+  },
+});
+
+const authError = { error: { code: MCP_AUTH_ERROR_CODE } };
+
+describe("McpServer 限流", () => {
+  it("initialize 计入频率限制", async () => {
+    const server = new McpServer({
+      name: "test",
+      version: "1.0.0",
+      rateLimit: { perSession: { limit: 2, window: 60000 } },
+    });
+    const rateLimited = vi.fn();
+    server.on("rateLimited", rateLimited);
+    const { client, received } = await connectRaw(server);
+
+    for (let id = 1; id <= 3; id++) {
+      await client.send(initialize(id));
+    }
+    await vi.waitFor(() => expect(received).toHaveLength(3));
+
+    expect(received[2]).toMatchObject({
+      id: 3,
+      error: {
+        code: MCP_RATE_LIMIT_ERROR_CODE,
+        data: { reason: "session" },
+      },
+    });
+    expect(rateLimited).toHaveBeenCalledWith(
+      expect.objectContaining({ method: "initialize", reason: "session" })
+    );
+    await server.disconnect();
+  });
+
+  it("通知消耗配额，超出时丢弃并触发 rateLimited", async () => {
+    const server = new McpServer({
+      name: "test",
+      version: "1.0.0",
+      rateLimit: { perSession: { limit: 2, window: 60000 } },
+    });
+    const rateLimited = vi.fn();
+    server.on("rateLimited", rateLimited);
+    const { client, received } = await connectRaw(server);
+
+    for (let i = 0; i < 3; i++) {
+      await client.send({ jsonrpc: "2.0", method: "notifications/spam" });
+    }
+    await client.send({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    expect(rateLimited).toHaveBeenCalledTimes(2);
+    expect(rateLimited.mock.calls[0][0]).toMatchObject({
+      method: "notifications/spam",
+    });
+    expect(received[0]).toMatchObject({
+      id: 1,
+      error: { code: MCP_RATE_LIMIT_ERROR_CODE },
+    });
+    await server.disconnect();
+  });
+
+  it("ping 不受限制", async () => {
+    const server = new McpServer({
+      name: "test",
+      version: "1.0.0",
+      rateLimit: { perSession: { limit: 1, window: 60000 } },
+    });
+    const { client, received } = await connectRaw(server);
+
+    for (let id = 1; id <= 3; id++) {
+      await client.send({ jsonrpc: "2.0", id, method: "ping" });
+    }
+    await vi.waitFor(() => expect(received).toHaveLength(3));
+    expect(received.every((message) => "result" in message)).toBe(true);
+    await server.disconnect();
+  });
+});
+
+describe("McpServer 消息处理", () => {
+  it("响应发送失败时通过 error 事件上报", async () => {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    const errors: Error[] = [];
+    server.on("error", ({ error }) => errors.push(error));
+
+    const pair = createLoopbackTransportPair();
+    pair.server.send = () => Promise.reject(new Error("发送失败"));
+    await server.connect(pair.server);
+    await pair.client.start();
+
+    await pair.client.send({ jsonrpc: "2.0", id: 1, method: "unknown" });
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+    expect(errors[0].message).toBe("发送失败");
+    await server.disconnect();
+  });
+});
+
+describe("McpServer 批量请求", () => {
+  it("批量中只回复请求，响应按请求顺序排列", async () => {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    server.addTool({
+      name: "slow",
+      inputSchema: { type: "object" },
+      handler: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return { content: [{ type: "text", text: "slow" }] };
+      },
+    });
+    const { client, received } = await connectRaw(server);
+
+    const batch = [
+      {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/call",
+        params: { name: "slow", arguments: {} },
+      },
+      { jsonrpc: "2.0", method: "notifications/progress" },
+      { jsonrpc: "2.0", id: 2, method: "ping" },
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+    ];
+    await client.send(batch as unknown as JSONRPCMessage);
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    expect(received[0]).toEqual([
+      {
+        jsonrpc: "2.0",
+        id: 1,
+        result: { content: [{ type: "text", text: "slow" }] },
+      },
+      { jsonrpc: "2.0", id: 2, result: {} },
+    ]);
+    await server.disconnect();
+  });
+
+  it("只有通知的批量不回复", async () => {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    const { client, received } = await connectRaw(server);
+
+    const batch = [
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { jsonrpc: "2.0", method: "notifications/progress" },
+    ];
+    await client.send(batch as unknown as JSONRPCMessage);
+    await client.send({ jsonrpc: "2.0", id: 1, method: "ping" });
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({ id: 1, result: {} });
+    await server.disconnect();
+  });
+});
+
+describe("McpServer 工具注册", () => {
+  it("inputSchema 中的 pattern 无效时 addTool 抛出错误", () => {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    const tool = {
+      name: "lookup",
+      inputSchema: {
+        type: "object" as const,
+        properties: { code: { type: "string", pattern: "(" } },
+      },
+      handler: () => ({ content: [] }),
+    };
+
+    expect(() => server.addTool(tool)).toThrow(
+      "工具 lookup 的 inputSchema 无效: properties.code.pattern"
+    );
+    expect(server.getTools()).toEqual([]);
+
+    // 不校验参数的工具不检查 pattern
+    server.addTool({ ...tool, inputValidation: "off" });
+    expect(server.getTools()).toHaveLength(1);
+  });
+
+  it("getTools 只返回公开字段", () => {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    const inputSchema = { type: "object" as const };
+    server.addTool({
+      name: "echo",
+      description: "回显",
+      inputSchema,
+      inputValidation: "coerce",
+      handler: () => ({ content: [] }),
+    });
+
+    expect(Object.keys(server.getTools()[0])).toEqual([
+      "name",
+      "description",
+      "inputSchema",
+    ]);
+    expect(server.getTools()[0].inputSchema).toBe(inputSchema);
+  });
+});
+
+describe("McpServer 认证", () => {
+  beforeEach(() => {
+    // 认证失败时 Server 会输出警告
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("认证前只能调用 initialize、ping 与获取挑战", async () => {
+    const server = new McpServer({
+      name: "test",
+      version: "1.0.0",
+      auth: { secrets: { app: "secret" } },
+    });
+    const { request } = await connectRaw(server);
+
+    expect(
+      await request({ jsonrpc: "2.0", id: 1, method: "tools/list" })
+    ).toMatchObject(authError);
+    expect(
+      await request({ jsonrpc: "2.0", id: 2, method: "ping" })
+    ).toMatchObject({ result: {} });
+    expect(
+      await request({
+        jsonrpc: "2.0",
+        id: 3,
+        method: MCP_AUTH_CHALLENGE_METHOD,
+      })
+    ).toMatchObject({ result: { nonce: expect.any(String) } });
+    await server.disconnect();
+  });
+
+  it("一次性 token 第二次使用时被拒绝", async () => {
+    const server = new McpServer({ name: "test", version: "1.0.0", auth: {} });
+    const token = server.issueToken({ id: "user-1" });
+
+    const first = await connectRaw(server);
+    expect(
+      await first.request(initialize(1, { type: "token", token }))
+    ).toHaveProperty("result");
+    expect(server.getSession(first.sessionId)?.identity).toEqual({
+      id: "user-1",
+      method: "token",
+    });
+    expect(
+      await first.request({ jsonrpc: "2.0", id: 2, method: "tools/list" })
+    ).toHaveProperty("result");
+
+    const second = await connectRaw(server);
+    expect(
+      await second.request(initialize(1, { type: "token", token }))
+    ).toMatchObject(authError);
+    expect(
+      await second.request({ jsonrpc: "2.0", id: 2, method: "tools/list" })
+    ).toMatchObject(authError);
+    await server.disconnect();
+  });
+
+  it("过期或已撤销的 token 被拒绝", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const server = new McpServer({ name: "test", version: "1.0.0", auth: {} });
+    const expired = server.issueToken({ id: "user-1" }, 1000);
+    const revoked = server.issueToken({ id: "user-2" });
+    expect(server.revokeToken(revoked)).toBe(true);
+    vi.setSystemTime(Date.now() + 1001);
+
+    const { request } = await connectRaw(server);
+    expect(
+      await request(initialize(1, { type: "token", token: expired }))
+    ).toMatchObject(authError);
+    expect(
+      await request(initialize(2, { type: "token", token: revoked }))
+    ).toMatchObject(authError);
+    await server.disconnect();
+  });
+
+  it("HMAC 挑战签名正确时通过认证，挑战只能使用一次", async () => {
+    const server = new McpServer({
+      name: "test",
+      version: "1.0.0",
+      auth: { secrets: { app: "secret" } },
+    });
+    const { request, sessionId } = await connectRaw(server);
+
+    const challenge = await request({
+      jsonrpc: "2.0",
+      id: 1,
+      method: MCP_AUTH_CHALLENGE_METHOD,
+    });
+    const { nonce } = challenge.result as { nonce: string };
+    const credentials: AuthCredentials = {
+      type: "hmac",
+      keyId: "app",
+      nonce,
+      signature: await signChallenge("secret", nonce),
+    };
+
+    expect(await request(initialize(2, credentials))).toHaveProperty("result");
+    expect(server.getSession(sessionId)?.identity).toEqual({
+      id: "app",
+      method: "hmac",
+    });
+
+    // 重放同一个挑战的签名
+    expect(await request(initialize(3, credentials))).toMatchObject(authError);
+    expect(server.getSession(sessionId)?.identity).toBeNull();
+    await server.disconnect();
+  });
+
+  it("HMAC nonce 与下发的挑战不一致或签名错误时认证失败", async () => {
+    const server = new McpServer({
+      name: "test",
+      version: "1.0.0",
+      auth: { secrets: { app: "secret" } },
+    });
+    const { request } = await connectRaw(server);
+    const getNonce = async (id: number) => {
+      const response = await request({
+        jsonrpc: "2.0",
+        id,
+        method: MCP_AUTH_CHALLENGE_METHOD,
+      });
+      return (response.result as { nonce: string }).nonce;
+    };
+
+    await getNonce(1);
+    const forged = "forged-nonce";
+    expect(
+      await request(
+        initialize(2, {
+          type: "hmac",
+          keyId: "app",
+          nonce: forged,
+          signature: await signChallenge("secret", forged),
+        })
+      )
+    ).toMatchObject(authError);
+
+    const nonce = await getNonce(3);
+    expect(
+      await request(
+        initialize(4, {
+          type: "hmac",
+          keyId: "app",
+          nonce,
+          signature: await signChallenge("wrong-secret", nonce),
+        })
+      )
+    ).toMatchObject(authError);
+    await server.disconnect();
+  });
+});
+
+describe("McpServer 心跳", () => {
+  const heartbeat = { interval: 1000, timeout: 500, maxMissed: 2 };
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("连续 maxMissed 次 ping 无响应后关闭会话", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const server = new McpServer({ name: "test", version: "1.0.0", heartbeat });
+    const stateChange = vi.fn();
+    const sessionEnd = vi.fn();
+    server.on("stateChange", stateChange);
+    server.on("sessionEnd", sessionEnd);
+
+    // 原始 Client 不回复 ping
+    const { client, received } = await connectRaw(server);
+    await client.send(initialize(1));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stateChange).toHaveBeenLastCalledWith("connected");
+
+    // 第一次 ping 在 1000ms 发出、1500ms 超时
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(server.getSessions()).toHaveLength(1);
+
+    // 第二次 ping 在 2000ms 发出、2500ms 超时
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(server.getSessions()).toEqual([]);
+    expect(sessionEnd).toHaveBeenCalledTimes(1);
+    expect(stateChange).toHaveBeenLastCalledWith("disconnected");
+    expect(
+      received.filter(
+        (message) => "method" in message && message.method === "ping"
+      )
+    ).toHaveLength(2);
+  });
+
+  it("Client 回复 ping 时保持会话", async () => {
+    vi.useFakeTimers();
+    const server = new McpServer({ name: "test", version: "1.0.0", heartbeat });
+    const { client, received } = await connectRaw(server);
+    client.onmessage = (message) => {
+      received.push(message);
+      if ("id" in message && "method" in message && message.method === "ping") {
+        void client.send({ jsonrpc: "2.0", id: message.id, result: {} });
+      }
+    };
+    await client.send(initialize(1));
+
+    // 会话在 initialize 送达后开始心跳，5000ms 内发出 4 次 ping
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(server.getSessions()).toHaveLength(1);
+    expect(
+      received.filter(
+        (message) => "method" in message && message.method === "ping"
+      )
+    ).toHaveLength(4);
+    await server.disconnect();
+  });
+});
@@ -2,50 +2,286 @@
  * MCP Server 核心实现
  */
 
-import type {
-  JSONRPCMessage,
-  JSONRPCRequest,
-  JSONRPCResponse,
+import {
+  ErrorCode,
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type JSONRPCMessage,
+  type JSONRPCRequest,
+  type JSONRPCResponse,
 } from "@modelcontextprotocol/sdk/types.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
   PostMessageServerTransport,
+  MessageChannelServerTransport,
+  ChunkedTransport,
+  EncryptedTransport,
+  MiddlewareTransport,
+  BINARY_TRANSFER_CAPABILITY,
+  encodeBinaryDeep,
+  generateSessionId,
+  isTransport,
+  DEFAULT_HEARTBEAT_INTERVAL,
+  DEFAULT_HEARTBEAT_MAX_MISSED,
+  DEFAULT_HEARTBEAT_TIMEOUT,
+  DEFAULT_AUTH_TTL,
+  MCP_AUTH_CHALLENGE_METHOD,
+  MCP_AUTH_ERROR_CODE,
+  MCP_AUTH_META_KEY,
+  MCP_ROUTE_META_KEY,
+  MCP_RATE_LIMIT_ERROR_CODE,
+  TypedEventEmitter,
+  generateNonce,
+  getPeerOrigin,
+  parsePayload,
+  supportsBinary,
+  validateMessage,
+  verifyChallenge,
+  type AuthCredentials,
+  type AuthIdentity,
+  type JSONRPCBatch,
+  type RouteHop,
   type ServerTransportOptions,
+  type TransportListener,
+  type TransportState,
 } from "../transport/index.js";
 import type {
+  AuthIdentityInput,
   McpServerOptions,
+  ServerConnectOptions,
   ToolDefinition,
   ResourceDefinition,
   PromptDefinition,
   ToolCallInput,
+  ClientInfo,
+  SessionInfo,
+  RequestContext,
+  ServerEventMap,
+  RateLimitEvent,
+  RateLimitReason,
+  SessionOptions,
 } from "./types.js";
+import { RateLimiter, RequestQueue } from "./rate-limiter.js";
+import { checkSchema, validateSchema } from "./input-validator.js";
 
 /**
- * MCP Server 实现
- * 在主页面中运行，提供 tools、resources、prompts 能力
+ * 连接目标
  */
-export class McpServer {
-  private transport: PostMessageServerTransport | null = null;
-  private tools: Map<string, ToolDefinition> = new Map();
-  private resources: Map<string, ResourceDefinition> = new Map();
-  private prompts: Map<string, PromptDefinition> = new Map();
-  private pendingRequests: Map<
+type ConnectTarget = ServerTransportOptions["target"];
+
+/**
+ * 按 McpServer.connect 配置创建与目标窗口通信的 Transport
+ * 先加密再分块，中间件位于最外层
+ */
+export function createServerConnectTransport(
+  target: ConnectTarget,
+  options: ServerConnectOptions = {}
+): Transport {
+  const {
+    transportType = "post-robot",
+    chunking,
+    encryption,
+    middleware,
+    ...transportOptions
+  } = options;
+  let transport: Transport =
+    transportType === "message-channel"
+      ? new MessageChannelServerTransport({ target, ...transportOptions })
+      : new PostMessageServerTransport({ target, ...transportOptions });
+  // 先加密再分块：分块的是密文
+  if (encryption) {
+    transport = new EncryptedTransport(
+      transport,
+      "server",
+      encryption === true ? {} : encryption
+    );
+  }
+  if (chunking) {
+    transport = new ChunkedTransport(transport, chunking);
+  }
+  // 中间件位于最外层，看到的是明文的完整消息
+  if (middleware && middleware.length > 0) {
+    transport = new MiddlewareTransport(transport, middleware);
+  }
+  return transport;
+}
+
+/**
+ * 构造 JSON-RPC 错误响应
+ * 无法确定请求 ID 时（如无效请求）id 为 null
+ */
+function createErrorResponse(
+  id: JSONRPCRequest["id"] | null,
+  code: number,
+  message: string,
+  data?: unknown
+): JSONRPCResponse {
+  return {
+    jsonrpc: "2.0",
+    id,
+    error: data === undefined ? { code, message } : { code, message, data },
+  } as JSONRPCResponse;
+}
+
+/**
+ * 启用认证时，未认证的会话也可以调用的方法
+ */
+const UNAUTHENTICATED_METHODS = new Set([
+  "initialize",
+  "ping",
+  MCP_AUTH_CHALLENGE_METHOD,
+]);
+
+/**
+ * 不受限流、不排队的方法，保证心跳在繁忙时仍然可用
+ * initialize 需要校验凭证并重启心跳，与其他请求一样计数，避免被用来绕过限流
+ */
+const RATE_LIMIT_EXEMPT_METHODS = new Set(["ping"]);
+
+/**
+ * initialize 请求参数
+ */
+interface InitializeParams {
+  protocolVersion?: string;
+  clientInfo?: ClientInfo;
+  capabilities?: {
+    experimental?: Record<string, unknown>;
+  };
+  _meta?: Record<string, unknown>;
+}
+
+/**
+ * 会话内部状态
+ */
+interface Session {
+  info: SessionInfo;
+  transport: Transport;
+  /**
+   * Transport 是否已启动（已触发 sessionStart）
+   */
+  started: boolean;
+  /**
+   * 对端是否为 McpRelay，只有此时才读取请求中的转发路径
+   */
+  relay: boolean;
+  /**
+   * 通过目标窗口建立的会话记录其目标，用于重复连接同一目标时替换旧会话
+   */
+  target?: ConnectTarget;
+  /**
+   * 通过目标窗口建立会话时的配置，心跳超时后按原配置重新监听
+   */
+  connectOptions?: ServerConnectOptions;
+  /**
+   * 心跳定时器（收到 initialize 后启动）
+   */
+  heartbeatTimer: ReturnType<typeof setInterval> | null;
+  /**
+   * Transport 与 Client 均支持时，结果中的二进制数据不编码为 base64
+   */
+  binaryTransfer: boolean;
+  /**
+   * 已下发、尚未使用的 HMAC 挑战
+   */
+  authChallenge: { nonce: string; expiresAt: number } | null;
+  /**
+   * 并发队列，配置了 rateLimit.maxConcurrent 时创建
+   */
+  queue: RequestQueue | null;
+  pendingRequests: Map<
     number | string,
     {
       resolve: (value: unknown) => void;
       reject: (error: Error) => void;
     }
-  > = new Map();
+  >;
+}
+
+/**
+ * MCP Server 实现
+ * 在主页面中运行，提供 tools、resources、prompts 能力
+ *
+ * 一个 Server 实例可以同时服务多个会话（例如多个 iframe），
+ * 每个会话拥有独立的 Transport、Client 信息与待处理请求，
+ * tools、resources、prompts 注册表在所有会话间共享。
+ */
+export class McpServer extends TypedEventEmitter<ServerEventMap> {
+  private state: TransportState = "disconnected";
+  private sessions: Map<string, Session> = new Map();
+  private listeners: Set<TransportListener> = new Set();
+  private tools: Map<string, ToolDefinition> = new Map();
+  private resources: Map<string, ResourceDefinition> = new Map();
+  private prompts: Map<string, PromptDefinition> = new Map();
   private options: McpServerOptions;
+  private requestId = 0;
+  private issuedTokens: Map<
+    string,
+    { identity: AuthIdentityInput; expiresAt: number }
+  > = new Map();
+  private originLimiter: RateLimiter | null;
+  private sessionLimiter: RateLimiter | null;
 
   constructor(options: McpServerOptions) {
+    super();
     this.options = options;
+    const { perOrigin, perSession } = options.rateLimit ?? {};
+    this.originLimiter = perOrigin ? new RateLimiter(perOrigin) : null;
+    this.sessionLimiter = perSession ? new RateLimiter(perSession) : null;
+  }
+
+  /**
+   * 获取 Server 状态：存在已启动的会话时为 connected，否则为 disconnected
+   */
+  getState(): TransportState {
+    return this.state;
+  }
+
+  /**
+   * 根据会话更新状态并触发 stateChange
+   */
+  private updateState(): void {
+    const state: TransportState = Array.from(this.sessions.values()).some(
+      (session) => session.started
+    )
+      ? "connected"
+      : "disconnected";
+    if (this.state === state) {
+      return;
+    }
+    this.state = state;
+    this.emit("stateChange", state);
+  }
+
+  /**
+   * 上报错误，没有 error 监听器时输出到控制台
+   */
+  private reportError(
+    message: string,
+    error: unknown,
+    sessionId?: string
+  ): void {
+    const err = error instanceof Error ? error : new Error(String(error));
+    if (!this.emit("error", { error: err, sessionId })) {
+      console.error(message, err);
+    }
   }
 
   /**
    * 添加工具
+   * inputSchema 中有无效的 pattern 时抛出错误（inputValidation 为 'off' 时不检查）
    */
   addTool(tool: ToolDefinition): this {
+    if (tool.inputValidation !== "off") {
+      const issues = checkSchema(tool.inputSchema);
+      if (issues.length > 0) {
+        const details = issues
+          .map(({ path, message }) => `${path}: ${message}`)
+          .join("; ");
+        throw new Error(`工具 ${tool.name} 的 inputSchema 无效: ${details}`);
+      }
+    }
     this.tools.set(tool.name, tool);
+    this.notifyListChanged("tools");
     return this;
   }
 
@@ -53,7 +289,11 @@ export class McpServer {
    * 移除工具
    */
   removeTool(name: string): boolean {
-    return this.tools.delete(name);
+    const removed = this.tools.delete(name);
+    if (removed) {
+      this.notifyListChanged("tools");
+    }
+    return removed;
   }
 
   /**
@@ -61,6 +301,7 @@ export class McpServer {
    */
   addResource(resource: ResourceDefinition): this {
     this.resources.set(resource.uri, resource);
+    this.notifyListChanged("resources");
     return this;
   }
 
@@ -68,7 +309,11 @@ export class McpServer {
    * 移除资源
    */
   removeResource(uri: string): boolean {
-    return this.resources.delete(uri);
+    const removed = this.resources.delete(uri);
+    if (removed) {
+      this.notifyListChanged("resources");
+    }
+    return removed;
   }
 
   /**
@@ -76,6 +321,7 @@ export class McpServer {
    */
   addPrompt(prompt: PromptDefinition): this {
     this.prompts.set(prompt.name, prompt);
+    this.notifyListChanged("prompts");
     return this;
   }
 
@@ -83,15 +329,65 @@ export class McpServer {
    * 移除 Prompt
    */
   removePrompt(name: string): boolean {
-    return this.prompts.delete(name);
+    const removed = this.prompts.delete(name);
+    if (removed) {
+      this.notifyListChanged("prompts");
+    }
+    return removed;
+  }
+
+  /**
+   * 向已初始化的 Client 发送通知
+   * @param sessionId - 指定会话，不指定时发送给所有会话
+   */
+  async notify(
+    method: string,
+    params?: Record<string, unknown>,
+    sessionId?: string
+  ): Promise<void> {
+    const sessions = sessionId
+      ? [this.sessions.get(sessionId)]
+      : Array.from(this.sessions.values());
+
+    await Promise.all(
+      sessions
+        // 尚未完成初始化的会话不接收通知
+        .filter((session): session is Session =>
+          Boolean(session && session.info.protocolVersion !== null)
+        )
+        .map((session) =>
+          session.transport
+            .send({ jsonrpc: "2.0", method, ...(params ? { params } : {}) })
+            .catch((error) =>
+              console.error(
+                `MCP Server 发送通知失败 [${session.info.id}]:`,
+                error
+              )
+            )
+        )
+    );
+  }
+
+  /**
+   * 通知 Client 列表已变化
+   */
+  private notifyListChanged(kind: "tools" | "resources" | "prompts"): void {
+    this.notify(`notifications/${kind}/list_changed`).catch((error) =>
+      console.error("MCP Server 发送通知失败:", error)
+    );
   }
 
   /**
    * 获取所有工具信息
+   * 处理函数与校验方式只在 Server 内部使用，不出现在 tools/list 中
    */
   getTools() {
     return Array.from(this.tools.values()).map(
-      ({ handler: _, ...tool }) => tool
+      ({ name, description, inputSchema }) => ({
+        name,
+        description,
+        inputSchema,
+      })
     );
   }
 
@@ -114,50 +410,423 @@ export class McpServer {
   }
 
   /**
-   * 连接到目标窗口
-   * @param target - iframe 元素、Window 对象，或 'parent' 表示父窗口（反向模式）
+   * 连接到目标窗口，建立一个新会话
+   * 若已存在指向同一目标、同一频道的会话，旧会话会先被关闭
+   * @param target - iframe 元素、Window 对象，'parent' 表示父窗口（反向模式），'opener' 表示打开当前弹出窗口的窗口
+   * @returns 会话 ID
    */
   async connect(
-    target: HTMLIFrameElement | Window | "parent",
-    options?: Omit<ServerTransportOptions, "target">
-  ): Promise<void> {
-    if (this.transport) {
-      await this.transport.close();
+    target: ConnectTarget,
+    options?: ServerConnectOptions
+  ): Promise<string>;
+  /**
+   * 使用自定义 Transport 建立一个新会话
+   * @param transport - 任意实现了 MCP Transport 接口的实例
+   * @returns 会话 ID
+   */
+  async connect(
+    transport: Transport,
+    options?: SessionOptions
+  ): Promise<string>;
+  async connect(
+    targetOrTransport: ConnectTarget | Transport,
+    options: ServerConnectOptions = {}
+  ): Promise<string> {
+    let transport: Transport;
+    let target: ConnectTarget | undefined;
+
+    if (isTransport(targetOrTransport)) {
+      // 同一 Transport 只建立一个会话（如 React 严格模式下重复调用 connect）
+      for (const session of this.sessions.values()) {
+        if (session.transport === targetOrTransport) {
+          return session.info.id;
+        }
+      }
+      transport = targetOrTransport;
+    } else {
+      target = targetOrTransport;
+
+      // 同一目标的同一频道只保留一个会话
+      for (const session of this.sessions.values()) {
+        if (
+          session.target === target &&
+          (session.connectOptions?.channel || undefined) ===
+            (options.channel || undefined)
+        ) {
+          await this.closeSession(session.info.id);
+        }
+      }
+
+      transport = createServerConnectTransport(target, options);
     }
 
-    this.transport = new PostMessageServerTransport({
+    const session: Session = {
+      info: {
+        id: generateSessionId(),
+        clientInfo: null,
+        protocolVersion: null,
+        connectedAt: Date.now(),
+        identity: null,
+      },
+      transport,
+      started: false,
+      relay: options.relay ?? false,
       target,
-      ...options,
-    });
+      connectOptions: target ? options : undefined,
+      heartbeatTimer: null,
+      binaryTransfer: false,
+      authChallenge: null,
+      queue: this.options.rateLimit?.maxConcurrent
+        ? new RequestQueue(
+            this.options.rateLimit.maxConcurrent,
+            this.options.rateLimit.maxQueued
+          )
+        : null,
+      pendingRequests: new Map(),
+    };
+
+    transport.onmessage = (message) => {
+      this.emit("message", {
+        sessionId: session.info.id,
+        message: message as JSONRPCMessage | JSONRPCBatch,
+      });
+      // 响应无法发送等错误通过 error 事件上报，避免成为未处理的 Promise 拒绝
+      this.handleMessage(session, message).catch((error) =>
+        this.reportError(
+          `MCP Server 消息处理失败 [${session.info.id}]:`,
+          error,
+          session.info.id
+        )
+      );
+    };
+    transport.onerror = (error) =>
+      this.reportError(
+        `MCP Server Transport 错误 [${session.info.id}]:`,
+        error,
+        session.info.id
+      );
+    transport.onclose = () => this.removeSession(session);
+
+    this.sessions.set(session.info.id, session);
+
+    try {
+      await transport.start();
+    } catch (error) {
+      this.removeSession(session);
+      throw error;
+    }
+
+    // Transport 可能在启动过程中已关闭
+    if (this.sessions.get(session.info.id) === session) {
+      session.started = true;
+      this.emit("sessionStart", { ...session.info });
+      this.updateState();
+    }
+
+    return session.info.id;
+  }
+
+  /**
+   * 通过监听器接受多个 Client，每个新 Client 建立一个独立会话
+   * 适用于一对多的通信方式，如 BroadcastChannelListener
+   */
+  async listen(listener: TransportListener): Promise<void> {
+    listener.onconnection = (transport) => {
+      this.connect(transport).catch((error) =>
+        this.reportError("MCP Server 会话建立失败:", error)
+      );
+    };
+    listener.onerror = (error) =>
+      this.reportError("MCP Server Listener 错误:", error);
 
-    this.transport.onmessage = (message) => this.handleMessage(message);
-    this.transport.onerror = (error) =>
-      console.error("MCP Server Transport 错误:", error);
+    this.listeners.add(listener);
 
-    await this.transport.start();
+    try {
+      await listener.start();
+    } catch (error) {
+      this.listeners.delete(listener);
+      throw error;
+    }
   }
 
   /**
-   * 断开连接
+   * 停止所有监听器并断开所有会话
    */
   async disconnect(): Promise<void> {
-    if (this.transport) {
-      await this.transport.close();
-      this.transport = null;
+    const listeners = Array.from(this.listeners);
+    this.listeners.clear();
+    await Promise.all(listeners.map((listener) => listener.close()));
+
+    const ids = Array.from(this.sessions.keys());
+    await Promise.all(ids.map((id) => this.closeSession(id)));
+    this.emit("close", undefined);
+  }
+
+  /**
+   * 获取所有会话信息
+   */
+  getSessions(): SessionInfo[] {
+    return Array.from(this.sessions.values()).map(({ info }) => ({ ...info }));
+  }
+
+  /**
+   * 获取指定会话信息
+   */
+  getSession(id: string): SessionInfo | undefined {
+    const session = this.sessions.get(id);
+    return session ? { ...session.info } : undefined;
+  }
+
+  /**
+   * 签发一次性 token
+   * 由宿主页面传给 iframe（如通过 URL 参数），Client 在 initialize 时提交，使用一次后即失效
+   * @param identity - 认证通过后会话的身份
+   * @param ttl - 有效期（毫秒），默认使用 auth.ttl
+   */
+  issueToken(identity: AuthIdentityInput, ttl?: number): string {
+    if (!this.options.auth) {
+      throw new Error("未配置 auth，无法签发 token");
+    }
+
+    // 顺带清理已过期的 token
+    const now = Date.now();
+    for (const [token, entry] of this.issuedTokens) {
+      if (entry.expiresAt < now) {
+        this.issuedTokens.delete(token);
+      }
     }
+
+    const token = generateNonce();
+    this.issuedTokens.set(token, {
+      identity,
+      expiresAt: now + (ttl ?? this.options.auth.ttl ?? DEFAULT_AUTH_TTL),
+    });
+    return token;
+  }
+
+  /**
+   * 撤销尚未使用的一次性 token
+   * @returns token 是否存在
+   */
+  revokeToken(token: string): boolean {
+    return this.issuedTokens.delete(token);
+  }
+
+  /**
+   * 关闭指定会话
+   * @returns 会话是否存在
+   */
+  async closeSession(id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+
+    this.removeSession(session);
+    await session.transport.close();
+    return true;
   }
 
   /**
-   * 处理收到的消息
+   * 移除会话并拒绝其所有待处理请求
    */
-  private async handleMessage(message: JSONRPCMessage): Promise<void> {
+  private removeSession(session: Session): void {
+    if (this.sessions.get(session.info.id) !== session) {
+      return;
+    }
+
+    this.sessions.delete(session.info.id);
+    this.stopHeartbeat(session);
+    for (const pending of session.pendingRequests.values()) {
+      pending.reject(new Error("会话已关闭"));
+    }
+    session.pendingRequests.clear();
+    session.queue?.clear(new Error("会话已关闭"));
+    this.sessionLimiter?.delete(session.info.id);
+
+    if (session.started) {
+      this.emit("sessionEnd", { ...session.info });
+      this.updateState();
+    }
+  }
+
+  /**
+   * 向会话的 Client 发送请求
+   */
+  private sendRequest(
+    session: Session,
+    method: string,
+    params: Record<string, unknown>,
+    timeout: number
+  ): Promise<unknown> {
+    const id = `server-${++this.requestId}`;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        if (session.pendingRequests.delete(id)) {
+          reject(new Error(`请求超时: ${method}`));
+        }
+      }, timeout);
+
+      session.pendingRequests.set(id, {
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+
+      session.transport
+        .send({ jsonrpc: "2.0", id, method, params })
+        .catch((error) => {
+          const pending = session.pendingRequests.get(id);
+          if (pending) {
+            session.pendingRequests.delete(id);
+            pending.reject(error);
+          }
+        });
+    });
+  }
+
+  /**
+   * 开始会话心跳
+   */
+  private startHeartbeat(session: Session): void {
+    const { heartbeat } = this.options;
+    if (!heartbeat) {
+      return;
+    }
+
+    this.stopHeartbeat(session);
+
+    const interval = heartbeat.interval ?? DEFAULT_HEARTBEAT_INTERVAL;
+    const timeout = heartbeat.timeout ?? DEFAULT_HEARTBEAT_TIMEOUT;
+    const maxMissed = heartbeat.maxMissed ?? DEFAULT_HEARTBEAT_MAX_MISSED;
+    let missed = 0;
+    let inFlight = false;
+
+    session.heartbeatTimer = setInterval(() => {
+      // 上一次 ping 尚未返回时不重复发送
+      if (inFlight) {
+        return;
+      }
+      inFlight = true;
+
+      this.sendRequest(session, "ping", {}, timeout).then(
+        () => {
+          inFlight = false;
+          missed = 0;
+        },
+        () => {
+          inFlight = false;
+          missed++;
+          if (missed >= maxMissed) {
+            this.handleSessionLost(session);
+          }
+        }
+      );
+    }, interval);
+  }
+
+  /**
+   * 停止会话心跳
+   */
+  private stopHeartbeat(session: Session): void {
+    if (session.heartbeatTimer) {
+      clearInterval(session.heartbeatTimer);
+      session.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * 心跳判定 Client 已断开
+   * 通过目标窗口建立的会话重新监听（目标页面可能已刷新），其他会话直接关闭
+   */
+  private handleSessionLost(session: Session): void {
+    if (this.sessions.get(session.info.id) !== session) {
+      return;
+    }
+
+    console.warn(`MCP Server 会话 ${session.info.id} 心跳超时`);
+    this.stopHeartbeat(session);
+
+    const reestablish = session.target
+      ? this.connect(session.target, session.connectOptions)
+      : this.closeSession(session.info.id);
+    reestablish.catch((error) =>
+      this.reportError(
+        `MCP Server 会话 ${session.info.id} 恢复失败:`,
+        error,
+        session.info.id
+      )
+    );
+  }
+
+  /**
+   * 处理收到的消息（单条消息或批量数组）
+   */
+  private async handleMessage(session: Session, data: unknown): Promise<void> {
+    const payload = parsePayload(data);
+    if (!payload.valid) {
+      this.reportError(
+        "MCP Server 收到无效消息:",
+        payload.error,
+        session.info.id
+      );
+      await this.sendResponse(session, payload.response);
+      return;
+    }
+
+    if (!payload.batch) {
+      const response = await this.dispatch(session, payload.items[0]);
+      if (response) {
+        await this.sendResponse(session, response);
+      }
+      return;
+    }
+
+    // 批量中的请求并发处理，响应按请求顺序组成批量响应；只有通知和响应时不回复
+    const responses = (
+      await Promise.all(
+        payload.items.map((item) => this.dispatch(session, item))
+      )
+    ).filter((response): response is JSONRPCResponse => response !== null);
+
+    if (responses.length > 0) {
+      await this.sendResponse(session, responses);
+    }
+  }
+
+  /**
+   * 校验并分发单条消息
+   * 无效的请求回复 -32600，其他无效消息直接丢弃，均通过 error 事件上报
+   * @returns 需要回复的响应，通知与响应消息返回 null
+   */
+  private async dispatch(
+    session: Session,
+    data: unknown
+  ): Promise<JSONRPCResponse | null> {
+    const validation = validateMessage(data);
+    if (!validation.valid) {
+      this.reportError(
+        "MCP Server 收到无效消息:",
+        validation.error,
+        session.info.id
+      );
+      return validation.response;
+    }
+    const message = validation.message;
+
     // 处理响应消息
     if ("result" in message || "error" in message) {
       const response = message as JSONRPCResponse;
       if (response.id !== undefined) {
-        const pending = this.pendingRequests.get(response.id);
+        const pending = session.pendingRequests.get(response.id);
         if (pending) {
-          this.pendingRequests.delete(response.id);
+          session.pendingRequests.delete(response.id);
           if ("error" in response) {
             pending.reject(new Error(response.error.message));
           } else {
@@ -165,15 +834,122 @@ export class McpServer {
           }
         }
       }
-      return;
+      return null;
+    }
+
+    // 通知消息不需要回复，同样计入频率限制，超出时直接丢弃
+    if (!("id" in message)) {
+      this.checkRateLimit(session, message.method, false);
+      return null;
     }
 
     // 处理请求消息
     const request = message as JSONRPCRequest;
-    const response = await this.handleRequest(request);
+    if (RATE_LIMIT_EXEMPT_METHODS.has(request.method)) {
+      return this.handleRequest(session, request);
+    }
+
+    const limited = this.checkRateLimit(session, request.method, true);
+    if (limited) {
+      return createErrorResponse(
+        request.id,
+        MCP_RATE_LIMIT_ERROR_CODE,
+        limited.reason === "queue" ? "排队请求过多" : "请求过于频繁",
+        limited
+      );
+    }
 
-    if (this.transport && response) {
-      await this.transport.send(response);
+    if (!session.queue) {
+      return this.handleRequest(session, request);
+    }
+    // 排队中的请求在会话关闭时被拒绝，此时响应不会再发送
+    return session.queue
+      .run(() => this.handleRequest(session, request))
+      .catch((error) =>
+        createErrorResponse(
+          request.id,
+          -32000,
+          error instanceof Error ? error.message : String(error)
+        )
+      );
+  }
+
+  /**
+   * 检查消息是否超出限流或排队上限，未超出时消耗配额
+   * @param queued - 是否需要进入并发队列（通知不排队，只检查频率限制）
+   * @returns 超出时返回拒绝原因与建议的等待时间，否则返回 null
+   */
+  private checkRateLimit(
+    session: Session,
+    method: string,
+    queued: boolean
+  ): Pick<RateLimitEvent, "reason" | "retryAfter"> | null {
+    const origin = getPeerOrigin(session.transport) ?? null;
+    let reason: RateLimitReason | null = null;
+    let retryAfter = 0;
+
+    if (this.sessionLimiter) {
+      retryAfter = this.sessionLimiter.check(session.info.id);
+      if (retryAfter > 0) {
+        reason = "session";
+      }
+    }
+    if (!reason && this.originLimiter && origin !== null) {
+      retryAfter = this.originLimiter.check(origin);
+      if (retryAfter > 0) {
+        reason = "origin";
+      }
+    }
+    if (!reason && queued && session.queue && !session.queue.canAccept()) {
+      reason = "queue";
+    }
+
+    if (!reason) {
+      this.sessionLimiter?.consume(session.info.id);
+      if (origin !== null) {
+        this.originLimiter?.consume(origin);
+      }
+      return null;
+    }
+
+    this.emit("rateLimited", {
+      sessionId: session.info.id,
+      origin,
+      method,
+      reason,
+      retryAfter,
+    });
+    return { reason, retryAfter };
+  }
+
+  /**
+   * 发送响应（单条或批量）
+   */
+  private async sendResponse(
+    session: Session,
+    response: JSONRPCResponse | JSONRPCResponse[]
+  ): Promise<void> {
+    // 会话可能在处理期间被关闭
+    if (this.sessions.get(session.info.id) !== session) {
+      return;
+    }
+
+    try {
+      await session.transport.send(response as JSONRPCMessage);
+    } catch (error) {
+      // 结果无法发送（如超过消息大小上限）时改为返回错误，避免 Client 一直等待
+      const responses = Array.isArray(response) ? response : [response];
+      if (!responses.some((item) => "result" in item)) {
+        throw error;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      const fallback = responses.map((item) =>
+        "result" in item ? createErrorResponse(item.id, -32000, message) : item
+      );
+      await session.transport.send(
+        (Array.isArray(response) ? fallback : fallback[0]) as JSONRPCMessage
+      );
     }
   }
 
@@ -181,34 +957,96 @@ export class McpServer {
    * 处理 JSON-RPC 请求
    */
   private async handleRequest(
+    session: Session,
     request: JSONRPCRequest
   ): Promise<JSONRPCResponse | null> {
     const { id, method, params } = request;
+    // 只有 Relay 会话的转发路径可信，其他会话携带的路径一律忽略
+    const route = session.relay
+      ? (params?._meta as Record<string, unknown> | undefined)?.[
+          MCP_ROUTE_META_KEY
+        ]
+      : undefined;
+    const context: RequestContext = {
+      session: { ...session.info },
+      route: Array.isArray(route) ? (route as RouteHop[]) : [],
+    };
+
+    // 启用认证时，未通过认证的会话只能调用 initialize、ping 与获取挑战
+    if (
+      this.options.auth &&
+      !session.info.identity &&
+      !UNAUTHENTICATED_METHODS.has(method)
+    ) {
+      return createErrorResponse(id, MCP_AUTH_ERROR_CODE, "会话未认证");
+    }
 
     try {
       let result: Record<string, unknown>;
 
       switch (method) {
-        case "initialize":
-          result = this.handleInitialize();
+        case "initialize": {
+          if (this.options.auth) {
+            const identity = await this.authenticate(
+              session,
+              (params as InitializeParams | undefined)?._meta?.[
+                MCP_AUTH_META_KEY
+              ]
+            );
+            session.info.identity = identity;
+            if (!identity) {
+              console.warn(`MCP Server 会话 ${session.info.id} 认证失败`);
+              return createErrorResponse(id, MCP_AUTH_ERROR_CODE, "认证失败");
+            }
+          }
+          result = this.handleInitialize(
+            session,
+            params as InitializeParams
+          );
+          break;
+        }
+
+        case MCP_AUTH_CHALLENGE_METHOD:
+          if (!this.options.auth?.secrets) {
+            return createErrorResponse(id, -32601, `未知方法: ${method}`);
+          }
+          result = this.issueChallenge(session);
           break;
 
         case "tools/list":
           result = { tools: this.getTools() };
           break;
 
-        case "tools/call":
+        case "tools/call": {
+          const call = params as { name: string; arguments?: ToolCallInput };
+          const validation = this.validateToolArguments(call);
+          if (!validation.valid) {
+            const fields = validation.errors
+              .map(({ path, message }) => `${path || "arguments"}: ${message}`)
+              .join("; ");
+            return createErrorResponse(
+              id,
+              ErrorCode.InvalidParams,
+              `无效参数: ${fields}`,
+              { errors: validation.errors }
+            );
+          }
           result = await this.handleToolCall(
-            params as { name: string; arguments?: ToolCallInput }
+            { ...call, arguments: validation.value as ToolCallInput },
+            context
           );
           break;
+        }
 
         case "resources/list":
           result = { resources: this.getResources() };
           break;
 
         case "resources/read":
-          result = await this.handleResourceRead(params as { uri: string });
+          result = await this.handleResourceRead(
+            params as { uri: string },
+            context
+          );
           break;
 
         case "prompts/list":
@@ -217,7 +1055,8 @@ export class McpServer {
 
         case "prompts/get":
           result = await this.handlePromptGet(
-            params as { name: string; arguments?: Record<string, string> }
+            params as { name: string; arguments?: Record<string, string> },
+            context
           );
           break;
 
@@ -226,43 +1065,133 @@ export class McpServer {
           break;
 
         default:
-          return {
-            jsonrpc: "2.0",
-            id,
-            error: {
-              code: -32601,
-              message: `未知方法: ${method}`,
-            },
-          };
+          return createErrorResponse(id, -32601, `未知方法: ${method}`);
       }
 
       return {
         jsonrpc: "2.0",
         id,
-        result,
+        // 二进制数据只在无法直接传输时才编码为 base64
+        result: session.binaryTransfer ? result : await encodeBinaryDeep(result),
       };
     } catch (error) {
-      return {
-        jsonrpc: "2.0",
+      return createErrorResponse(
         id,
-        error: {
-          code: -32000,
-          message: error instanceof Error ? error.message : String(error),
-        },
-      };
+        -32000,
+        error instanceof Error ? error.message : String(error)
+      );
     }
   }
 
+  /**
+   * 为会话下发 HMAC 挑战，新的挑战会替换尚未使用的旧挑战
+   */
+  private issueChallenge(session: Session): Record<string, unknown> {
+    const nonce = generateNonce();
+    session.authChallenge = {
+      nonce,
+      expiresAt: Date.now() + (this.options.auth?.ttl ?? DEFAULT_AUTH_TTL),
+    };
+    return { nonce };
+  }
+
+  /**
+   * 校验 Client 提交的认证凭证
+   * @returns 认证通过时返回身份，否则返回 null
+   */
+  private async authenticate(
+    session: Session,
+    credentials: unknown
+  ): Promise<AuthIdentity | null> {
+    const auth = this.options.auth;
+    // 挑战只能使用一次
+    const challenge = session.authChallenge;
+    session.authChallenge = null;
+
+    if (!auth || !credentials || typeof credentials !== "object") {
+      return null;
+    }
+
+    const input = credentials as Partial<AuthCredentials>;
+    try {
+      if (input.type === "token" && typeof input.token === "string") {
+        // 一次性 token 无论是否过期都在首次使用时移除
+        const issued = this.issuedTokens.get(input.token);
+        if (issued) {
+          this.issuedTokens.delete(input.token);
+          return issued.expiresAt >= Date.now()
+            ? { ...issued.identity, method: "token" }
+            : null;
+        }
+
+        const identity = auth.verifyToken
+          ? await auth.verifyToken(input.token, { ...session.info })
+          : null;
+        return identity ? { ...identity, method: "token" } : null;
+      }
+
+      if (
+        input.type === "hmac" &&
+        typeof input.keyId === "string" &&
+        typeof input.nonce === "string" &&
+        typeof input.signature === "string"
+      ) {
+        if (
+          !challenge ||
+          challenge.nonce !== input.nonce ||
+          challenge.expiresAt < Date.now() ||
+          !auth.secrets ||
+          !Object.prototype.hasOwnProperty.call(auth.secrets, input.keyId)
+        ) {
+          return null;
+        }
+
+        const valid = await verifyChallenge(
+          auth.secrets[input.keyId],
+          input.nonce,
+          input.signature
+        );
+        return valid ? { id: input.keyId, method: "hmac" } : null;
+      }
+    } catch (error) {
+      console.warn(`MCP Server 会话 ${session.info.id} 认证出错:`, error);
+    }
+
+    return null;
+  }
+
   /**
    * 处理初始化请求
    */
-  private handleInitialize(): Record<string, unknown> {
+  private handleInitialize(
+    session: Session,
+    params: InitializeParams = {}
+  ): Record<string, unknown> {
+    // 支持 Client 请求的版本时使用该版本，否则返回最新版本，由 Client 决定是否继续
+    const protocolVersion =
+      params.protocolVersion &&
+      SUPPORTED_PROTOCOL_VERSIONS.includes(params.protocolVersion)
+        ? params.protocolVersion
+        : LATEST_PROTOCOL_VERSION;
+
+    session.info.clientInfo = params.clientInfo ?? null;
+    session.info.protocolVersion = protocolVersion;
+    session.transport.setProtocolVersion?.(protocolVersion);
+    session.binaryTransfer =
+      supportsBinary(session.transport) &&
+      params.capabilities?.experimental?.[BINARY_TRANSFER_CAPABILITY] !==
+        undefined;
+
+    // Client 已就绪，开始心跳
+    this.startHeartbeat(session);
+
     return {
-      protocolVersion: "2024-11-05",
+      protocolVersion,
+      // 工具、资源与 Prompt 可随时增删，变化时发送 list_changed 通知
       capabilities: {
-        tools: this.tools.size > 0 ? {} : undefined,
-        resources: this.resources.size > 0 ? {} : undefined,
-        prompts: this.prompts.size > 0 ? {} : undefined,
+        tools: { listChanged: true },
+        resources: { listChanged: true },
+        prompts: { listChanged: true },
       },
       serverInfo: {
         name: this.options.name,
@@ -272,49 +1201,75 @@ export class McpServer {
   }
 
   /**
-   * 处理工具调用
+   * 按工具的 inputSchema 校验（并按配置转换）调用参数
+   * 工具不存在时原样返回，由 handleToolCall 报告
    */
-  private async handleToolCall(params: {
+  private validateToolArguments(params: {
     name: string;
     arguments?: ToolCallInput;
-  }): Promise<Record<string, unknown>> {
+  }): ReturnType<typeof validateSchema> {
+    const input = params.arguments ?? {};
+    const tool = this.tools.get(params.name);
+    const mode = tool?.inputValidation ?? "validate";
+    if (!tool || mode === "off") {
+      return { valid: true, value: input };
+    }
+    return validateSchema(tool.inputSchema, input, mode === "coerce");
+  }
+
+  /**
+   * 处理工具调用
+   */
+  private async handleToolCall(
+    params: {
+      name: string;
+      arguments?: ToolCallInput;
+    },
+    context: RequestContext
+  ): Promise<Record<string, unknown>> {
     const tool = this.tools.get(params.name);
     if (!tool) {
       throw new Error(`工具未找到: ${params.name}`);
     }
 
-    const result = await tool.handler(params.arguments ?? {});
+    const result = await tool.handler(params.arguments ?? {}, context);
     return result as unknown as Record<string, unknown>;
   }
 
   /**
    * 处理资源读取
    */
-  private async handleResourceRead(params: {
-    uri: string;
-  }): Promise<Record<string, unknown>> {
+  private async handleResourceRead(
+    params: {
+      uri: string;
+    },
+    context: RequestContext
+  ): Promise<Record<string, unknown>> {
     const resource = this.resources.get(params.uri);
     if (!resource) {
       throw new Error(`资源未找到: ${params.uri}`);
     }
 
-    const result = await resource.handler(params.uri);
+    const result = await resource.handler(params.uri, context);
     return result as unknown as Record<string, unknown>;
   }
 
   /**
    * 处理 Prompt 获取
    */
-  private async handlePromptGet(params: {
-    name: string;
-    arguments?: Record<string, string>;
-  }): Promise<Record<string, unknown>> {
+  private async handlePromptGet(
+    params: {
+      name: string;
+      arguments?: Record<string, string>;
+    },
+    context: RequestContext
+  ): Promise<Record<string, unknown>> {
     const prompt = this.prompts.get(params.name);
     if (!prompt) {
       throw new Error(`Prompt 未找到: ${params.name}`);
     }
 
-    const result = await prompt.handler(params.arguments ?? {});
+    const result = await prompt.handler(params.arguments ?? {}, context);
     return result as unknown as Record<string, unknown>;
   }
 }
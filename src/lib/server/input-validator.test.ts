@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { checkSchema, validateSchema } from "./input-validator.js";
+
+describe("validateSchema", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      code: { type: "string", pattern: "^[A-Z]{3}$" },
+      count: { type: "integer", minimum: 1 },
+    },
+    required: ["code"],
+  };
+
+  it("校验通过时返回参数", () => {
+    expect(validateSchema(schema, { code: "ABC", count: 2 })).toEqual({
+      valid: true,
+      value: { code: "ABC", count: 2 },
+    });
+  });
+
+  it("列出每个失败的字段", () => {
+    expect(validateSchema(schema, { code: "abc", count: 0 })).toEqual({
+      valid: false,
+      errors: [
+        { path: "code", message: "不匹配格式 ^[A-Z]{3}$" },
+        { path: "count", message: "不能小于 1" },
+      ],
+    });
+  });
+
+  it("coerce 模式转换数字字符串", () => {
+    expect(validateSchema(schema, { code: "ABC", count: "3" }, true)).toEqual({
+      valid: true,
+      value: { code: "ABC", count: 3 },
+    });
+  });
+});
+
+describe("checkSchema", () => {
+  it("有效的 schema 没有问题", () => {
+    expect(
+      checkSchema({
+        type: "object",
+        properties: { code: { type: "string", pattern: "^\\d+$" } },
+      })
+    ).toEqual([]);
+  });
+
+  it("报告嵌套位置的无效 pattern", () => {
+    const issues = checkSchema({
+      type: "object",
+      properties: {
+        tags: { type: "array", items: { type: "string", pattern: "[" } },
+        id: { anyOf: [{ type: "number" }, { type: "string", pattern: 1 }] },
+      },
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      "properties.tags.items.pattern",
+      "properties.id.anyOf[1].pattern",
+    ]);
+    expect(issues[0].message).toContain('无效的 pattern "["');
+    expect(issues[1].message).toContain("应为字符串");
+  });
+});
@@ -0,0 +1,431 @@
+/**
+ * 工具参数校验
+ * 按 JSON Schema 的常用关键字校验工具参数，可选地先转换参数类型；
+ * 不依赖运行时代码生成，可以在禁止 eval 的 CSP 页面中使用
+ */
+
+import type { SchemaValidationIssue } from "./types.js";
+
+/**
+ * 校验结果，通过时 value 为（转换后的）参数
+ */
+export type SchemaValidationResult =
+  | { valid: true; value: unknown }
+  | { valid: false; errors: SchemaValidationIssue[] };
+
+/**
+ * 单次校验的上下文
+ */
+interface ValidationContext {
+  coerce: boolean;
+  errors: SchemaValidationIssue[];
+}
+
+type Schema = Record<string, unknown>;
+
+function isSchema(value: unknown): value is Schema {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 是否为普通对象（ArrayBuffer、Blob 等二进制对象不展开校验属性）
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * 拼接字段路径，如 items[0].name
+ */
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * 描述值的 JSON 类型，用于错误信息
+ */
+function describeType(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "number" && Number.isInteger(value)) {
+    return "integer";
+  }
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    default:
+      // 未知的类型名不做限制
+      return true;
+  }
+}
+
+/**
+ * 把值转换为目标类型，无法转换时返回 null
+ * 支持数字字符串 → number/integer、"true"/"false" → boolean、
+ * number/boolean → string、单个值 → 只有该值的数组
+ */
+function coerceType(value: unknown, type: unknown): { value: unknown } | null {
+  switch (type) {
+    case "number":
+    case "integer": {
+      if (typeof value !== "string" || value.trim() === "") {
+        return null;
+      }
+      const number = Number(value);
+      return matchesType(number, type) ? { value: number } : null;
+    }
+    case "boolean":
+      if (value === "true" || value === "false") {
+        return { value: value === "true" };
+      }
+      return null;
+    case "string":
+      if (typeof value === "number" || typeof value === "boolean") {
+        return { value: String(value) };
+      }
+      return null;
+    case "array":
+      return Array.isArray(value) ? null : { value: [value] };
+    default:
+      return null;
+  }
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(
+        (key) =>
+          Object.prototype.hasOwnProperty.call(b, key) &&
+          isEqual(a[key], b[key])
+      )
+    );
+  }
+  return false;
+}
+
+/**
+ * 按 JSON Schema 约定以 Unicode 模式编译 pattern
+ */
+function compilePattern(pattern: string): RegExp {
+  return new RegExp(pattern, "u");
+}
+
+/**
+ * 使用独立的错误列表校验，用于 anyOf、oneOf、not 的分支
+ */
+function tryValidate(
+  schema: unknown,
+  value: unknown,
+  path: string,
+  context: ValidationContext
+): SchemaValidationResult {
+  const branch: ValidationContext = { coerce: context.coerce, errors: [] };
+  const result = validateValue(schema, value, path, branch);
+  return branch.errors.length === 0
+    ? { valid: true, value: result }
+    : { valid: false, errors: branch.errors };
+}
+
+/**
+ * 递归校验，返回（转换后的）值，错误写入上下文
+ */
+function validateValue(
+  schema: unknown,
+  input: unknown,
+  path: string,
+  context: ValidationContext
+): unknown {
+  const report = (message: string, at = path) =>
+    context.errors.push({ path: at, message });
+
+  if (schema === false) {
+    report("不允许的值");
+    return input;
+  }
+  if (!isSchema(schema)) {
+    return input;
+  }
+
+  let value = input;
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      const coerced = context.coerce
+        ? types.map((type) => coerceType(value, type)).find(Boolean)
+        : null;
+      if (!coerced) {
+        report(`应为 ${types.join(" | ")}，实际为 ${describeType(value)}`);
+        return value;
+      }
+      value = coerced.value;
+    }
+  }
+
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    report(`应为 ${JSON.stringify(schema.const)}`);
+  }
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((item) => isEqual(item, value))
+  ) {
+    report(
+      `应为 ${schema.enum.map((item) => JSON.stringify(item)).join("、")} 之一`
+    );
+  }
+
+  if (typeof value === "string") {
+    // 按字符而不是 UTF-16 码元计算长度
+    const length = Array.from(value).length;
+    if (typeof schema.minLength === "number" && length < schema.minLength) {
+      report(`长度不能小于 ${schema.minLength}`);
+    }
+    if (typeof schema.maxLength === "number" && length > schema.maxLength) {
+      report(`长度不能大于 ${schema.maxLength}`);
+    }
+    // pattern 已在注册工具时由 checkSchema 检查，无效时这里会抛出
+    if (
+      typeof schema.pattern === "string" &&
+      !compilePattern(schema.pattern).test(value)
+    ) {
+      report(`不匹配格式 ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      report(`不能小于 ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      report(`不能大于 ${schema.maximum}`);
+    }
+    if (
+      typeof schema.exclusiveMinimum === "number" &&
+      value <= schema.exclusiveMinimum
+    ) {
+      report(`必须大于 ${schema.exclusiveMinimum}`);
+    }
+    if (
+      typeof schema.exclusiveMaximum === "number" &&
+      value >= schema.exclusiveMaximum
+    ) {
+      report(`必须小于 ${schema.exclusiveMaximum}`);
+    }
+    if (
+      typeof schema.multipleOf === "number" &&
+      schema.multipleOf > 0 &&
+      !Number.isInteger(value / schema.multipleOf)
+    ) {
+      report(`必须是 ${schema.multipleOf} 的倍数`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      report(`元素数不能少于 ${schema.minItems}`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      report(`元素数不能多于 ${schema.maxItems}`);
+    }
+    if (schema.items !== undefined && !Array.isArray(schema.items)) {
+      value = value.map((item, i) =>
+        validateValue(schema.items, item, joinPath(path, i), context)
+      );
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const object: Record<string, unknown> = { ...value };
+    const properties = isSchema(schema.properties) ? schema.properties : {};
+
+    if (Array.isArray(schema.required)) {
+      for (const name of schema.required) {
+        if (
+          typeof name === "string" &&
+          !Object.prototype.hasOwnProperty.call(object, name)
+        ) {
+          report("缺少必填字段", joinPath(path, name));
+        }
+      }
+    }
+
+    for (const key of Object.keys(object)) {
+      const fieldPath = joinPath(path, key);
+      if (Object.prototype.hasOwnProperty.call(properties, key)) {
+        object[key] = validateValue(
+          properties[key],
+          object[key],
+          fieldPath,
+          context
+        );
+      } else if (schema.additionalProperties === false) {
+        report("不允许的字段", fieldPath);
+      } else if (isSchema(schema.additionalProperties)) {
+        object[key] = validateValue(
+          schema.additionalProperties,
+          object[key],
+          fieldPath,
+          context
+        );
+      }
+    }
+    value = object;
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const branch of schema.allOf) {
+      value = validateValue(branch, value, path, context);
+    }
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const matched = schema.anyOf
+      .map((branch) => tryValidate(branch, value, path, context))
+      .find((result) => result.valid);
+    if (matched?.valid) {
+      value = matched.value;
+    } else {
+      report("不满足 anyOf 中的任何一个 schema");
+    }
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matched = schema.oneOf
+      .map((branch) => tryValidate(branch, value, path, context))
+      .filter((result) => result.valid);
+    if (matched.length === 1 && matched[0].valid) {
+      value = matched[0].value;
+    } else {
+      report(
+        matched.length === 0
+          ? "不满足 oneOf 中的任何一个 schema"
+          : "同时满足 oneOf 中的多个 schema"
+      );
+    }
+  }
+
+  if (
+    schema.not !== undefined &&
+    tryValidate(schema.not, value, path, context).valid
+  ) {
+    report("不应满足 not 中的 schema");
+  }
+
+  return value;
+}
+
+/**
+ * 按 JSON Schema 校验值
+ * 支持 type、enum、const、properties、required、additionalProperties、items、
+ * 长度、数值范围、pattern、allOf、anyOf、oneOf、not，其他关键字（如 $ref、format）忽略
+ * @param coerce - 类型不匹配时先尝试转换，转换不修改原始值
+ */
+export function validateSchema(
+  schema: unknown,
+  value: unknown,
+  coerce = false
+): SchemaValidationResult {
+  const context: ValidationContext = { coerce, errors: [] };
+  const result = validateValue(schema, value, "", context);
+  return context.errors.length === 0
+    ? { valid: true, value: result }
+    : { valid: false, errors: context.errors };
+}
+
+/**
+ * 递归检查 schema 自身，问题写入 issues
+ * path 为关键字路径，如 'properties.code'
+ */
+function collectSchemaIssues(
+  schema: unknown,
+  path: string,
+  issues: SchemaValidationIssue[]
+): void {
+  if (!isSchema(schema)) {
+    return;
+  }
+
+  if (schema.pattern !== undefined) {
+    try {
+      if (typeof schema.pattern !== "string") {
+        throw new Error("应为字符串");
+      }
+      compilePattern(schema.pattern);
+    } catch (error) {
+      issues.push({
+        path: joinPath(path, "pattern"),
+        message: `无效的 pattern ${JSON.stringify(schema.pattern)}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      });
+    }
+  }
+
+  if (isSchema(schema.properties)) {
+    const properties = joinPath(path, "properties");
+    for (const [key, property] of Object.entries(schema.properties)) {
+      collectSchemaIssues(property, joinPath(properties, key), issues);
+    }
+  }
+  for (const keyword of ["additionalProperties", "items", "not"]) {
+    collectSchemaIssues(schema[keyword], joinPath(path, keyword), issues);
+  }
+  for (const keyword of ["allOf", "anyOf", "oneOf"]) {
+    const branches = schema[keyword];
+    if (Array.isArray(branches)) {
+      const branchPath = joinPath(path, keyword);
+      branches.forEach((branch, i) =>
+        collectSchemaIssues(branch, joinPath(branchPath, i), issues)
+      );
+    }
+  }
+}
+
+/**
+ * 检查 schema 中校验时会用到的关键字是否有效（目前为 pattern）
+ * 在注册工具时调用，避免无效的 schema 在调用时才被发现
+ * @returns 问题列表，为空表示有效
+ */
+export function checkSchema(schema: unknown): SchemaValidationIssue[] {
+  const issues: SchemaValidationIssue[] = [];
+  collectSchemaIssues(schema, "", issues);
+  return issues;
+}
@@ -0,0 +1,165 @@
+/**
+ * 请求限流
+ * 令牌桶频率限制与会话内的并发队列，供 McpServer 使用
+ */
+
+import type { RateLimitRule } from "./types.js";
+
+/**
+ * 令牌桶状态
+ */
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * 按键（origin 或会话 ID）计数的令牌桶限流器
+ * 每个键最多积累 limit 个令牌，每 window 毫秒恢复 limit 个
+ */
+export class RateLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+  private rule: RateLimitRule;
+  private lastPrune = Date.now();
+
+  constructor(rule: RateLimitRule) {
+    if (!(rule.limit > 0) || !(rule.window > 0)) {
+      throw new Error("限流配置无效: limit 与 window 必须大于 0");
+    }
+    this.rule = rule;
+  }
+
+  /**
+   * 查询键当前是否有可用配额，不消耗配额
+   * @returns 需要等待的时间（毫秒），0 表示可以立即执行
+   */
+  check(key: string): number {
+    const bucket = this.refill(key, Date.now());
+    if (bucket.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil(
+      ((1 - bucket.tokens) * this.rule.window) / this.rule.limit
+    );
+  }
+
+  /**
+   * 消耗一个配额，调用前应先通过 check 确认有可用配额
+   */
+  consume(key: string): void {
+    const bucket = this.refill(key, Date.now());
+    bucket.tokens = Math.max(0, bucket.tokens - 1);
+  }
+
+  /**
+   * 移除键的计数
+   */
+  delete(key: string): void {
+    this.buckets.delete(key);
+  }
+
+  /**
+   * 按经过的时间恢复令牌
+   */
+  private refill(key: string, now: number): Bucket {
+    this.prune(now);
+
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: this.rule.limit, updatedAt: now };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+
+    const elapsed = now - bucket.updatedAt;
+    bucket.tokens = Math.min(
+      this.rule.limit,
+      bucket.tokens + (elapsed * this.rule.limit) / this.rule.window
+    );
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  /**
+   * 每个时间窗口清理一次已恢复满的令牌桶，避免键无限增长
+   */
+  private prune(now: number): void {
+    if (now - this.lastPrune < this.rule.window) {
+      return;
+    }
+    this.lastPrune = now;
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= this.rule.window) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * 会话内的请求并发队列
+ * 同时执行的请求数达到 maxConcurrent 时后续请求排队，排队数达到 maxQueued 时拒绝
+ */
+export class RequestQueue {
+  private active = 0;
+  private waiting: Array<{
+    resolve: () => void;
+    reject: (error: Error) => void;
+  }> = [];
+  private maxConcurrent: number;
+  private maxQueued: number;
+
+  constructor(maxConcurrent: number, maxQueued = Infinity) {
+    if (!(maxConcurrent >= 1)) {
+      throw new Error("限流配置无效: maxConcurrent 必须大于等于 1");
+    }
+    this.maxConcurrent = maxConcurrent;
+    this.maxQueued = maxQueued;
+  }
+
+  /**
+   * 是否还能接受新的请求（立即执行或排队）
+   */
+  canAccept(): boolean {
+    return (
+      this.active < this.maxConcurrent || this.waiting.length < this.maxQueued
+    );
+  }
+
+  /**
+   * 在并发上限内执行任务，需要排队时等待前面的任务完成
+   * 调用前应先通过 canAccept 确认队列未满
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.maxConcurrent) {
+      // 前面的任务完成时直接把执行名额交给队首，避免被新请求插队
+      await new Promise<void>((resolve, reject) =>
+        this.waiting.push({ resolve, reject })
+      );
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next.resolve();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  /**
+   * 拒绝所有排队中的任务（会话关闭时调用）
+   */
+  clear(error: Error): void {
+    const waiting = this.waiting;
+    this.waiting = [];
+    for (const entry of waiting) {
+      entry.reject(error);
+    }
+  }
+}
@@ -3,10 +3,74 @@
  */
 
 import type {
+  JSONRPCMessage,
   Tool,
   Resource,
   Prompt,
 } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  AuthIdentity,
+  ChunkingOptions,
+  EncryptionOptions,
+  JSONRPCBatch,
+  TransportMiddleware,
+  HeartbeatOptions,
+  RouteHop,
+  ServerTransportOptions,
+  TransportState,
+  TransportType,
+} from "../transport/types.js";
+import type { BinaryData } from "../transport/binary.js";
+import type { HmacSecret } from "../transport/auth.js";
+
+/**
+ * Client 信息（来自 initialize 请求）
+ */
+export interface ClientInfo {
+  name: string;
+  version: string;
+}
+
+/**
+ * 会话信息
+ */
+export interface SessionInfo {
+  /**
+   * 会话 ID
+   */
+  id: string;
+  /**
+   * Client 信息，收到 initialize 请求前为 null
+   */
+  clientInfo: ClientInfo | null;
+  /**
+   * Client 请求的协议版本，收到 initialize 请求前为 null
+   */
+  protocolVersion: string | null;
+  /**
+   * 会话建立时间（毫秒时间戳）
+   */
+  connectedAt: number;
+  /**
+   * 认证通过后的 Client 身份，未启用认证或认证通过前为 null
+   */
+  identity: AuthIdentity | null;
+}
+
+/**
+ * 请求上下文，作为处理函数的第二个参数传入
+ */
+export interface RequestContext {
+  /**
+   * 发起请求的会话
+   */
+  session: SessionInfo;
+  /**
+   * 请求经过 McpRelay 转发时的路径，按从发起请求的 Client 到当前 Server 的顺序排列。
+   * 只读取以 relay 选项建立的会话携带的路径，其他会话始终为空数组
+   */
+  route: RouteHop[];
+}
 
 /**
  * Tool 处理函数的输入参数
@@ -16,18 +80,49 @@ export interface ToolCallInput {
 }
 
 /**
- * Tool 处理函数的返回结果
+ * Tool 调用结果
+ * TData 为 data 字段的类型：协议中为 base64 字符串，处理函数也可以直接返回二进制数据
  */
-export interface ToolCallResult {
+export interface ToolCallResult<TData = string> {
   content: Array<{
     type: "text" | "image" | "resource";
     text?: string;
-    data?: string;
+    data?: TData;
     mimeType?: string;
   }>;
   isError?: boolean;
 }
 
+/**
+ * Resource 内容
+ * TBlob 为 blob 字段的类型：协议中为 base64 字符串，处理函数也可以直接返回二进制数据
+ */
+export interface ResourceContents<TBlob = string> {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: TBlob;
+}
+
+/**
+ * 工具参数校验方式
+ */
+export type ToolInputValidation = "validate" | "coerce" | "off";
+
+/**
+ * 参数校验失败的字段，作为 -32602 错误 data.errors 的元素返回
+ */
+export interface SchemaValidationIssue {
+  /**
+   * 字段路径，如 'a'、'items[0].name'，参数整体不符合时为空字符串
+   */
+  path: string;
+  /**
+   * 失败原因
+   */
+  message: string;
+}
+
 /**
  * Tool 定义（包含处理函数）
  */
@@ -48,22 +143,34 @@ export interface ToolDefinition {
     properties?: Record<string, unknown>;
     required?: string[];
   };
+  /**
+   * 参数校验方式，默认 'validate'
+   * - validate：调用处理函数前按 inputSchema 校验参数，不通过时返回 -32602 错误
+   * - coerce：类型不匹配时先转换（如 "1" → 1、"true" → true），转换后再校验
+   * - off：不校验，参数原样传给处理函数
+   */
+  inputValidation?: ToolInputValidation;
   /**
    * 工具处理函数
+   * content 中的 data 可以直接返回 ArrayBuffer/Blob/ImageBitmap，由 Server 按 Transport 能力决定是否编码为 base64
    */
-  handler: (input: ToolCallInput) => Promise<ToolCallResult> | ToolCallResult;
+  handler: (
+    input: ToolCallInput,
+    context: RequestContext
+  ) =>
+    | Promise<ToolCallResult<string | BinaryData>>
+    | ToolCallResult<string | BinaryData>;
 }
 
 /**
  * Resource 读取处理函数
+ * blob 可以直接返回 ArrayBuffer/Blob/ImageBitmap，由 Server 按 Transport 能力决定是否编码为 base64
  */
-export type ResourceReadHandler = (uri: string) => Promise<{
-  contents: Array<{
-    uri: string;
-    mimeType?: string;
-    text?: string;
-    blob?: string;
-  }>;
+export type ResourceReadHandler = (
+  uri: string,
+  context: RequestContext
+) => Promise<{
+  contents: Array<ResourceContents<string | BinaryData>>;
 }>;
 
 /**
@@ -104,14 +211,17 @@ export interface PromptArgument {
 /**
  * Prompt 获取处理函数
  */
-export type PromptGetHandler = (args: Record<string, string>) => Promise<{
+export type PromptGetHandler = (
+  args: Record<string, string>,
+  context: RequestContext
+) => Promise<{
   description?: string;
   messages: Array<{
     role: "user" | "assistant";
     content: {
       type: "text" | "image" | "resource";
       text?: string;
-      data?: string;
+      data?: string | BinaryData;
       mimeType?: string;
     };
   }>;
@@ -151,6 +261,214 @@ export interface McpServerOptions {
    * 服务器版本
    */
   version: string;
+  /**
+   * 心跳配置，设置后在 Client 初始化后周期性 ping Client
+   * 连续丢失心跳时，通过目标窗口建立的会话会重新监听，其他会话被关闭
+   */
+  heartbeat?: HeartbeatOptions;
+  /**
+   * 认证配置，设置后 Client 必须在 initialize 请求中通过认证，
+   * 认证通过前只能调用 initialize 与 ping
+   */
+  auth?: ServerAuthOptions;
+  /**
+   * 限流配置，设置后按 origin 与会话限制请求频率与并发数，
+   * 超出限制的请求返回 MCP_RATE_LIMIT_ERROR_CODE 错误并触发 rateLimited 事件
+   */
+  rateLimit?: RateLimitOptions;
+}
+
+/**
+ * 请求频率限制：每个时间窗口内最多 limit 个请求，配额随时间匀速恢复
+ */
+export interface RateLimitRule {
+  /**
+   * 时间窗口内允许的请求数，同时也是允许的突发请求数
+   */
+  limit: number;
+  /**
+   * 时间窗口（毫秒）
+   */
+  window: number;
+}
+
+/**
+ * Server 限流配置
+ * 只有 ping 不受限制也不排队，保证心跳在繁忙时仍然可用；通知计入频率限制但不排队
+ */
+export interface RateLimitOptions {
+  /**
+   * 同一 origin 的所有会话共享的请求频率限制
+   * 无法确定对端 origin 的会话（如自定义 Transport）只受 perSession 限制
+   */
+  perOrigin?: RateLimitRule;
+  /**
+   * 单个会话的请求频率限制
+   */
+  perSession?: RateLimitRule;
+  /**
+   * 单个会话同时执行的请求数上限，超出的请求排队等待，默认不限制
+   */
+  maxConcurrent?: number;
+  /**
+   * 单个会话排队等待的请求数上限，超出后直接返回错误，默认不限制
+   * 只在设置了 maxConcurrent 时生效
+   */
+  maxQueued?: number;
+}
+
+/**
+ * 请求被拒绝的原因
+ * - origin：超出 perOrigin 频率限制
+ * - session：超出 perSession 频率限制
+ * - queue：排队请求数超出 maxQueued
+ */
+export type RateLimitReason = "origin" | "session" | "queue";
+
+/**
+ * McpServer 拒绝超限请求事件
+ */
+export interface RateLimitEvent {
+  /**
+   * 发起请求的会话
+   */
+  sessionId: string;
+  /**
+   * 会话对端的 origin，无法确定时为 null
+   */
+  origin: string | null;
+  /**
+   * 被拒绝的请求或通知的方法
+   */
+  method: string;
+  reason: RateLimitReason;
+  /**
+   * 建议的重试等待时间（毫秒），排队已满时为 0
+   */
+  retryAfter: number;
+}
+
+/**
+ * 待认证的身份（由签发方或校验函数提供，认证方式由 Server 填写）
+ */
+export type AuthIdentityInput = Omit<AuthIdentity, "method">;
+
+/**
+ * Server 认证配置
+ */
+export interface ServerAuthOptions {
+  /**
+   * HMAC 共享密钥，键为密钥 ID
+   * Client 使用对应密钥对 Server 下发的挑战签名，认证通过后身份 ID 即为密钥 ID
+   */
+  secrets?: Record<string, HmacSecret>;
+  /**
+   * 自定义 token 校验，返回身份表示通过，返回 null 表示拒绝
+   * 未命中 issueToken() 签发的一次性 token 时调用
+   */
+  verifyToken?: (
+    token: string,
+    session: SessionInfo
+  ) => AuthIdentityInput | null | Promise<AuthIdentityInput | null>;
+  /**
+   * 一次性 token 与 HMAC 挑战的有效期（毫秒），默认 60000
+   */
+  ttl?: number;
+}
+
+/**
+ * 会话配置，使用自定义 Transport 建立会话时也可以传入
+ */
+export interface SessionOptions {
+  /**
+   * 对端是否为 McpRelay，默认 false
+   * 只有为 true 的会话，请求 _meta 中的转发路径才会被读取为 context.route，
+   * 其他会话携带的路径会被忽略，避免 Client 伪造转发记录
+   */
+  relay?: boolean;
+}
+
+/**
+ * McpServer.connect 配置
+ */
+export interface ServerConnectOptions
+  extends Omit<ServerTransportOptions, "target">,
+    SessionOptions {
+  /**
+   * Transport 类型，默认为 'post-robot'
+   */
+  transportType?: TransportType;
+  /**
+   * 分块传输配置，设置后超大消息会被拆分发送，Client 端需要同时启用
+   */
+  chunking?: ChunkingOptions;
+  /**
+   * 端到端加密配置，设为 true 使用默认配置，Client 端需要同时启用
+   */
+  encryption?: EncryptionOptions | boolean;
+  /**
+   * 消息中间件，发送的消息按数组顺序经过各中间件，收到的消息按相反顺序经过
+   */
+  middleware?: TransportMiddleware[];
+}
+
+/**
+ * McpServer 收到消息事件
+ */
+export interface ServerMessageEvent {
+  /**
+   * 收到消息的会话
+   */
+  sessionId: string;
+  /**
+   * 单条消息或批量数组
+   */
+  message: JSONRPCMessage | JSONRPCBatch;
+}
+
+/**
+ * McpServer 错误事件
+ */
+export interface ServerErrorEvent {
+  error: Error;
+  /**
+   * 出错的会话，监听器出错时为 undefined
+   */
+  sessionId?: string;
+}
+
+/**
+ * McpServer 事件
+ */
+export interface ServerEventMap {
+  /**
+   * 状态变化：第一个会话建立时变为 connected，最后一个会话结束时变为 disconnected
+   */
+  stateChange: TransportState;
+  /**
+   * 收到 Client 的消息
+   */
+  message: ServerMessageEvent;
+  /**
+   * Transport、监听器出错、会话恢复失败或收到无效消息；没有监听器时输出到控制台
+   */
+  error: ServerErrorEvent;
+  /**
+   * disconnect() 已停止所有监听器并关闭所有会话
+   */
+  close: void;
+  /**
+   * 会话的 Transport 已启动
+   */
+  sessionStart: SessionInfo;
+  /**
+   * 会话已结束（Transport 关闭、被替换或调用 closeSession）
+   */
+  sessionEnd: SessionInfo;
+  /**
+   * 请求超出限流或排队上限被拒绝
+   */
+  rateLimited: RateLimitEvent;
 }
 
 /**
@@ -0,0 +1,76 @@
+/**
+ * 会话认证工具
+ *
+ * 同源的多个 iframe（如同一 CDN 域名下的用户内容）无法通过 origin 区分，
+ * 因此在 initialize 阶段提供可选的认证：一次性 token，或基于共享密钥的 HMAC 挑战应答。
+ * HMAC 计算使用 WebCrypto（crypto.subtle），签名与校验均不依赖第三方库。
+ */
+
+import { arrayBufferToBase64, base64ToArrayBuffer } from "./binary.js";
+
+/**
+ * 签名内容的前缀，避免签名被挪作他用
+ */
+const CHALLENGE_PREFIX = "postmessage-mcp/auth:";
+
+/**
+ * HMAC 密钥（原始字符串或已导入的 CryptoKey）
+ */
+export type HmacSecret = string | CryptoKey;
+
+/**
+ * 生成随机 nonce（base64，32 字节）
+ */
+export function generateNonce(): string {
+  return arrayBufferToBase64(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * 导入 HMAC-SHA256 密钥
+ */
+export async function importHmacKey(secret: HmacSecret): Promise<CryptoKey> {
+  if (typeof secret !== "string") {
+    return secret;
+  }
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * 对挑战 nonce 计算 HMAC 签名
+ * @returns base64 编码的签名
+ */
+export async function signChallenge(
+  secret: HmacSecret,
+  nonce: string
+): Promise<string> {
+  const key = await importHmacKey(secret);
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(CHALLENGE_PREFIX + nonce)
+  );
+  return arrayBufferToBase64(signature);
+}
+
+/**
+ * 校验挑战 nonce 的 HMAC 签名（常量时间比较）
+ */
+export async function verifyChallenge(
+  secret: HmacSecret,
+  nonce: string,
+  signature: string
+): Promise<boolean> {
+  const key = await importHmacKey(secret);
+  return crypto.subtle.verify(
+    "HMAC",
+    key,
+    base64ToArrayBuffer(signature),
+    new TextEncoder().encode(CHALLENGE_PREFIX + nonce)
+  );
+}
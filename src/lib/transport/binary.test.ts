@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { prepareTransfer } from "./binary.js";
+
+describe("prepareTransfer", () => {
+  it("转移完整覆盖 buffer 的视图和 ArrayBuffer，原样返回消息", () => {
+    const bytes = new Uint8Array([1, 2, 3]);
+    const raw = new ArrayBuffer(4);
+    const message = { result: { content: [{ data: bytes }, { data: raw }] } };
+
+    const prepared = prepareTransfer(message);
+    expect(prepared.message).toBe(message);
+    expect(prepared.transferables).toEqual([bytes.buffer, raw]);
+  });
+
+  it("subarray 替换为片段副本，只转移副本的 buffer", () => {
+    const source = new Uint8Array([0, 1, 2, 3, 4, 5]);
+    const slice = source.subarray(2, 4);
+    const other = { kept: true };
+    const message = { result: { content: [{ data: slice }], other } };
+
+    const prepared = prepareTransfer(message);
+    const data = prepared.message.result.content[0].data;
+
+    expect(prepared.message).not.toBe(message);
+    expect(prepared.message.result.other).toBe(other);
+    expect(message.result.content[0].data).toBe(slice);
+    expect(data).toBeInstanceOf(Uint8Array);
+    expect(Array.from(data)).toEqual([2, 3]);
+    expect(data.buffer).not.toBe(source.buffer);
+    expect(prepared.transferables).toEqual([data.buffer]);
+  });
+
+  it("DataView 片段复制为新的 DataView", () => {
+    const view = new DataView(new ArrayBuffer(8), 4, 2);
+    view.setUint8(0, 7);
+
+    const { message } = prepareTransfer([view]);
+    expect(message[0]).toBeInstanceOf(DataView);
+    expect(message[0].byteLength).toBe(2);
+    expect(message[0].getUint8(0)).toBe(7);
+  });
+
+  it("通过 MessageChannel 发送后，发送方的其余数据仍可使用", async () => {
+    const source = new Uint8Array([0, 1, 2, 3]);
+    const channel = new MessageChannel();
+    const received = new Promise<MessageEvent>((resolve) => {
+      channel.port2.onmessage = resolve;
+    });
+
+    const { message, transferables } = prepareTransfer({
+      data: source.subarray(1, 3),
+    });
+    channel.port1.postMessage(message, transferables);
+
+    expect(Array.from((await received).data.data)).toEqual([1, 2]);
+    expect(source.byteLength).toBe(4);
+    expect(Array.from(source)).toEqual([0, 1, 2, 3]);
+    channel.port1.close();
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * 二进制数据传输工具
+ *
+ * MCP 协议要求 tool 结果中的 data、resource 内容中的 blob 为 base64 字符串。
+ * 当 Transport 基于结构化克隆（MessageChannel、Worker、BroadcastChannel）且对端声明支持时，
+ * 二进制数据直接以 ArrayBuffer/Blob/ImageBitmap 传输（可转移对象零拷贝），
+ * 只在无法传输二进制的边界（如 post-robot、标准 MCP 对端）才编码为 base64。
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+
+/**
+ * 二进制数据
+ */
+export type BinaryData = ArrayBuffer | ArrayBufferView | Blob | ImageBitmap;
+
+/**
+ * Client 在 initialize 请求的 capabilities.experimental 中声明该能力，
+ * 表示可以直接接收二进制数据
+ */
+export const BINARY_TRANSFER_CAPABILITY = "postmessage-mcp/binary";
+
+/**
+ * 判断值是否为二进制数据
+ */
+export function isBinaryData(value: unknown): value is BinaryData {
+  return (
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value) ||
+    (typeof Blob !== "undefined" && value instanceof Blob) ||
+    (typeof ImageBitmap !== "undefined" && value instanceof ImageBitmap)
+  );
+}
+
+/**
+ * 判断值中是否包含二进制数据（递归检查）
+ */
+export function hasBinaryData(value: unknown): boolean {
+  if (isBinaryData(value)) {
+    return true;
+  }
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  return (Array.isArray(value) ? value : Object.values(value)).some(
+    hasBinaryData
+  );
+}
+
+/**
+ * 二进制数据的字节数，ImageBitmap 按 RGBA 像素估算
+ */
+function binaryByteLength(value: BinaryData): number {
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return value.byteLength;
+  }
+  if ("width" in value) {
+    return value.width * value.height * 4;
+  }
+  return value.size;
+}
+
+/**
+ * 估算消息大小：二进制数据按字节数计算，其余部分按序列化后的 JSON 长度计算
+ */
+export function measureMessageSize(value: unknown): number {
+  let binarySize = 0;
+  const json = JSON.stringify(value, (_key, item: unknown) => {
+    if (!isBinaryData(item)) {
+      return item;
+    }
+    binarySize += binaryByteLength(item);
+    return null;
+  });
+  return (json?.length ?? 0) + binarySize;
+}
+
+/**
+ * 判断 Transport 是否支持直接传输二进制数据
+ */
+export function supportsBinary(transport: Transport): boolean {
+  return (transport as { supportsBinary?: boolean }).supportsBinary === true;
+}
+
+/**
+ * 复制视图覆盖的片段，返回同类型、独占新 ArrayBuffer 的视图
+ */
+function copyView(view: ArrayBufferView, buffer: ArrayBuffer): ArrayBufferView {
+  const copy = buffer.slice(view.byteOffset, view.byteOffset + view.byteLength);
+  if (view instanceof DataView) {
+    return new DataView(copy);
+  }
+  const TypedArray = view.constructor as new (
+    buffer: ArrayBuffer
+  ) => ArrayBufferView;
+  return new TypedArray(copy);
+}
+
+/**
+ * 准备通过 postMessage 发送的消息，收集其中的可转移对象（ArrayBuffer、ImageBitmap）
+ * 只覆盖底层 ArrayBuffer 一部分的视图（如 subarray）不转移整个 buffer，
+ * 而是在返回的消息中替换为片段副本并转移副本，发送方仍持有的其余数据不受影响；
+ * 没有替换时返回原消息，替换时只复制替换路径上的数组和对象
+ * 注意：转移后发送方持有的对象会被分离（detached），不可再使用
+ */
+export function prepareTransfer<T>(message: T): {
+  message: T;
+  transferables: Transferable[];
+} {
+  const transferables = new Set<Transferable>();
+
+  const visit = (current: unknown): unknown => {
+    if (current === null || typeof current !== "object") {
+      return current;
+    }
+    if (current instanceof ArrayBuffer) {
+      transferables.add(current);
+      return current;
+    }
+    if (ArrayBuffer.isView(current)) {
+      const { buffer, byteOffset, byteLength } = current;
+      // SharedArrayBuffer 不可转移
+      if (!(buffer instanceof ArrayBuffer)) {
+        return current;
+      }
+      if (byteOffset === 0 && byteLength === buffer.byteLength) {
+        transferables.add(buffer);
+        return current;
+      }
+      const copy = copyView(current, buffer);
+      transferables.add(copy.buffer as ArrayBuffer);
+      return copy;
+    }
+    if (typeof ImageBitmap !== "undefined" && current instanceof ImageBitmap) {
+      transferables.add(current);
+      return current;
+    }
+    // Blob 通过结构化克隆按引用传递，无需转移
+    if (typeof Blob !== "undefined" && current instanceof Blob) {
+      return current;
+    }
+    if (Array.isArray(current)) {
+      const items = current.map(visit);
+      return items.some((item, i) => item !== current[i]) ? items : current;
+    }
+    const record = current as Record<string, unknown>;
+    const entries = Object.entries(record).map(
+      ([key, item]) => [key, visit(item)] as const
+    );
+    return entries.some(([key, item]) => item !== record[key])
+      ? Object.fromEntries(entries)
+      : current;
+  };
+
+  const prepared = visit(message) as T;
+  return { message: prepared, transferables: Array.from(transferables) };
+}
+
+/**
+ * ArrayBuffer 转 base64
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer | ArrayBufferView): string {
+  const bytes =
+    buffer instanceof ArrayBuffer
+      ? new Uint8Array(buffer)
+      : new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
+  // 分段转换，避免超大数组导致调用栈溢出
+  const chunkSize = 0x8000;
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * base64 转 ArrayBuffer
+ */
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * 将 base64 字符串解码为 ArrayBuffer，二进制数据原样返回
+ */
+export function decodeBinary(data: string | BinaryData): BinaryData {
+  return typeof data === "string" ? base64ToArrayBuffer(data) : data;
+}
+
+/**
+ * 将二进制数据编码为 base64
+ * ImageBitmap 会先绘制到 OffscreenCanvas 并编码为 PNG
+ */
+export async function encodeBinary(data: BinaryData): Promise<string> {
+  if (typeof Blob !== "undefined" && data instanceof Blob) {
+    return arrayBufferToBase64(await data.arrayBuffer());
+  }
+
+  if (typeof ImageBitmap !== "undefined" && data instanceof ImageBitmap) {
+    if (typeof OffscreenCanvas === "undefined") {
+      throw new Error("当前环境不支持 OffscreenCanvas，无法编码 ImageBitmap");
+    }
+    const canvas = new OffscreenCanvas(data.width, data.height);
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("无法创建 2D 绘图上下文，无法编码 ImageBitmap");
+    }
+    context.drawImage(data, 0, 0);
+    const blob = await canvas.convertToBlob({ type: "image/png" });
+    return arrayBufferToBase64(await blob.arrayBuffer());
+  }
+
+  return arrayBufferToBase64(data as ArrayBuffer | ArrayBufferView);
+}
+
+/**
+ * 递归地将值中的所有二进制数据编码为 base64，返回新对象
+ */
+export async function encodeBinaryDeep<T>(value: T): Promise<T> {
+  if (isBinaryData(value)) {
+    return (await encodeBinary(value)) as T;
+  }
+  if (Array.isArray(value)) {
+    return (await Promise.all(value.map((item) => encodeBinaryDeep(item)))) as T;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = await Promise.all(
+      Object.entries(value).map(
+        async ([key, item]) => [key, await encodeBinaryDeep(item)] as const
+      )
+    );
+    return Object.fromEntries(entries) as T;
+  }
+  return value;
+}
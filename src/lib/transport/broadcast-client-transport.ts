@@ -0,0 +1,253 @@
+/**
+ * Client 端 BroadcastChannel Transport 实现
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import {
+  DEFAULT_HANDSHAKE_RETRIES,
+  DEFAULT_HANDSHAKE_TIMEOUT,
+  MCP_BROADCAST_CHANNEL,
+  type BroadcastClientTransportOptions,
+  type BroadcastEnvelope,
+} from "./types.js";
+import { generateSessionId } from "./utils.js";
+
+/**
+ * 基于 BroadcastChannel 的 Client Transport
+ * 连接同源的其他标签页/窗口中的 MCP Server
+ *
+ * 启动时在频道上广播 hello（可通过 targetPeerId 指定 Server），
+ * 与第一个响应 ack 的 Server 建立会话，之后只与该 Server 通信。
+ */
+export class BroadcastChannelClientTransport implements Transport {
+  private channelName: string;
+  private peerId: string;
+  private targetPeerId: string | undefined;
+  private remotePeerId: string | undefined;
+  private channel: BroadcastChannel | null = null;
+  private started = false;
+  private handshakeTimeout: number;
+  private handshakeRetries: number;
+
+  /**
+   * 基于结构化克隆，可直接传输二进制数据（BroadcastChannel 不支持转移，会复制一份）
+   */
+  readonly supportsBinary = true;
+
+  /**
+   * 握手时生成的会话 ID，不作为 Transport.sessionId 暴露（见 ChannelHandshakeMessage.sessionId）
+   */
+  private handshakeSessionId?: string;
+
+  onmessage?: (message: JSONRPCMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+
+  constructor(options: BroadcastClientTransportOptions = {}) {
+    this.channelName = options.channelName ?? MCP_BROADCAST_CHANNEL;
+    this.peerId = options.peerId ?? generateSessionId();
+    this.targetPeerId = options.targetPeerId;
+    this.handshakeTimeout = options.handshakeTimeout ?? DEFAULT_HANDSHAKE_TIMEOUT;
+    this.handshakeRetries = options.handshakeRetries ?? DEFAULT_HANDSHAKE_RETRIES;
+  }
+
+  /**
+   * 获取本端 peer ID
+   */
+  getPeerId(): string {
+    return this.peerId;
+  }
+
+  /**
+   * 获取已连接 Server 的 peer ID（握手完成后可用）
+   */
+  getRemotePeerId(): string | undefined {
+    return this.remotePeerId;
+  }
+
+  /**
+   * 在频道上投递信封
+   */
+  private post(envelope: Omit<BroadcastEnvelope, "from">): void {
+    this.channel!.postMessage({
+      ...envelope,
+      from: this.peerId,
+    } satisfies BroadcastEnvelope);
+  }
+
+  /**
+   * 处理握手完成后频道上的消息
+   */
+  private handleChannelMessage = (event: MessageEvent): void => {
+    const envelope = event.data as BroadcastEnvelope | null;
+    if (
+      !envelope ||
+      envelope.to !== this.peerId ||
+      envelope.from !== this.remotePeerId ||
+      envelope.sessionId !== this.handshakeSessionId
+    ) {
+      return;
+    }
+
+    if (envelope.type === "message" && envelope.payload) {
+      if (this.onmessage) {
+        this.onmessage(envelope.payload);
+      }
+    } else if (envelope.type === "close") {
+      this.close().catch((error) => {
+        if (this.onerror) {
+          this.onerror(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+    }
+  };
+
+  /**
+   * 广播 hello，等待 Server 的 ack
+   * @returns 响应的 Server peer ID
+   */
+  private handshake(sessionId: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      const channel = this.channel!;
+      const attempts = this.handshakeRetries + 1;
+      let attempt = 0;
+      let attemptTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const nextAttempt = () => {
+        attempt++;
+        if (attempt > attempts) {
+          cleanup();
+          reject(
+            new Error(
+              `MCP 握手失败：频道 "${this.channelName}" 上的 Server 在 ${attempts} 次尝试后仍未响应`
+            )
+          );
+          return;
+        }
+        this.post({ type: "hello", to: this.targetPeerId, sessionId });
+        attemptTimer = setTimeout(nextAttempt, this.handshakeTimeout);
+      };
+
+      const onMessage = (event: MessageEvent) => {
+        const envelope = event.data as BroadcastEnvelope | null;
+        if (
+          !envelope ||
+          envelope.type !== "ack" ||
+          envelope.to !== this.peerId ||
+          envelope.sessionId !== sessionId
+        ) {
+          return;
+        }
+        if (this.targetPeerId && envelope.from !== this.targetPeerId) {
+          return;
+        }
+
+        cleanup();
+        resolve(envelope.from);
+      };
+
+      const cleanup = () => {
+        channel.removeEventListener("message", onMessage);
+        clearTimeout(attemptTimer);
+      };
+
+      channel.addEventListener("message", onMessage);
+      nextAttempt();
+    });
+  }
+
+  /**
+   * 启动 Transport，完成握手
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+
+    try {
+      this.channel = new BroadcastChannel(this.channelName);
+      this.channel.onmessageerror = () => {
+        if (this.onerror) {
+          this.onerror(new Error("BroadcastChannel 消息反序列化失败"));
+        }
+      };
+
+      const sessionId = generateSessionId();
+      this.remotePeerId = await this.handshake(sessionId);
+      this.handshakeSessionId = sessionId;
+      this.channel.onmessage = this.handleChannelMessage;
+      this.started = true;
+    } catch (error) {
+      this.started = false;
+      if (this.channel) {
+        this.channel.close();
+        this.channel = null;
+      }
+      if (this.onerror) {
+        this.onerror(error instanceof Error ? error : new Error(String(error)));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 发送消息到 Server
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.started || !this.channel || !this.handshakeSessionId) {
+      throw new Error("Transport 未启动");
+    }
+
+    try {
+      this.post({
+        type: "message",
+        to: this.remotePeerId,
+        sessionId: this.handshakeSessionId,
+        payload: message,
+      });
+    } catch (error) {
+      if (this.onerror) {
+        this.onerror(error instanceof Error ? error : new Error(String(error)));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 关闭 Transport
+   */
+  async close(): Promise<void> {
+    if (!this.started) {
+      return;
+    }
+
+    if (this.channel) {
+      if (this.handshakeSessionId) {
+        this.post({
+          type: "close",
+          to: this.remotePeerId,
+          sessionId: this.handshakeSessionId,
+        });
+      }
+      this.channel.close();
+      this.channel = null;
+    }
+    this.remotePeerId = undefined;
+    this.handshakeSessionId = undefined;
+    this.started = false;
+
+    if (this.onclose) {
+      this.onclose();
+    }
+  }
+}
+
+/**
+ * 创建 BroadcastChannel Client Transport
+ */
+export function createBroadcastClientTransport(
+  options?: BroadcastClientTransportOptions
+): BroadcastChannelClientTransport {
+  return new BroadcastChannelClientTransport(options);
+}
@@ -0,0 +1,307 @@
+/**
+ * Server 端 BroadcastChannel Transport 实现
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import {
+  MCP_BROADCAST_CHANNEL,
+  type BroadcastEnvelope,
+  type BroadcastServerTransportOptions,
+  type TransportListener,
+} from "./types.js";
+import { generateSessionId } from "./utils.js";
+
+/**
+ * 基于 BroadcastChannel 的 Server Transport
+ * 用于同源的多个标签页/窗口之间的 MCP 通信，不需要 iframe 关系
+ *
+ * 一个实例同一时间只服务一个 Client：未指定 remotePeerId 时绑定第一个发起握手的 Client，
+ * 该 Client 离开后再接受新的握手。
+ * 需要同时服务多个 Client 时，使用 BroadcastChannelListener 配合 McpServer.listen()。
+ */
+export class BroadcastChannelServerTransport implements Transport {
+  private channelName: string;
+  private peerId: string;
+  private remotePeerId: string | undefined;
+  private channel: BroadcastChannel | null = null;
+  private started = false;
+  private acceptsNewSessions: boolean;
+  private options: BroadcastServerTransportOptions;
+
+  /**
+   * 基于结构化克隆，可直接传输二进制数据（BroadcastChannel 不支持转移，会复制一份）
+   */
+  readonly supportsBinary = true;
+
+  /**
+   * 当前会话 ID（握手完成后可用）
+   */
+  sessionId?: string;
+
+  onmessage?: (message: JSONRPCMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+
+  constructor(options: BroadcastServerTransportOptions = {}) {
+    this.options = options;
+    this.channelName = options.channelName ?? MCP_BROADCAST_CHANNEL;
+    this.peerId = options.peerId ?? generateSessionId();
+    this.remotePeerId = options.remotePeerId;
+    this.sessionId = options.sessionId;
+    // 未预先绑定会话时，可以接受新的握手（Client 重连或上一个 Client 离开）
+    this.acceptsNewSessions = options.sessionId === undefined;
+  }
+
+  /**
+   * 获取本端 peer ID
+   */
+  getPeerId(): string {
+    return this.peerId;
+  }
+
+  /**
+   * 处理频道上的消息
+   */
+  private handleChannelMessage = (event: MessageEvent): void => {
+    const envelope = event.data as BroadcastEnvelope | null;
+    if (!envelope || typeof envelope.from !== "string") {
+      return;
+    }
+    if (envelope.to !== undefined && envelope.to !== this.peerId) {
+      return;
+    }
+    if (this.remotePeerId && envelope.from !== this.remotePeerId) {
+      return;
+    }
+
+    switch (envelope.type) {
+      case "hello":
+        // 监听器创建的会话只属于预先绑定的会话 ID
+        if (!this.acceptsNewSessions && envelope.sessionId !== this.sessionId) {
+          return;
+        }
+        this.remotePeerId = envelope.from;
+        this.sessionId = envelope.sessionId;
+        this.post({ type: "ack", sessionId: envelope.sessionId });
+        break;
+
+      case "message":
+        if (envelope.sessionId === this.sessionId && envelope.payload) {
+          if (this.onmessage) {
+            this.onmessage(envelope.payload);
+          }
+        }
+        break;
+
+      case "close":
+        if (envelope.sessionId !== this.sessionId) {
+          return;
+        }
+        if (this.acceptsNewSessions) {
+          // 独立使用时解除绑定，等待新的 Client 握手
+          this.remotePeerId = this.options.remotePeerId;
+          this.sessionId = undefined;
+          return;
+        }
+        this.close().catch((error) => {
+          if (this.onerror) {
+            this.onerror(error instanceof Error ? error : new Error(String(error)));
+          }
+        });
+        break;
+    }
+  };
+
+  /**
+   * 向已绑定的 Client 投递信封
+   */
+  private post(envelope: Omit<BroadcastEnvelope, "from" | "to">): void {
+    this.channel!.postMessage({
+      ...envelope,
+      from: this.peerId,
+      to: this.remotePeerId,
+    } satisfies BroadcastEnvelope);
+  }
+
+  /**
+   * 启动 Transport，开始监听频道
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+
+    try {
+      this.channel = new BroadcastChannel(this.channelName);
+      this.channel.onmessage = this.handleChannelMessage;
+      this.channel.onmessageerror = () => {
+        if (this.onerror) {
+          this.onerror(new Error("BroadcastChannel 消息反序列化失败"));
+        }
+      };
+      this.started = true;
+
+      // 由监听器创建的会话已确定 Client，直接确认握手
+      if (this.remotePeerId && this.sessionId) {
+        this.post({ type: "ack", sessionId: this.sessionId });
+      }
+    } catch (error) {
+      this.started = false;
+      if (this.onerror) {
+        this.onerror(error instanceof Error ? error : new Error(String(error)));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 发送消息到 Client
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.started || !this.channel) {
+      throw new Error("Transport 未启动");
+    }
+    if (!this.remotePeerId || !this.sessionId) {
+      throw new Error("BroadcastChannel 会话尚未建立");
+    }
+
+    try {
+      this.post({ type: "message", sessionId: this.sessionId, payload: message });
+    } catch (error) {
+      if (this.onerror) {
+        this.onerror(error instanceof Error ? error : new Error(String(error)));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 关闭 Transport
+   */
+  async close(): Promise<void> {
+    if (!this.started) {
+      return;
+    }
+
+    if (this.channel) {
+      if (this.remotePeerId && this.sessionId) {
+        this.post({ type: "close", sessionId: this.sessionId });
+      }
+      this.channel.close();
+      this.channel = null;
+    }
+    this.started = false;
+
+    if (this.onclose) {
+      this.onclose();
+    }
+  }
+}
+
+/**
+ * BroadcastChannel 监听器
+ * 为频道上每个发起握手的 Client 创建一个独立的 BroadcastChannelServerTransport
+ *
+ * @example
+ * ```ts
+ * await server.listen(new BroadcastChannelListener({ channelName: "my-app" }));
+ * ```
+ */
+export class BroadcastChannelListener implements TransportListener {
+  private channelName: string;
+  private peerId: string;
+  private channel: BroadcastChannel | null = null;
+  private sessionIds: Set<string> = new Set();
+
+  onconnection?: (transport: Transport) => void;
+  onerror?: (error: Error) => void;
+
+  constructor(
+    options: Omit<BroadcastServerTransportOptions, "remotePeerId" | "sessionId"> = {}
+  ) {
+    this.channelName = options.channelName ?? MCP_BROADCAST_CHANNEL;
+    this.peerId = options.peerId ?? generateSessionId();
+  }
+
+  /**
+   * 获取本端 peer ID
+   */
+  getPeerId(): string {
+    return this.peerId;
+  }
+
+  /**
+   * 处理频道上的握手请求
+   */
+  private handleChannelMessage = (event: MessageEvent): void => {
+    const envelope = event.data as BroadcastEnvelope | null;
+    if (!envelope || typeof envelope.from !== "string") {
+      return;
+    }
+    if (envelope.to !== undefined && envelope.to !== this.peerId) {
+      return;
+    }
+
+    if (envelope.type === "close") {
+      this.sessionIds.delete(envelope.sessionId);
+      return;
+    }
+
+    // 重发的 hello 由已创建的会话 Transport 自行确认
+    if (envelope.type !== "hello" || this.sessionIds.has(envelope.sessionId)) {
+      return;
+    }
+
+    this.sessionIds.add(envelope.sessionId);
+    const transport = new BroadcastChannelServerTransport({
+      channelName: this.channelName,
+      peerId: this.peerId,
+      remotePeerId: envelope.from,
+      sessionId: envelope.sessionId,
+    });
+
+    if (this.onconnection) {
+      this.onconnection(transport);
+    }
+  };
+
+  /**
+   * 开始监听握手请求
+   */
+  async start(): Promise<void> {
+    if (this.channel) {
+      return;
+    }
+
+    try {
+      this.channel = new BroadcastChannel(this.channelName);
+      this.channel.onmessage = this.handleChannelMessage;
+    } catch (error) {
+      if (this.onerror) {
+        this.onerror(error instanceof Error ? error : new Error(String(error)));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 停止监听
+   */
+  async close(): Promise<void> {
+    if (this.channel) {
+      this.channel.close();
+      this.channel = null;
+    }
+    this.sessionIds.clear();
+  }
+}
+
+/**
+ * 创建 BroadcastChannel Server Transport
+ */
+export function createBroadcastServerTransport(
+  options?: BroadcastServerTransportOptions
+): BroadcastChannelServerTransport {
+  return new BroadcastChannelServerTransport(options);
+}
@@ -0,0 +1,300 @@
+/**
+ * Client 端 MessageChannel Transport 实现
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import {
+  DEFAULT_HANDSHAKE_RETRIES,
+  DEFAULT_HANDSHAKE_TIMEOUT,
+  MCP_CHANNEL_ACK,
+  MCP_CHANNEL_HELLO,
+  MCP_CHANNEL_READY,
+  type ChannelHandshakeMessage,
+  type ChannelReadyMessage,
+  type ClientTransportOptions,
+} from "./types.js";
+import {
+  generateSessionId,
+  watchWindowClosed,
+} from "./utils.js";
+import { OriginPolicy, TargetOriginResolver } from "./origin-policy.js";
+import { TransportEventEmitter } from "./events.js";
+import { prepareTransfer } from "./binary.js";
+
+/**
+ * 基于 MessageChannel 的 Client Transport
+ *
+ * 启动时通过 window.postMessage 向目标窗口发送 hello，
+ * 收到携带 MessagePort 的 ack 后，所有 MCP 消息都改走该私有端口。
+ * 支持与 PostMessageClientTransport 相同的默认模式与反向模式。
+ */
+export class MessageChannelClientTransport
+  extends TransportEventEmitter
+  implements Transport
+{
+  private targetWindow: Window;
+  private originPolicy: OriginPolicy;
+  private originResolver: TargetOriginResolver;
+  private remoteOrigin: string | null = null;
+  private channel: string | undefined;
+  private port: MessagePort | null = null;
+  private started = false;
+  private stopWatchingTarget: (() => void) | null = null;
+  private isReverseMode = false;
+  private handshakeTimeout: number;
+  private handshakeRetries: number;
+
+  /**
+   * 基于结构化克隆，可直接传输二进制数据
+   */
+  readonly supportsBinary = true;
+
+  onmessage?: (message: JSONRPCMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+
+  constructor(options: ClientTransportOptions = {}) {
+    super();
+    this.targetWindow = options.target ?? options.parent ?? window.parent;
+    this.originPolicy = new OriginPolicy(options);
+    this.originResolver = new TargetOriginResolver(
+      this.targetWindow,
+      options,
+      this.originPolicy
+    );
+    this.channel = options.channel || undefined;
+    this.handshakeTimeout = options.handshakeTimeout ?? DEFAULT_HANDSHAKE_TIMEOUT;
+    this.handshakeRetries = options.handshakeRetries ?? DEFAULT_HANDSHAKE_RETRIES;
+    this.isReverseMode = !!(options.target && options.target !== window.parent);
+  }
+
+  /**
+   * 对端窗口的 origin，尚未收到对端消息时为 undefined
+   */
+  get peerOrigin(): string | undefined {
+    return this.remoteOrigin ?? undefined;
+  }
+
+  /**
+   * 与 Server 握手，获取专用 MessagePort
+   */
+  private handshake(sessionId: string): Promise<MessagePort> {
+    // 严格模式下无法确定目标 origin 时直接失败
+    const targetOrigin = this.originResolver.resolve();
+
+    return new Promise<MessagePort>((resolve, reject) => {
+      const hello: ChannelHandshakeMessage = {
+        type: MCP_CHANNEL_HELLO,
+        sessionId,
+        ...(this.channel ? { channel: this.channel } : {}),
+      };
+
+      const attempts = this.handshakeRetries + 1;
+      let attempt = 0;
+      let attemptTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const postHello = () => {
+        this.targetWindow.postMessage(hello, targetOrigin);
+      };
+
+      // 每次尝试发送 hello 并等待 handshakeTimeout，超过重试次数后失败
+      const nextAttempt = () => {
+        attempt++;
+        if (attempt > attempts) {
+          cleanup();
+          reject(
+            new Error(
+              `MCP 握手失败：Server 在 ${attempts} 次尝试后仍未响应（MessageChannel）`
+            )
+          );
+          return;
+        }
+        postHello();
+        attemptTimer = setTimeout(nextAttempt, this.handshakeTimeout);
+      };
+
+      const onMessage = (event: MessageEvent) => {
+        if (event.source !== this.targetWindow) {
+          return;
+        }
+
+        const data = event.data as
+          | Partial<ChannelHandshakeMessage>
+          | Partial<ChannelReadyMessage>
+          | null;
+
+        // 只处理同一频道的握手消息
+        if (!data || data.channel !== this.channel) {
+          return;
+        }
+
+        // Server 刚开始监听，立即重发 hello，不计入重试次数
+        if (data.type === MCP_CHANNEL_READY) {
+          postHello();
+          return;
+        }
+
+        if (
+          data.type !== MCP_CHANNEL_ACK ||
+          !("sessionId" in data) ||
+          data.sessionId !== sessionId
+        ) {
+          return;
+        }
+
+        if (!this.originResolver.accepts(event.origin)) {
+          console.warn(`拒绝来自非目标 origin 的握手确认: ${event.origin}`);
+          return;
+        }
+
+        if (!this.originPolicy.isAllowed(event.origin)) {
+          console.warn(`拒绝来自未授权域名的握手确认: ${event.origin}`);
+          return;
+        }
+
+        const [port] = event.ports;
+        if (!port) {
+          return;
+        }
+
+        this.remoteOrigin = event.origin;
+        cleanup();
+        resolve(port);
+      };
+
+      const cleanup = () => {
+        window.removeEventListener("message", onMessage);
+        clearTimeout(attemptTimer);
+      };
+
+      window.addEventListener("message", onMessage);
+      nextAttempt();
+    });
+  }
+
+  /**
+   * 启动 Transport，完成握手
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+
+    // 仅在默认模式（非反向模式）下检查是否在 iframe 中
+    if (!this.isReverseMode && window === window.parent) {
+      throw new Error(
+        "Client Transport 默认模式必须在 iframe 中运行，或使用 target 参数指定目标窗口"
+      );
+    }
+
+    this.setState("connecting");
+
+    try {
+      const sessionId = generateSessionId();
+      const port = await this.handshake(sessionId);
+
+      port.onmessage = (event: MessageEvent) => {
+        if (this.onmessage) {
+          this.onmessage(event.data as JSONRPCMessage);
+        }
+        this.emit("message", event.data as JSONRPCMessage);
+      };
+      port.onmessageerror = () => {
+        const error = new Error("MessagePort 消息反序列化失败");
+        if (this.onerror) {
+          this.onerror(error);
+        }
+        this.emit("error", error);
+      };
+
+      // 握手会话 ID 只用于匹配 ack，不作为 Transport.sessionId 暴露（见 ChannelHandshakeMessage.sessionId）
+      this.port = port;
+      this.started = true;
+      this.setState("connected");
+      if (this.remoteOrigin) {
+        this.startSession(this.remoteOrigin);
+      }
+
+      // 目标窗口关闭（弹出窗口被关闭、iframe 被移除）时自动关闭 Transport
+      this.stopWatchingTarget = watchWindowClosed(this.targetWindow, () => {
+        this.close().catch((error) =>
+          console.error("关闭 Transport 失败:", error)
+        );
+      });
+    } catch (error) {
+      this.started = false;
+      this.setState("error");
+      const err = error instanceof Error ? error : new Error(String(error));
+      if (this.onerror) {
+        this.onerror(err);
+      }
+      this.emit("error", err);
+      throw error;
+    }
+  }
+
+  /**
+   * 发送消息到 Server
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.started || !this.port) {
+      throw new Error("Transport 未启动");
+    }
+
+    try {
+      // 严格模式下每次发送都重新检查目标 origin，iframe 导航到其他 origin 后不再发送
+      if (
+        !this.remoteOrigin ||
+        !this.originResolver.accepts(this.remoteOrigin)
+      ) {
+        throw new Error(
+          `目标窗口的 origin 已变化，拒绝发送消息: ${this.remoteOrigin}`
+        );
+      }
+      const prepared = prepareTransfer(message);
+      this.port.postMessage(prepared.message, prepared.transferables);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      if (this.onerror) {
+        this.onerror(err);
+      }
+      this.emit("error", err);
+      throw error;
+    }
+  }
+
+  /**
+   * 关闭 Transport
+   */
+  async close(): Promise<void> {
+    if (this.stopWatchingTarget) {
+      this.stopWatchingTarget();
+      this.stopWatchingTarget = null;
+    }
+    if (this.port) {
+      this.port.onmessage = null;
+      this.port.onmessageerror = null;
+      this.port.close();
+      this.port = null;
+    }
+    this.remoteOrigin = null;
+    this.started = false;
+    this.endSession();
+    this.setState("disconnected");
+
+    if (this.onclose) {
+      this.onclose();
+    }
+    this.emit("close", undefined);
+  }
+}
+
+/**
+ * 创建 MessageChannel Client Transport
+ */
+export function createChannelClientTransport(
+  options?: ClientTransportOptions
+): MessageChannelClientTransport {
+  return new MessageChannelClientTransport(options);
+}
@@ -0,0 +1,265 @@
+/**
+ * Server 端 MessageChannel Transport 实现
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import {
+  MCP_CHANNEL_ACK,
+  MCP_CHANNEL_HELLO,
+  MCP_CHANNEL_READY,
+  type ChannelHandshakeMessage,
+  type ChannelReadyMessage,
+  type ServerTransportOptions,
+} from "./types.js";
+import {
+  resolveTargetWindow,
+  watchWindowClosed,
+} from "./utils.js";
+import { OriginPolicy, TargetOriginResolver } from "./origin-policy.js";
+import { TransportEventEmitter } from "./events.js";
+import { prepareTransfer } from "./binary.js";
+
+/**
+ * 基于 MessageChannel 的 Server Transport
+ *
+ * 仅握手阶段使用 window.postMessage：收到 Client 的 hello 并校验 origin 后，
+ * 创建一个 MessageChannel，通过 ack 把其中一个端口转移给 Client。
+ * 之后所有 MCP 消息都只在这对私有端口上传输，窗口上的其他脚本无法窥探或伪造。
+ */
+export class MessageChannelServerTransport
+  extends TransportEventEmitter
+  implements Transport
+{
+  private targetWindow: Window | null = null;
+  private originPolicy: OriginPolicy;
+  private originResolver: TargetOriginResolver;
+  private remoteOrigin: string | null = null;
+  private channel: string | undefined;
+  private port: MessagePort | null = null;
+  private started = false;
+  private stopWatchingTarget: (() => void) | null = null;
+  private options: ServerTransportOptions;
+
+  /**
+   * 基于结构化克隆，可直接传输二进制数据
+   */
+  readonly supportsBinary = true;
+
+  /**
+   * 当前会话 ID（握手完成后可用）
+   */
+  sessionId?: string;
+
+  onmessage?: (message: JSONRPCMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+
+  constructor(options: ServerTransportOptions) {
+    super();
+    this.options = options;
+    this.originPolicy = new OriginPolicy(options);
+    this.originResolver = new TargetOriginResolver(
+      options.target,
+      options,
+      this.originPolicy
+    );
+    this.channel = options.channel || undefined;
+  }
+
+  /**
+   * 对端窗口的 origin，尚未收到对端消息时为 undefined
+   */
+  get peerOrigin(): string | undefined {
+    return this.remoteOrigin ?? undefined;
+  }
+
+  /**
+   * 处理窗口上的握手请求
+   */
+  private handleWindowMessage = (event: MessageEvent): void => {
+    if (!this.targetWindow || event.source !== this.targetWindow) {
+      return;
+    }
+
+    const data = event.data as Partial<ChannelHandshakeMessage> | null;
+    if (
+      !data ||
+      data.type !== MCP_CHANNEL_HELLO ||
+      typeof data.sessionId !== "string" ||
+      data.channel !== this.channel
+    ) {
+      return;
+    }
+
+    if (!this.originResolver.accepts(event.origin)) {
+      console.warn(`拒绝来自非目标 origin 的握手请求: ${event.origin}`);
+      return;
+    }
+
+    if (!this.originPolicy.isAllowed(event.origin)) {
+      console.warn(`拒绝来自未授权域名的握手请求: ${event.origin}`);
+      return;
+    }
+
+    // Client 在收到 ack 之前会重发 hello，同一会话只建立一次通道
+    if (this.port && this.sessionId === data.sessionId) {
+      return;
+    }
+
+    this.openChannel(data.sessionId, event.origin);
+  };
+
+  /**
+   * 创建新的 MessageChannel，并把端口交给 Client
+   */
+  private openChannel(sessionId: string, origin: string): void {
+    // Client 重新握手（例如 iframe 刷新）时，旧通道作废
+    this.closePort();
+
+    const channel = new MessageChannel();
+    this.port = channel.port1;
+    this.port.onmessage = (event: MessageEvent) => {
+      if (this.onmessage) {
+        this.onmessage(event.data as JSONRPCMessage);
+      }
+      this.emit("message", event.data as JSONRPCMessage);
+    };
+    this.port.onmessageerror = () => {
+      const error = new Error("MessagePort 消息反序列化失败");
+      if (this.onerror) {
+        this.onerror(error);
+      }
+      this.emit("error", error);
+    };
+    this.sessionId = sessionId;
+    this.remoteOrigin = origin;
+
+    const ack: ChannelHandshakeMessage = {
+      type: MCP_CHANNEL_ACK,
+      sessionId,
+      ...(this.channel ? { channel: this.channel } : {}),
+    };
+    // 端口只投递给发起握手的 origin，即使 targetOrigin 为 '*'
+    this.targetWindow!.postMessage(ack, origin, [channel.port2]);
+    this.startSession(origin);
+  }
+
+  /**
+   * 关闭当前端口
+   */
+  private closePort(): void {
+    if (this.port) {
+      this.port.onmessage = null;
+      this.port.onmessageerror = null;
+      this.port.close();
+      this.port = null;
+    }
+  }
+
+  /**
+   * 启动 Transport，开始监听握手请求
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+
+    this.setState("connecting");
+
+    try {
+      this.targetWindow = resolveTargetWindow(this.options.target);
+      window.addEventListener("message", this.handleWindowMessage);
+      this.started = true;
+      this.setState("connected");
+
+      // 目标窗口关闭（弹出窗口被关闭、iframe 被移除）时自动关闭 Transport
+      this.stopWatchingTarget = watchWindowClosed(this.targetWindow, () => {
+        this.close().catch((error) =>
+          console.error("关闭 Transport 失败:", error)
+        );
+      });
+
+      // 通知已在等待的 Client 立即重发 hello
+      const ready: ChannelReadyMessage = {
+        type: MCP_CHANNEL_READY,
+        ...(this.channel ? { channel: this.channel } : {}),
+      };
+      this.targetWindow.postMessage(ready, this.originResolver.resolve());
+    } catch (error) {
+      this.started = false;
+      this.setState("error");
+      const err = error instanceof Error ? error : new Error(String(error));
+      if (this.onerror) {
+        this.onerror(err);
+      }
+      this.emit("error", err);
+      throw error;
+    }
+  }
+
+  /**
+   * 发送消息到 Client
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.started) {
+      throw new Error("Transport 未启动");
+    }
+    if (!this.port) {
+      throw new Error("MessageChannel 尚未建立");
+    }
+
+    try {
+      // 严格模式下每次发送都重新检查目标 origin，iframe 导航到其他 origin 后不再发送
+      if (
+        !this.remoteOrigin ||
+        !this.originResolver.accepts(this.remoteOrigin)
+      ) {
+        throw new Error(
+          `目标窗口的 origin 已变化，拒绝发送消息: ${this.remoteOrigin}`
+        );
+      }
+      const prepared = prepareTransfer(message);
+      this.port.postMessage(prepared.message, prepared.transferables);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      if (this.onerror) {
+        this.onerror(err);
+      }
+      this.emit("error", err);
+      throw error;
+    }
+  }
+
+  /**
+   * 关闭 Transport
+   */
+  async close(): Promise<void> {
+    if (this.stopWatchingTarget) {
+      this.stopWatchingTarget();
+      this.stopWatchingTarget = null;
+    }
+    window.removeEventListener("message", this.handleWindowMessage);
+    this.closePort();
+    this.targetWindow = null;
+    this.remoteOrigin = null;
+    this.sessionId = undefined;
+    this.started = false;
+    this.endSession();
+    this.setState("disconnected");
+
+    if (this.onclose) {
+      this.onclose();
+    }
+    this.emit("close", undefined);
+  }
+}
+
+/**
+ * 创建 MessageChannel Server Transport
+ */
+export function createChannelServerTransport(
+  options: ServerTransportOptions
+): MessageChannelServerTransport {
+  return new MessageChannelServerTransport(options);
+}
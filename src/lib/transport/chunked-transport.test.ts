@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  ErrorCode,
+  type JSONRPCMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ChunkedTransport } from "./chunked-transport.js";
+import { createLoopbackTransportPair } from "./loopback-transport.js";
+import { MCP_CHUNK_METHOD, type ChunkingOptions } from "./types.js";
+
+/**
+ * 发送端使用原始 Transport，接收端包装为 ChunkedTransport
+ */
+async function createReceiver(options: ChunkingOptions) {
+  const pair = createLoopbackTransportPair();
+  const receiver = new ChunkedTransport(pair.server, options);
+  const received: JSONRPCMessage[] = [];
+  const replies: JSONRPCMessage[] = [];
+  const errors: Error[] = [];
+  receiver.onmessage = (message) => received.push(message);
+  receiver.onerror = (error) => errors.push(error);
+  pair.client.onmessage = (message) => replies.push(message);
+  await receiver.start();
+  await pair.client.start();
+  return { sender: pair.client, received, replies, errors };
+}
+
+const chunk = (messageId: string, total = 2, size = 100): JSONRPCMessage => ({
+  jsonrpc: "2.0",
+  method: MCP_CHUNK_METHOD,
+  params: { messageId, index: 0, total, size, checksum: "0", data: "{" },
+});
+
+describe("ChunkedTransport", () => {
+  it("拆分并重组超过分块大小的消息", async () => {
+    const pair = createLoopbackTransportPair();
+    const sender = new ChunkedTransport(pair.client, { chunkSize: 16 });
+    const receiver = new ChunkedTransport(pair.server, { chunkSize: 16 });
+    const received: JSONRPCMessage[] = [];
+    receiver.onmessage = (message) => received.push(message);
+    await receiver.start();
+    await sender.start();
+
+    const message: JSONRPCMessage = {
+      jsonrpc: "2.0",
+      id: 1,
+      result: { text: "x".repeat(100) },
+    };
+    await sender.send(message);
+    await vi.waitFor(() => expect(received).toEqual([message]));
+  });
+
+  it("丢弃超过大小上限的未分块消息", async () => {
+    const { sender, received, errors } = await createReceiver({
+      maxMessageSize: 64,
+    });
+
+    await sender.send({
+      jsonrpc: "2.0",
+      id: 1,
+      result: { text: "x".repeat(100) },
+    });
+    await sender.send({ jsonrpc: "2.0", id: 2, result: {} });
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    expect(received[0]).toMatchObject({ id: 2 });
+    expect(errors[0].message).toContain("超过上限 64");
+  });
+
+  it("包含二进制数据的超大消息同样被丢弃，请求收到错误响应", async () => {
+    const { sender, received, replies, errors } = await createReceiver({
+      maxMessageSize: 64,
+    });
+
+    await sender.send({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/call",
+      params: { text: "x".repeat(100), data: new Uint8Array(1) },
+    });
+    await vi.waitFor(() => expect(replies).toHaveLength(1));
+
+    expect(received).toEqual([]);
+    expect(errors[0].message).toContain("超过上限 64");
+    expect(replies[0]).toMatchObject({
+      id: 1,
+      error: { code: ErrorCode.InvalidRequest },
+    });
+  });
+
+  it("二进制数据按字节数计入大小", async () => {
+    const { sender, received, errors } = await createReceiver({
+      maxMessageSize: 64,
+    });
+
+    await sender.send({
+      jsonrpc: "2.0",
+      method: "notifications/data",
+      params: { data: new Uint8Array(100) },
+    });
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+    expect(received).toEqual([]);
+  });
+
+  it("限制同时重组的消息数", async () => {
+    const { sender, errors } = await createReceiver({
+      maxPendingMessages: 2,
+    });
+
+    await sender.send(chunk("a"));
+    await sender.send(chunk("b"));
+    await sender.send(chunk("a"));
+    await sender.send(chunk("c"));
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+    expect(errors[0].message).toContain("重组中的分块消息数超过上限 2");
+  });
+
+  it("拒绝分块数超过消息大小的分块", async () => {
+    const { sender, errors } = await createReceiver({});
+
+    await sender.send(chunk("a", 1_000_000, 10));
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+    expect(errors[0].message).toContain("序号无效");
+  });
+});
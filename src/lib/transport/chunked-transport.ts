@@ -0,0 +1,378 @@
+/**
+ * 分块传输 Transport 实现
+ */
+
+import type {
+  Transport,
+  TransportSendOptions,
+} from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  type JSONRPCMessage,
+  type JSONRPCNotification,
+  type JSONRPCResponse,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  DEFAULT_CHUNK_SIZE,
+  DEFAULT_CHUNK_TIMEOUT,
+  DEFAULT_MAX_MESSAGE_SIZE,
+  DEFAULT_MAX_PENDING_MESSAGES,
+  MCP_CHUNK_METHOD,
+  type ChunkParams,
+  type ChunkingOptions,
+} from "./types.js";
+import { delay, generateSessionId, getPeerOrigin } from "./utils.js";
+import { hasBinaryData, measureMessageSize, supportsBinary } from "./binary.js";
+
+/**
+ * 重组中的消息
+ */
+interface PendingMessage {
+  total: number;
+  size: number;
+  checksum: string;
+  chunks: Array<string | undefined>;
+  received: number;
+  length: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * 计算字符串的校验和（FNV-1a 32 位）
+ */
+function computeChecksum(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * 检查分块参数格式
+ */
+function isChunkParams(value: unknown): value is ChunkParams {
+  const params = value as Partial<ChunkParams> | null;
+  return (
+    !!params &&
+    typeof params.messageId === "string" &&
+    Number.isInteger(params.index) &&
+    Number.isInteger(params.total) &&
+    Number.isInteger(params.size) &&
+    typeof params.checksum === "string" &&
+    typeof params.data === "string"
+  );
+}
+
+/**
+ * 分块传输 Transport
+ *
+ * 包装任意 Transport：序列化后超过 chunkSize 的消息被拆分为编号的分块通知依次发送，
+ * 接收端按序号重组并校验大小与校验和后再交给上层。未超过大小的消息原样透传。
+ * 包含二进制数据的消息无法序列化为 JSON，同样原样透传，大小按二进制字节数加其余部分的 JSON 长度计算。
+ * 接收时超过 maxMessageSize 的消息、超出 maxPendingMessages 的重组都会被丢弃并通过 onerror 上报，
+ * 被丢弃的未分块请求会收到错误响应。
+ *
+ * @example
+ * ```ts
+ * const transport = new ChunkedTransport(
+ *   new PostMessageServerTransport({ target: iframe }),
+ *   { chunkSize: 128 * 1024 }
+ * );
+ * await server.connect(transport);
+ * ```
+ */
+export class ChunkedTransport implements Transport {
+  private inner: Transport;
+  private chunkSize: number;
+  private maxMessageSize: number;
+  private chunkTimeout: number;
+  private maxPendingMessages: number;
+  private pending: Map<string, PendingMessage> = new Map();
+
+  onmessage?: (message: JSONRPCMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+
+  constructor(inner: Transport, options: ChunkingOptions = {}) {
+    this.inner = inner;
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.maxMessageSize = options.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE;
+    this.chunkTimeout = options.chunkTimeout ?? DEFAULT_CHUNK_TIMEOUT;
+    this.maxPendingMessages =
+      options.maxPendingMessages ?? DEFAULT_MAX_PENDING_MESSAGES;
+
+    if (!(this.chunkSize > 0)) {
+      throw new Error(`分块大小必须大于 0: ${this.chunkSize}`);
+    }
+
+    this.inner.onmessage = this.handleInnerMessage;
+    this.inner.onerror = (error) => {
+      if (this.onerror) {
+        this.onerror(error);
+      }
+    };
+    this.inner.onclose = () => {
+      this.clearPending();
+      if (this.onclose) {
+        this.onclose();
+      }
+    };
+  }
+
+  /**
+   * 内层 Transport 的会话 ID
+   */
+  get sessionId(): string | undefined {
+    return this.inner.sessionId;
+  }
+
+  /**
+   * 内层 Transport 是否支持直接传输二进制数据
+   */
+  get supportsBinary(): boolean {
+    return supportsBinary(this.inner);
+  }
+
+  /**
+   * 内层 Transport 对端的 origin
+   */
+  get peerOrigin(): string | undefined {
+    return getPeerOrigin(this.inner);
+  }
+
+  /**
+   * 设置协商的协议版本（转发给内层 Transport）
+   */
+  setProtocolVersion(version: string): void {
+    this.inner.setProtocolVersion?.(version);
+  }
+
+  /**
+   * 处理内层 Transport 收到的消息
+   */
+  private handleInnerMessage = (message: JSONRPCMessage): void => {
+    try {
+      if ("method" in message && message.method === MCP_CHUNK_METHOD) {
+        const complete = this.acceptChunk(message.params);
+        if (complete && this.onmessage) {
+          this.onmessage(complete);
+        }
+        return;
+      }
+
+      // 未分块的消息同样受大小上限约束，避免对端绕过分块直接发送超大消息
+      const size = measureMessageSize(message);
+      if (size > this.maxMessageSize) {
+        const reason = `收到的消息大小 ${size} 超过上限 ${this.maxMessageSize}`;
+        if ("method" in message && "id" in message) {
+          this.rejectRequest(message.id, reason);
+        }
+        throw new Error(reason);
+      }
+      if (this.onmessage) {
+        this.onmessage(message);
+      }
+    } catch (error) {
+      if (this.onerror) {
+        this.onerror(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  };
+
+  /**
+   * 向被丢弃的请求回复错误，避免对端一直等到超时
+   */
+  private rejectRequest(id: JSONRPCResponse["id"], message: string): void {
+    const response = {
+      jsonrpc: "2.0",
+      id,
+      error: { code: ErrorCode.InvalidRequest, message },
+    } as JSONRPCResponse;
+    this.inner.send(response).catch((error) => {
+      if (this.onerror) {
+        this.onerror(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  /**
+   * 接收一个分块
+   * @returns 收齐所有分块时返回重组后的消息
+   */
+  private acceptChunk(params: unknown): JSONRPCMessage | null {
+    if (!isChunkParams(params)) {
+      throw new Error("分块格式无效");
+    }
+
+    const { messageId, index, total, size, checksum, data } = params;
+
+    if (size > this.maxMessageSize) {
+      this.dropPending(messageId);
+      throw new Error(
+        `分块消息 ${messageId} 大小 ${size} 超过上限 ${this.maxMessageSize}`
+      );
+    }
+    // 每个分块至少一个字符，分块数不会超过消息大小
+    if (total < 1 || total > Math.max(size, 1) || index < 0 || index >= total) {
+      this.dropPending(messageId);
+      throw new Error(`分块消息 ${messageId} 序号无效: ${index}/${total}`);
+    }
+
+    let entry = this.pending.get(messageId);
+    if (!entry) {
+      if (this.pending.size >= this.maxPendingMessages) {
+        throw new Error(
+          `重组中的分块消息数超过上限 ${this.maxPendingMessages}，已丢弃分块消息 ${messageId}`
+        );
+      }
+      entry = {
+        total,
+        size,
+        checksum,
+        chunks: new Array<string | undefined>(total),
+        received: 0,
+        length: 0,
+        timer: setTimeout(() => {
+          this.dropPending(messageId);
+          if (this.onerror) {
+            this.onerror(
+              new Error(`分块消息 ${messageId} 在 ${this.chunkTimeout}ms 内未收齐`)
+            );
+          }
+        }, this.chunkTimeout),
+      };
+      this.pending.set(messageId, entry);
+    } else if (
+      entry.total !== total ||
+      entry.size !== size ||
+      entry.checksum !== checksum
+    ) {
+      this.dropPending(messageId);
+      throw new Error(`分块消息 ${messageId} 的分块信息不一致`);
+    }
+
+    // 重复的分块直接忽略
+    if (entry.chunks[index] !== undefined) {
+      return null;
+    }
+
+    entry.chunks[index] = data;
+    entry.received++;
+    entry.length += data.length;
+
+    if (entry.length > entry.size) {
+      this.dropPending(messageId);
+      throw new Error(`分块消息 ${messageId} 数据超出声明的大小 ${size}`);
+    }
+
+    if (entry.received < entry.total) {
+      return null;
+    }
+
+    this.dropPending(messageId);
+    const json = entry.chunks.join("");
+    if (json.length !== entry.size || computeChecksum(json) !== entry.checksum) {
+      throw new Error(`分块消息 ${messageId} 校验失败`);
+    }
+
+    return JSON.parse(json) as JSONRPCMessage;
+  }
+
+  /**
+   * 丢弃重组中的消息
+   */
+  private dropPending(messageId: string): void {
+    const entry = this.pending.get(messageId);
+    if (entry) {
+      clearTimeout(entry.timer);
+      this.pending.delete(messageId);
+    }
+  }
+
+  /**
+   * 丢弃所有重组中的消息
+   */
+  private clearPending(): void {
+    for (const entry of this.pending.values()) {
+      clearTimeout(entry.timer);
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * 启动内层 Transport
+   */
+  async start(): Promise<void> {
+    await this.inner.start();
+  }
+
+  /**
+   * 发送消息，超过分块大小时拆分发送
+   */
+  async send(
+    message: JSONRPCMessage,
+    options?: TransportSendOptions
+  ): Promise<void> {
+    if (hasBinaryData(message)) {
+      await this.inner.send(message, options);
+      return;
+    }
+
+    const json = JSON.stringify(message);
+    if (json.length > this.maxMessageSize) {
+      throw new Error(
+        `消息大小 ${json.length} 超过上限 ${this.maxMessageSize}`
+      );
+    }
+
+    if (json.length <= this.chunkSize) {
+      await this.inner.send(message, options);
+      return;
+    }
+
+    const messageId = generateSessionId();
+    const total = Math.ceil(json.length / this.chunkSize);
+    const checksum = computeChecksum(json);
+
+    for (let index = 0; index < total; index++) {
+      const chunk: JSONRPCNotification = {
+        jsonrpc: "2.0",
+        method: MCP_CHUNK_METHOD,
+        params: {
+          messageId,
+          index,
+          total,
+          size: json.length,
+          checksum,
+          data: json.slice(index * this.chunkSize, (index + 1) * this.chunkSize),
+        } satisfies ChunkParams,
+      };
+      await this.inner.send(chunk, options);
+
+      // 分块之间让出主线程，避免长时间阻塞
+      if (index < total - 1) {
+        await delay(0);
+      }
+    }
+  }
+
+  /**
+   * 关闭内层 Transport
+   */
+  async close(): Promise<void> {
+    this.clearPending();
+    await this.inner.close();
+  }
+}
+
+/**
+ * 创建分块传输 Transport
+ */
+export function createChunkedTransport(
+  inner: Transport,
+  options?: ChunkingOptions
+): ChunkedTransport {
+  return new ChunkedTransport(inner, options);
+}
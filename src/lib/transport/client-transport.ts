@@ -5,7 +5,26 @@
 import * as postRobot from "post-robot";
 import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
-import { MCP_MESSAGE_EVENT, type ClientTransportOptions } from "./types.js";
+import {
+  DEFAULT_HANDSHAKE_RETRIES,
+  DEFAULT_HANDSHAKE_TIMEOUT,
+  MCP_HANDSHAKE_EVENT,
+  MCP_MESSAGE_EVENT,
+  type ClientTransportOptions,
+  type HandshakeAck,
+} from "./types.js";
+import {
+  delay,
+  getChannelEventName,
+  watchWindowClosed,
+} from "./utils.js";
+import { OriginPolicy, TargetOriginResolver } from "./origin-policy.js";
+import { TransportEventEmitter } from "./events.js";
+
+/**
+ * 握手尝试快速失败（如对端尚无监听器）后，重试前的等待时间（毫秒）
+ */
+const HANDSHAKE_RETRY_DELAY = 100;
 
 /**
  * 基于 PostMessage 的 Client Transport
@@ -15,66 +34,101 @@ import { MCP_MESSAGE_EVENT, type ClientTransportOptions } from "./types.js";
  * 1. 默认模式：Client 在 iframe 中运行，与父窗口的 Server 通信
  * 2. 反向模式：Client 在主页面中运行，与 iframe 中的 Server 通信（通过指定 target）
  */
-export class PostMessageClientTransport implements Transport {
+export class PostMessageClientTransport
+  extends TransportEventEmitter
+  implements Transport
+{
   private targetWindow: Window;
-  private targetOrigin: string;
-  private allowedOrigins: string[] | undefined;
+  private targetOrigin = "*";
+  private originPolicy: OriginPolicy;
+  private originResolver: TargetOriginResolver;
+  private remoteOrigin: string | null = null;
+  private messageEvent: string;
+  private handshakeEvent: string;
   private listener: ReturnType<typeof postRobot.on> | null = null;
   private started = false;
+  private stopWatchingTarget: (() => void) | null = null;
   private isReverseMode = false;
+  private handshakeTimeout: number;
+  private handshakeRetries: number;
 
   onmessage?: (message: JSONRPCMessage) => void;
   onerror?: (error: Error) => void;
   onclose?: () => void;
 
   constructor(options: ClientTransportOptions = {}) {
+    super();
     // 支持新的 target 参数，同时兼容旧的 parent 参数
     this.targetWindow = options.target ?? options.parent ?? window.parent;
-    this.targetOrigin = options.targetOrigin ?? "*";
-    this.allowedOrigins = options.allowedOrigins;
+    this.originPolicy = new OriginPolicy(options);
+    this.originResolver = new TargetOriginResolver(
+      this.targetWindow,
+      options,
+      this.originPolicy
+    );
+    this.messageEvent = getChannelEventName(MCP_MESSAGE_EVENT, options.channel);
+    this.handshakeEvent = getChannelEventName(
+      MCP_HANDSHAKE_EVENT,
+      options.channel
+    );
+    this.handshakeTimeout = options.handshakeTimeout ?? DEFAULT_HANDSHAKE_TIMEOUT;
+    this.handshakeRetries = options.handshakeRetries ?? DEFAULT_HANDSHAKE_RETRIES;
     // 如果明确指定了 target，则为反向模式
     this.isReverseMode = !!(options.target && options.target !== window.parent);
   }
 
   /**
-   * 检查 origin 是否在白名单中
+   * 对端窗口的 origin，尚未收到对端消息时为 undefined
    */
-  private isOriginAllowed(origin: string): boolean {
-    // 如果未配置白名单，允许所有
-    if (!this.allowedOrigins || this.allowedOrigins.length === 0) {
-      return true;
-    }
+  get peerOrigin(): string | undefined {
+    return this.remoteOrigin ?? undefined;
+  }
 
-    for (const allowed of this.allowedOrigins) {
-      // 精确匹配
-      if (allowed === origin) {
-        return true;
-      }
+  /**
+   * 与 Server 握手，确认对端已开始监听
+   * @returns Server 所在窗口的 origin
+   */
+  private async handshake(): Promise<string> {
+    const attempts = this.handshakeRetries + 1;
+    let lastError: unknown;
 
-      // 通配符匹配 (*.example.com)
-      if (allowed.startsWith("*.")) {
-        const domain = allowed.slice(2);
-        if (origin.endsWith(domain) || origin.endsWith("." + domain)) {
-          return true;
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      let response: Awaited<ReturnType<typeof postRobot.send>>;
+      try {
+        response = await postRobot.send(
+          this.targetWindow,
+          this.handshakeEvent,
+          {},
+          { domain: this.targetOrigin, timeout: this.handshakeTimeout }
+        );
+      } catch (error) {
+        // Server 尚未监听或未在超时时间内响应，稍后重试
+        lastError = error;
+        if (attempt < attempts) {
+          await delay(HANDSHAKE_RETRY_DELAY);
         }
+        continue;
       }
 
-      // 通配符匹配 (https://*.example.com)
-      if (allowed.includes("://*.")) {
-        const [protocol, rest] = allowed.split("://");
-        if (rest.startsWith("*.")) {
-          const domain = rest.slice(2);
-          if (
-            origin.startsWith(protocol + "://") &&
-            (origin.endsWith(domain) || origin.endsWith("." + domain))
-          ) {
-            return true;
-          }
-        }
+      if (
+        !this.originPolicy.isAllowed(response.origin) ||
+        !this.originResolver.accepts(response.origin)
+      ) {
+        throw new Error(`MCP 握手被拒绝: 未授权的 Server 域名 ${response.origin}`);
+      }
+
+      const ack = response.data as HandshakeAck;
+      if (!ack.ready) {
+        throw new Error(`MCP 握手被拒绝: ${ack.error ?? "未知原因"}`);
       }
+      return response.origin;
     }
 
-    return false;
+    const reason =
+      lastError instanceof Error ? lastError.message : String(lastError);
+    throw new Error(
+      `MCP 握手失败：Server 在 ${attempts} 次尝试后仍未响应（${reason}）`
+    );
   }
 
   /**
@@ -102,17 +156,21 @@ export class PostMessageClientTransport implements Transport {
       this.listener = null;
     }
 
-    // 等待一小段时间，确保目标窗口的 Server 已经准备好监听
-    await new Promise((resolve) => setTimeout(resolve, 100));
+    this.setState("connecting");
 
     try {
+      this.targetOrigin = this.originResolver.resolve();
+
       // 监听来自 Server 的消息
       this.listener = postRobot.on(
-        MCP_MESSAGE_EVENT,
+        this.messageEvent,
         { window: this.targetWindow, domain: this.targetOrigin },
         ({ origin, data }) => {
-          // 检查 origin 白名单
-          if (!this.isOriginAllowed(origin)) {
+          // 检查 origin 白名单，严格模式下还要求来自当前的目标 origin
+          if (
+            !this.originPolicy.isAllowed(origin) ||
+            !this.originResolver.accepts(origin)
+          ) {
             console.warn(`拒绝来自未授权域名的消息: ${origin}`);
             return Promise.resolve({
               received: false,
@@ -120,19 +178,40 @@ export class PostMessageClientTransport implements Transport {
             });
           }
 
+          this.remoteOrigin = origin;
           if (this.onmessage) {
             this.onmessage(data as JSONRPCMessage);
           }
+          this.emit("message", data as JSONRPCMessage);
           return Promise.resolve({ received: true });
         }
       );
 
+      // 确认 Server 已开始监听后才允许发送消息
+      const origin = await this.handshake();
+
       this.started = true;
+      this.setState("connected");
+      this.startSession(origin);
+
+      // 目标窗口关闭（弹出窗口被关闭、iframe 被移除）时自动关闭 Transport
+      this.stopWatchingTarget = watchWindowClosed(this.targetWindow, () => {
+        this.close().catch((error) =>
+          console.error("关闭 Transport 失败:", error)
+        );
+      });
     } catch (error) {
       this.started = false;
+      this.setState("error");
+      if (this.listener) {
+        this.listener.cancel();
+        this.listener = null;
+      }
+      const err = error instanceof Error ? error : new Error(String(error));
       if (this.onerror) {
-        this.onerror(error instanceof Error ? error : new Error(String(error)));
+        this.onerror(err);
       }
+      this.emit("error", err);
       throw error;
     }
   }
@@ -146,13 +225,16 @@ export class PostMessageClientTransport implements Transport {
     }
 
     try {
-      await postRobot.send(this.targetWindow, MCP_MESSAGE_EVENT, message, {
-        domain: this.targetOrigin,
+      // 严格模式下每次发送都重新确定目标 origin，iframe 导航到其他 origin 后不会误发
+      await postRobot.send(this.targetWindow, this.messageEvent, message, {
+        domain: this.originResolver.resolve(),
       });
     } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
       if (this.onerror) {
-        this.onerror(error instanceof Error ? error : new Error(String(error)));
+        this.onerror(err);
       }
+      this.emit("error", err);
       throw error;
     }
   }
@@ -161,15 +243,23 @@ export class PostMessageClientTransport implements Transport {
    * 关闭 Transport
    */
   async close(): Promise<void> {
+    if (this.stopWatchingTarget) {
+      this.stopWatchingTarget();
+      this.stopWatchingTarget = null;
+    }
     if (this.listener) {
       this.listener.cancel();
       this.listener = null;
     }
+    this.remoteOrigin = null;
     this.started = false;
+    this.endSession();
+    this.setState("disconnected");
 
     if (this.onclose) {
       this.onclose();
     }
+    this.emit("close", undefined);
   }
 }
 
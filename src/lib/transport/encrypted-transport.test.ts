@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from "vitest";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { EncryptedTransport } from "./encrypted-transport.js";
+import { createLoopbackTransportPair } from "./loopback-transport.js";
+import { MCP_KEY_EXCHANGE_METHOD, type EncryptionOptions } from "./types.js";
+
+const ping = (id: number): JSONRPCMessage => ({
+  jsonrpc: "2.0",
+  id,
+  method: "ping",
+});
+
+/**
+ * 建立加密通道，记录 Client 端发出的原始消息
+ */
+async function createEncryptedPair(options: EncryptionOptions = {}) {
+  const pair = createLoopbackTransportPair();
+  const sent: JSONRPCMessage[] = [];
+  const send = pair.client.send.bind(pair.client);
+  pair.client.send = (message) => {
+    sent.push(message);
+    return send(message);
+  };
+
+  const server = new EncryptedTransport(pair.server, "server", options);
+  const client = new EncryptedTransport(pair.client, "client", options);
+  const received: JSONRPCMessage[] = [];
+  const errors: Error[] = [];
+  server.onmessage = (message) => received.push(message);
+  server.onerror = (error) => errors.push(error);
+  await server.start();
+  await client.start();
+  return { pair, server, client, sent, received, errors };
+}
+
+describe("EncryptedTransport", () => {
+  it("协商密钥后加密传输消息", async () => {
+    const { client, sent, received } = await createEncryptedPair({
+      secret: "shared-secret",
+    });
+
+    await client.send(ping(1));
+    await vi.waitFor(() => expect(received).toEqual([ping(1)]));
+    expect(JSON.stringify(sent)).not.toContain('"method":"ping"');
+  });
+
+  it("密钥交换签名覆盖随机数", async () => {
+    const { sent } = await createEncryptedPair({ secret: "shared-secret" });
+    const exchange = sent[0] as { params: Record<string, unknown> };
+    expect(exchange.params).toMatchObject({
+      nonce: expect.any(String),
+      signature: expect.any(String),
+    });
+  });
+
+  it("同一会话中已建立密钥时拒绝新的密钥交换", async () => {
+    const { pair, client, sent, received, errors } =
+      await createEncryptedPair();
+
+    // 伪造者发送自己的公钥，试图替换正在使用的密钥
+    const forged = sent[0] as { params: Record<string, unknown> };
+    await pair.client.send({
+      jsonrpc: "2.0",
+      method: MCP_KEY_EXCHANGE_METHOD,
+      params: { ...forged.params, nonce: "forged" },
+    });
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+    expect(errors[0].message).toContain("拒绝重新协商密钥");
+
+    await client.send(ping(1));
+    await vi.waitFor(() => expect(received).toEqual([ping(1)]));
+  });
+
+  it("内层会话变化后可以重新协商密钥", async () => {
+    const { pair, received } = await createEncryptedPair();
+
+    // 对端重新握手后由新的 Client 发起密钥交换
+    Object.assign(pair.server, { sessionId: "new-session" });
+    const client = new EncryptedTransport(pair.client, "client");
+    await client.start();
+    await client.send(ping(2));
+    await vi.waitFor(() => expect(received).toEqual([ping(2)]));
+  });
+
+  it("内层会话变化后拒绝重放旧的密钥交换消息", async () => {
+    const { pair, sent, errors } = await createEncryptedPair({
+      secret: "shared-secret",
+    });
+
+    Object.assign(pair.server, { sessionId: "new-session" });
+    await pair.client.send(sent[0]);
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+    expect(errors[0].message).toContain("拒绝重放");
+  });
+
+  it("secret 不一致时密钥交换失败", async () => {
+    const pair = createLoopbackTransportPair();
+    const server = new EncryptedTransport(pair.server, "server", {
+      secret: "a",
+    });
+    const client = new EncryptedTransport(pair.client, "client", {
+      secret: "b",
+      keyExchangeTimeout: 50,
+    });
+    const errors: Error[] = [];
+    server.onerror = (error) => errors.push(error);
+    await server.start();
+
+    await expect(client.start()).rejects.toThrow("密钥交换超时");
+    expect(errors[0].message).toContain("签名校验失败");
+  });
+});
@@ -0,0 +1,562 @@
+/**
+ * 端到端加密 Transport 实现
+ */
+
+import type {
+  Transport,
+  TransportSendOptions,
+} from "@modelcontextprotocol/sdk/shared/transport.js";
+import type {
+  JSONRPCMessage,
+  JSONRPCNotification,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  DEFAULT_KEY_EXCHANGE_TIMEOUT,
+  MCP_ENCRYPTED_METHOD,
+  MCP_KEY_EXCHANGE_METHOD,
+  type EncryptedParams,
+  type EncryptionOptions,
+  type KeyExchangeParams,
+} from "./types.js";
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  hasBinaryData,
+  supportsBinary,
+} from "./binary.js";
+import { signChallenge, verifyChallenge, type HmacSecret } from "./auth.js";
+import { TransportEventEmitter } from "./events.js";
+import { getPeerOrigin } from "./utils.js";
+
+/**
+ * 加密通道中的角色
+ * Client 发起密钥交换，Server 响应；角色同时作为 AES-GCM 的附加数据，防止消息被反射回发送方
+ */
+export type EncryptionRole = "client" | "server";
+
+/**
+ * ECDH 密钥参数
+ */
+const ECDH_PARAMS: EcKeyGenParams = { name: "ECDH", namedCurve: "P-256" };
+
+/**
+ * AES-GCM 初始向量长度（字节）
+ */
+const IV_LENGTH = 12;
+
+/**
+ * 密钥交换随机数长度（字节）
+ */
+const NONCE_LENGTH = 16;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * 等待中的密钥交换
+ */
+interface PendingExchange {
+  keyPair: CryptoKeyPair;
+  nonce: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * 生成 ECDH 密钥对
+ */
+function generateKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(ECDH_PARAMS, false, ["deriveKey"]);
+}
+
+/**
+ * 由本端私钥与对端公钥协商 AES-GCM 密钥
+ */
+function deriveKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey
+): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    { name: "ECDH", public: publicKey },
+    privateKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * 公钥签名的内容，包含发送方角色与本次交换的随机数
+ */
+function keySignaturePayload(
+  role: EncryptionRole,
+  nonce: string,
+  publicKey: string
+): string {
+  return `key-exchange:${role}:${nonce}:${publicKey}`;
+}
+
+/**
+ * 检查密钥交换参数格式
+ */
+function isKeyExchangeParams(value: unknown): value is KeyExchangeParams {
+  const params = value as Partial<KeyExchangeParams> | null;
+  return (
+    !!params &&
+    typeof params.publicKey === "string" &&
+    typeof params.nonce === "string" &&
+    (params.signature === undefined || typeof params.signature === "string")
+  );
+}
+
+/**
+ * 检查加密消息参数格式
+ */
+function isEncryptedParams(value: unknown): value is EncryptedParams {
+  const params = value as Partial<EncryptedParams> | null;
+  return (
+    !!params &&
+    typeof params.iv === "string" &&
+    (typeof params.data === "string" || params.data instanceof ArrayBuffer)
+  );
+}
+
+/**
+ * 端到端加密 Transport
+ *
+ * 包装任意 Transport：启动时通过 ECDH（P-256）协商密钥，之后每条 JSON-RPC 消息都使用
+ * AES-GCM 加密后以通知形式发送，中间的转发窗口或窗口上的其他脚本只能看到密文。
+ * 每条消息使用随机初始向量并携带递增序号，重放或乱序的消息会被丢弃。
+ * Server 端在内层 Transport 的每个会话中只接受一次密钥交换，已建立密钥后对端重新握手才能重新协商；
+ * 签名覆盖 Client 生成的随机数，重放的密钥交换消息会被拒绝。
+ * 对 McpServer 与 McpClient 透明，可与分块传输组合使用。
+ *
+ * 未配置 secret 时只能防御被动窃听；转发窗口可以主动替换公钥时，需要双方配置相同的 secret。
+ *
+ * @example
+ * ```ts
+ * // 通常通过 connect 的 encryption 配置启用
+ * await server.connect(iframe, { encryption: { secret: sharedSecret } });
+ * await client.connect({ encryption: { secret: sharedSecret } });
+ *
+ * // 也可以直接包装自定义 Transport
+ * const transport = new EncryptedTransport(inner, "client");
+ * ```
+ */
+export class EncryptedTransport implements Transport {
+  private inner: Transport;
+  private role: EncryptionRole;
+  private secret: HmacSecret | undefined;
+  private keyExchangeTimeout: number;
+  private key: CryptoKey | null = null;
+  private sendSeq = 0;
+  private receiveSeq = 0;
+  private sending: Promise<void> = Promise.resolve();
+  private receiving: Promise<void> = Promise.resolve();
+  private pendingExchange: PendingExchange | null = null;
+  /**
+   * 内层 Transport 开始新会话的次数（仅 TransportEventEmitter 会通知）
+   */
+  private innerSessions = 0;
+  /**
+   * 建立当前密钥时内层 Transport 的会话
+   */
+  private keySession: string | null = null;
+  /**
+   * Server 端已接受过的 Client 随机数
+   */
+  private usedNonces: Set<string> = new Set();
+
+  onmessage?: (message: JSONRPCMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+
+  constructor(
+    inner: Transport,
+    role: EncryptionRole,
+    options: EncryptionOptions = {}
+  ) {
+    if (typeof crypto === "undefined" || !crypto.subtle) {
+      throw new Error("当前环境不支持 WebCrypto，无法启用加密传输");
+    }
+
+    this.inner = inner;
+    this.role = role;
+    this.secret = options.secret;
+    this.keyExchangeTimeout =
+      options.keyExchangeTimeout ?? DEFAULT_KEY_EXCHANGE_TIMEOUT;
+
+    this.inner.onmessage = (message) => {
+      // 解密是异步的，按接收顺序串行处理，保证消息顺序
+      this.receiving = this.receiving
+        .then(() => this.handleInnerMessage(message))
+        .catch((error) => this.reportError(error));
+    };
+    this.inner.onerror = (error) => this.reportError(error);
+    // 对端重新握手（如 iframe 刷新）时开始新会话，允许重新协商密钥
+    if (this.inner instanceof TransportEventEmitter) {
+      this.inner.on("sessionStart", () => {
+        this.innerSessions++;
+      });
+    }
+    this.inner.onclose = () => {
+      this.reset();
+      const pending = this.pendingExchange;
+      if (pending) {
+        this.pendingExchange = null;
+        pending.reject(new Error("密钥交换未完成，连接已关闭"));
+      }
+      if (this.onclose) {
+        this.onclose();
+      }
+    };
+  }
+
+  /**
+   * 内层 Transport 的会话 ID
+   */
+  get sessionId(): string | undefined {
+    return this.inner.sessionId;
+  }
+
+  /**
+   * 消息需要序列化后加密，不直接传输二进制数据（对端会收到 base64）
+   */
+  get supportsBinary(): boolean {
+    return false;
+  }
+
+  /**
+   * 内层 Transport 对端的 origin
+   */
+  get peerOrigin(): string | undefined {
+    return getPeerOrigin(this.inner);
+  }
+
+  /**
+   * 设置协商的协议版本（转发给内层 Transport）
+   */
+  setProtocolVersion(version: string): void {
+    this.inner.setProtocolVersion?.(version);
+  }
+
+  /**
+   * 对端角色
+   */
+  private get peerRole(): EncryptionRole {
+    return this.role === "client" ? "server" : "client";
+  }
+
+  /**
+   * 上报错误
+   */
+  private reportError(error: unknown): void {
+    if (this.onerror) {
+      this.onerror(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * 内层 Transport 当前会话的标识，会话 ID 变化或重新握手后不同
+   */
+  private get innerSession(): string {
+    return `${this.inner.sessionId ?? ""}#${this.innerSessions}`;
+  }
+
+  /**
+   * 清除协商的密钥与序号
+   */
+  private reset(): void {
+    this.key = null;
+    this.keySession = null;
+    this.sendSeq = 0;
+    this.receiveSeq = 0;
+  }
+
+  /**
+   * 处理内层 Transport 收到的消息
+   */
+  private async handleInnerMessage(message: JSONRPCMessage): Promise<void> {
+    const method = "method" in message ? message.method : undefined;
+
+    if (method === MCP_KEY_EXCHANGE_METHOD && "params" in message) {
+      await this.handleKeyExchange(message.params);
+      return;
+    }
+
+    if (method !== MCP_ENCRYPTED_METHOD || !("params" in message)) {
+      throw new Error("拒绝未加密的消息");
+    }
+
+    const decrypted = await this.decrypt(message.params);
+    if (this.onmessage) {
+      this.onmessage(decrypted);
+    }
+  }
+
+  /**
+   * 处理对端发送的公钥
+   */
+  private async handleKeyExchange(params: unknown): Promise<void> {
+    if (!isKeyExchangeParams(params)) {
+      throw new Error("密钥交换消息格式无效");
+    }
+
+    if (this.role === "server") {
+      // 同一会话中已建立密钥时拒绝，避免伪造或重放的消息替换正在使用的密钥
+      if (this.key && this.keySession === this.innerSession) {
+        throw new Error("当前会话已建立加密通道，拒绝重新协商密钥");
+      }
+      if (this.usedNonces.has(params.nonce)) {
+        throw new Error("拒绝重放的密钥交换消息");
+      }
+    } else if (
+      !this.pendingExchange ||
+      this.pendingExchange.nonce !== params.nonce
+    ) {
+      // 非本端发起的密钥交换，忽略
+      return;
+    }
+
+    if (this.secret !== undefined) {
+      const valid =
+        params.signature !== undefined &&
+        (await verifyChallenge(
+          this.secret,
+          keySignaturePayload(this.peerRole, params.nonce, params.publicKey),
+          params.signature
+        ));
+      if (!valid) {
+        throw new Error("密钥交换签名校验失败");
+      }
+    }
+
+    const peerKey = await crypto.subtle.importKey(
+      "raw",
+      base64ToArrayBuffer(params.publicKey),
+      ECDH_PARAMS,
+      false,
+      []
+    );
+
+    if (this.role === "server") {
+      // Client 每次连接（包括页面刷新后重新握手）都会发起新的密钥交换，替换旧密钥
+      const keyPair = await generateKeyPair();
+      this.usedNonces.add(params.nonce);
+      this.reset();
+      this.key = await deriveKey(keyPair.privateKey, peerKey);
+      this.keySession = this.innerSession;
+      await this.sendPublicKey(keyPair.publicKey, params.nonce);
+      return;
+    }
+
+    const pending = this.pendingExchange;
+    if (!pending) {
+      return;
+    }
+    this.pendingExchange = null;
+    this.reset();
+    this.key = await deriveKey(pending.keyPair.privateKey, peerKey);
+    this.keySession = this.innerSession;
+    pending.resolve();
+  }
+
+  /**
+   * 发送本端公钥
+   * @param nonce - 本次密钥交换的随机数，Client 生成，Server 原样带回
+   */
+  private async sendPublicKey(
+    publicKey: CryptoKey,
+    nonce: string
+  ): Promise<void> {
+    const raw = arrayBufferToBase64(
+      await crypto.subtle.exportKey("raw", publicKey)
+    );
+    const params: KeyExchangeParams = { publicKey: raw, nonce };
+    if (this.secret !== undefined) {
+      params.signature = await signChallenge(
+        this.secret,
+        keySignaturePayload(this.role, nonce, raw)
+      );
+    }
+
+    const notification: JSONRPCNotification = {
+      jsonrpc: "2.0",
+      method: MCP_KEY_EXCHANGE_METHOD,
+      params: { ...params },
+    };
+    await this.inner.send(notification);
+  }
+
+  /**
+   * 发起密钥交换并等待对端公钥（Client 端）
+   */
+  private async exchangeKeys(): Promise<void> {
+    const keyPair = await generateKeyPair();
+    const nonce = arrayBufferToBase64(
+      crypto.getRandomValues(new Uint8Array(NONCE_LENGTH))
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        if (this.pendingExchange === pending) {
+          this.pendingExchange = null;
+          reject(new Error(`密钥交换超时（${this.keyExchangeTimeout}ms）`));
+        }
+      }, this.keyExchangeTimeout);
+
+      const pending: PendingExchange = {
+        keyPair,
+        nonce,
+        resolve: () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+      this.pendingExchange = pending;
+
+      this.sendPublicKey(keyPair.publicKey, nonce).catch((error) => {
+        if (this.pendingExchange === pending) {
+          this.pendingExchange = null;
+          pending.reject(
+            error instanceof Error ? error : new Error(String(error))
+          );
+        }
+      });
+    });
+  }
+
+  /**
+   * 解密消息并校验序号
+   */
+  private async decrypt(params: unknown): Promise<JSONRPCMessage> {
+    if (!this.key) {
+      throw new Error("加密通道尚未建立，丢弃加密消息");
+    }
+    if (!isEncryptedParams(params)) {
+      throw new Error("加密消息格式无效");
+    }
+
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: base64ToArrayBuffer(params.iv),
+          additionalData: encoder.encode(this.peerRole),
+        },
+        this.key,
+        typeof params.data === "string"
+          ? base64ToArrayBuffer(params.data)
+          : params.data
+      );
+    } catch {
+      throw new Error("加密消息解密失败");
+    }
+
+    const { seq, message } = JSON.parse(decoder.decode(plaintext)) as {
+      seq: number;
+      message: JSONRPCMessage;
+    };
+    if (seq !== this.receiveSeq + 1) {
+      throw new Error(
+        `加密消息序号异常: 期望 ${this.receiveSeq + 1}，收到 ${seq}`
+      );
+    }
+    this.receiveSeq = seq;
+    return message;
+  }
+
+  /**
+   * 加密并发送消息
+   */
+  private async encryptAndSend(
+    message: JSONRPCMessage,
+    options?: TransportSendOptions
+  ): Promise<void> {
+    if (!this.key) {
+      throw new Error("加密通道尚未建立");
+    }
+
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+      {
+        name: "AES-GCM",
+        iv,
+        additionalData: encoder.encode(this.role),
+      },
+      this.key,
+      encoder.encode(JSON.stringify({ seq: ++this.sendSeq, message }))
+    );
+
+    const params: EncryptedParams = {
+      iv: arrayBufferToBase64(iv),
+      // 支持二进制的 Transport 直接转移密文，避免 base64 膨胀
+      data: supportsBinary(this.inner)
+        ? ciphertext
+        : arrayBufferToBase64(ciphertext),
+    };
+    const notification: JSONRPCNotification = {
+      jsonrpc: "2.0",
+      method: MCP_ENCRYPTED_METHOD,
+      params: { ...params },
+    };
+    await this.inner.send(notification, options);
+  }
+
+  /**
+   * 启动内层 Transport，Client 端随后完成密钥交换
+   */
+  async start(): Promise<void> {
+    await this.inner.start();
+
+    if (this.role === "client") {
+      try {
+        await this.exchangeKeys();
+      } catch (error) {
+        this.reportError(error);
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * 加密发送消息
+   */
+  async send(
+    message: JSONRPCMessage,
+    options?: TransportSendOptions
+  ): Promise<void> {
+    if (hasBinaryData(message)) {
+      throw new Error("加密传输不支持直接发送二进制数据，请先编码为 base64");
+    }
+
+    // 加密是异步的，按调用顺序串行发送，保证序号与发送顺序一致
+    const task = this.sending.then(() => this.encryptAndSend(message, options));
+    this.sending = task.catch(() => {});
+    return task;
+  }
+
+  /**
+   * 关闭内层 Transport
+   */
+  async close(): Promise<void> {
+    this.reset();
+    await this.inner.close();
+  }
+}
+
+/**
+ * 创建端到端加密 Transport
+ */
+export function createEncryptedTransport(
+  inner: Transport,
+  role: EncryptionRole,
+  options?: EncryptionOptions
+): EncryptedTransport {
+  return new EncryptedTransport(inner, role, options);
+}
@@ -0,0 +1,140 @@
+/**
+ * 类型安全的事件发射器
+ */
+
+import type {
+  TransportEventMap,
+  TransportSessionEvent,
+  TransportState,
+} from "./types.js";
+
+/**
+ * 事件监听器
+ */
+export type TypedEventListener<T> = (payload: T) => void;
+
+/**
+ * 类型安全的事件发射器
+ * 事件名与参数类型由事件表 Events 约束，McpServer、McpClient 与 Transport 均继承此类
+ *
+ * @example
+ * ```ts
+ * const off = client.on("stateChange", (state) => console.log(state));
+ * off(); // 取消监听
+ * ```
+ */
+export class TypedEventEmitter<Events extends object> {
+  private eventListeners: {
+    [K in keyof Events]?: Set<TypedEventListener<Events[K]>>;
+  } = {};
+
+  /**
+   * 监听事件
+   * @returns 取消监听的函数
+   */
+  on<K extends keyof Events>(
+    event: K,
+    listener: TypedEventListener<Events[K]>
+  ): () => void {
+    let listeners = this.eventListeners[event];
+    if (!listeners) {
+      listeners = new Set();
+      this.eventListeners[event] = listeners;
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * 监听事件，触发一次后自动取消
+   * @returns 取消监听的函数
+   */
+  once<K extends keyof Events>(
+    event: K,
+    listener: TypedEventListener<Events[K]>
+  ): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  /**
+   * 取消监听事件
+   */
+  off<K extends keyof Events>(
+    event: K,
+    listener: TypedEventListener<Events[K]>
+  ): void {
+    this.eventListeners[event]?.delete(listener);
+  }
+
+  /**
+   * 触发事件，单个监听器抛出的错误不影响其他监听器
+   * @returns 是否有监听器
+   */
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): boolean {
+    const listeners = this.eventListeners[event];
+    if (!listeners || listeners.size === 0) {
+      return false;
+    }
+
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`事件 ${String(event)} 的监听器执行失败:`, error);
+      }
+    }
+    return true;
+  }
+}
+
+/**
+ * Transport 事件基类
+ * 维护 Transport 状态与当前对端会话，状态或会话变化时触发对应事件
+ */
+export class TransportEventEmitter extends TypedEventEmitter<TransportEventMap> {
+  private transportState: TransportState = "disconnected";
+  private session: TransportSessionEvent | null = null;
+
+  /**
+   * 获取 Transport 状态
+   */
+  getState(): TransportState {
+    return this.transportState;
+  }
+
+  /**
+   * 更新状态并触发 stateChange
+   */
+  protected setState(state: TransportState): void {
+    if (this.transportState === state) {
+      return;
+    }
+    this.transportState = state;
+    this.emit("stateChange", state);
+  }
+
+  /**
+   * 开始与对端的会话，已有会话时先结束旧会话
+   */
+  protected startSession(origin: string): void {
+    this.endSession();
+    this.session = { origin };
+    this.emit("sessionStart", this.session);
+  }
+
+  /**
+   * 结束当前会话
+   */
+  protected endSession(): void {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+    this.session = null;
+    this.emit("sessionEnd", session);
+  }
+}
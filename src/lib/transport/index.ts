@@ -3,6 +3,24 @@
  */
 
 export * from './types.js';
+export * from './utils.js';
+export * from './events.js';
+export * from './validation.js';
+export * from './origin-policy.js';
+export * from './binary.js';
+export * from './auth.js';
+export * from './chunked-transport.js';
+export * from './encrypted-transport.js';
+export * from './middleware-transport.js';
+export * from './trace.js';
+export * from './replay-transport.js';
+export * from './loopback-transport.js';
 export * from './server-transport.js';
 export * from './client-transport.js';
-
+export * from './channel-server-transport.js';
+export * from './channel-client-transport.js';
+export * from './broadcast-server-transport.js';
+export * from './broadcast-client-transport.js';
+export * from './worker-server-transport.js';
+export * from './worker-client-transport.js';
+export * from './popup.js';
@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { createLoopbackTransportPair } from "./loopback-transport.js";
+import { McpServer } from "../server/McpServer.js";
+import { McpClient } from "../client/McpClient.js";
+
+const ping = (id: number): JSONRPCMessage => ({
+  jsonrpc: "2.0",
+  id,
+  method: "ping",
+});
+
+/**
+ * 收集 Transport 收到的消息，等待收到指定条数
+ */
+function collect(transport: { onmessage?: (message: JSONRPCMessage) => void }) {
+  const received: JSONRPCMessage[] = [];
+  transport.onmessage = (message) => received.push(message);
+  return {
+    received,
+    until: (count: number) =>
+      vi.waitFor(() => expect(received).toHaveLength(count)),
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("LoopbackTransport", () => {
+  it("异步投递结构化克隆后的消息", async () => {
+    const { server, client } = createLoopbackTransportPair();
+    const inbox = collect(server);
+    await server.start();
+    await client.start();
+
+    const message = { ...ping(1), params: { data: new Uint8Array([1, 2]) } };
+    await client.send(message);
+    expect(inbox.received).toHaveLength(0);
+
+    await inbox.until(1);
+    expect(inbox.received[0]).toEqual(message);
+    expect(inbox.received[0]).not.toBe(message);
+  });
+
+  it("对端启动前收到的消息在启动后按顺序投递", async () => {
+    const { server, client } = createLoopbackTransportPair();
+    await client.start();
+    await client.send(ping(1));
+    await client.send(ping(2));
+
+    const inbox = collect(server);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(inbox.received).toHaveLength(0);
+
+    await server.start();
+    expect(
+      inbox.received.map((message) => "id" in message && message.id)
+    ).toEqual([1, 2]);
+  });
+
+  it("延迟不会改变消息顺序", async () => {
+    vi.useFakeTimers();
+    const { server, client } = createLoopbackTransportPair({
+      delay: (message) => ("id" in message && message.id === 1 ? 100 : 0),
+    });
+    const inbox = collect(server);
+    await server.start();
+    await client.start();
+
+    await client.send(ping(1));
+    await client.send(ping(2));
+    await vi.advanceTimersByTimeAsync(99);
+    expect(inbox.received).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(
+      inbox.received.map((message) => "id" in message && message.id)
+    ).toEqual([1, 2]);
+  });
+
+  it("按规则丢弃消息", async () => {
+    const { server, client } = createLoopbackTransportPair({
+      drop: (message, from) =>
+        from === "client" && "id" in message && message.id === 1,
+    });
+    const inbox = collect(server);
+    await server.start();
+    await client.start();
+
+    await client.send(ping(1));
+    await client.send(ping(2));
+    await inbox.until(1);
+    expect("id" in inbox.received[0] && inbox.received[0].id).toBe(2);
+  });
+
+  it("关闭一端时对端也关闭", async () => {
+    const { server, client } = createLoopbackTransportPair();
+    const onclose = vi.fn();
+    server.onclose = onclose;
+    await server.start();
+    await client.start();
+
+    await client.close();
+    expect(onclose).toHaveBeenCalledTimes(1);
+    await expect(server.send(ping(1))).rejects.toThrow("Transport 已关闭");
+    await expect(server.start()).rejects.toThrow("无法重新启动");
+  });
+
+  it("未启动时不能发送", async () => {
+    const { client } = createLoopbackTransportPair();
+    await expect(client.send(ping(1))).rejects.toThrow("Transport 未启动");
+  });
+
+  it("连接 McpServer 与 McpClient", async () => {
+    const server = new McpServer({ name: "test-server", version: "1.0.0" });
+    server.addTool({
+      name: "echo",
+      inputSchema: {
+        type: "object",
+        properties: { text: { type: "string" } },
+      },
+      handler: (input) => ({
+        content: [{ type: "text", text: String(input.text) }],
+      }),
+    });
+    const client = new McpClient({ autoReconnect: false });
+    const pair = createLoopbackTransportPair({ delay: 5 });
+
+    await server.connect(pair.server);
+    const info = await client.connect(pair.client);
+    expect(info.name).toBe("test-server");
+
+    const result = await client.callTool({
+      name: "echo",
+      arguments: { text: "hi" },
+    });
+    expect(result.content[0]).toEqual({ type: "text", text: "hi" });
+
+    await client.disconnect();
+    await server.disconnect();
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * 内存 Transport 对实现
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import type { LoopbackSide, LoopbackTransportOptions } from "./types.js";
+
+/**
+ * 内存 Transport
+ *
+ * 由 createLoopbackTransportPair 成对创建，在同一 JS 环境中直接投递消息，
+ * 不依赖 iframe、post-robot 或 window.parent，可用于测试和同一页面内的 Server 与 Client。
+ * 消息以结构化克隆复制后异步投递，与 postMessage 的行为一致；
+ * 对端启动前收到的消息会缓存到对端启动后再投递。
+ */
+export class LoopbackTransport implements Transport {
+  private peer: LoopbackTransport | null = null;
+  private options: LoopbackTransportOptions;
+  private inbox: JSONRPCMessage[] = [];
+  private lastDeliverAt = 0;
+  private started = false;
+  private closed = false;
+
+  /**
+   * 当前 Transport 所在的一端
+   */
+  readonly side: LoopbackSide;
+
+  onmessage?: (message: JSONRPCMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+
+  constructor(side: LoopbackSide, options: LoopbackTransportOptions = {}) {
+    this.side = side;
+    this.options = options;
+  }
+
+  /**
+   * 是否支持直接传输二进制数据
+   */
+  get supportsBinary(): boolean {
+    return this.options.supportsBinary ?? true;
+  }
+
+  /**
+   * 连接对端，由 createLoopbackTransportPair 调用
+   */
+  link(peer: LoopbackTransport): void {
+    this.peer = peer;
+  }
+
+  /**
+   * 启动 Transport，投递启动前收到的消息
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    if (this.closed) {
+      throw new Error("Transport 已关闭，无法重新启动");
+    }
+    this.started = true;
+
+    const pending = this.inbox;
+    this.inbox = [];
+    for (const message of pending) {
+      this.receive(message);
+    }
+  }
+
+  /**
+   * 接收对端投递的消息
+   */
+  private receive(message: JSONRPCMessage): void {
+    if (this.closed) {
+      return;
+    }
+    if (!this.started) {
+      this.inbox.push(message);
+      return;
+    }
+    if (this.onmessage) {
+      this.onmessage(message);
+    }
+  }
+
+  /**
+   * 判断是否模拟丢弃消息
+   */
+  private shouldDrop(message: JSONRPCMessage): boolean {
+    const { dropRate = 0, drop } = this.options;
+    if (drop && drop(message, this.side)) {
+      return true;
+    }
+    return dropRate > 0 && Math.random() < dropRate;
+  }
+
+  /**
+   * 发送消息到对端
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error("Transport 已关闭");
+    }
+    if (!this.started) {
+      throw new Error("Transport 未启动");
+    }
+    const peer = this.peer;
+    if (!peer) {
+      throw new Error("Transport 未连接对端");
+    }
+
+    if (this.shouldDrop(message)) {
+      return;
+    }
+
+    // 复制消息，避免双方共享同一对象
+    const copy = structuredClone(message);
+    const { delay = 0 } = this.options;
+    const ms = Math.max(
+      0,
+      typeof delay === "function" ? delay(message, this.side) : delay
+    );
+
+    // 延迟的消息不会被之后发送的消息超过
+    const now = Date.now();
+    const deliverAt = Math.max(now + ms, this.lastDeliverAt);
+    this.lastDeliverAt = deliverAt;
+    setTimeout(() => peer.receive(copy), deliverAt - now);
+  }
+
+  /**
+   * 关闭 Transport，对端也会随之关闭
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.started = false;
+    this.inbox = [];
+
+    if (this.onclose) {
+      this.onclose();
+    }
+
+    if (this.peer) {
+      await this.peer.close();
+    }
+  }
+}
+
+/**
+ * 内存 Transport 对
+ */
+export interface LoopbackTransportPair {
+  /**
+   * 交给 McpServer 的一端
+   */
+  server: LoopbackTransport;
+  /**
+   * 交给 McpClient 的一端
+   */
+  client: LoopbackTransport;
+}
+
+/**
+ * 创建相互连接的内存 Transport 对
+ *
+ * @example
+ * ```ts
+ * const { server: serverTransport, client: clientTransport } =
+ *   createLoopbackTransportPair({ delay: 20, dropRate: 0.1 });
+ * await server.connect(serverTransport);
+ * await client.connect(clientTransport);
+ * ```
+ */
+export function createLoopbackTransportPair(
+  options?: LoopbackTransportOptions
+): LoopbackTransportPair {
+  const server = new LoopbackTransport("server", options);
+  const client = new LoopbackTransport("client", options);
+  server.link(client);
+  client.link(server);
+  return { server, client };
+}
@@ -0,0 +1,221 @@
+/**
+ * 中间件 Transport 实现
+ */
+
+import type {
+  Transport,
+  TransportSendOptions,
+} from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  MessageMiddleware,
+  MiddlewareContext,
+  MiddlewareMessage,
+  TransportMiddleware,
+} from "./types.js";
+import { supportsBinary } from "./binary.js";
+import { getPeerOrigin } from "./utils.js";
+
+/**
+ * 中间件 Transport
+ *
+ * 包装任意 Transport，让收发的每条消息依次经过中间件链，用于日志、脱敏、统计耗时、改写消息等。
+ * 中间件可以不调用 next 丢弃消息、传入新消息改写消息、在调用 next 前等待以延迟消息。
+ * 异步中间件不会阻塞其他消息，延迟消息可能导致消息乱序。
+ *
+ * 与分块、加密同时使用时位于最外层，中间件看到的始终是明文 JSON-RPC 消息。
+ *
+ * @example
+ * ```ts
+ * const transport = new MiddlewareTransport(inner, [
+ *   {
+ *     name: "logger",
+ *     inbound: (message, next) => {
+ *       console.log("<-", message);
+ *       return next(message);
+ *     },
+ *     outbound: (message, next) => {
+ *       console.log("->", message);
+ *       return next(message);
+ *     },
+ *   },
+ * ]);
+ * ```
+ */
+export class MiddlewareTransport implements Transport {
+  private inner: Transport;
+  private middleware: TransportMiddleware[];
+
+  onmessage?: (message: JSONRPCMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+
+  constructor(inner: Transport, middleware: TransportMiddleware[] = []) {
+    this.inner = inner;
+    this.middleware = [...middleware];
+
+    this.inner.onmessage = (message) => {
+      this.runInbound(message).catch((error) => this.reportError(error));
+    };
+    this.inner.onerror = (error) => {
+      for (const item of this.middleware) {
+        item.onerror?.(error);
+      }
+      this.reportError(error);
+    };
+    this.inner.onclose = () => {
+      for (const item of this.middleware) {
+        item.onclose?.();
+      }
+      if (this.onclose) {
+        this.onclose();
+      }
+    };
+  }
+
+  /**
+   * 内层 Transport 的会话 ID
+   */
+  get sessionId(): string | undefined {
+    return this.inner.sessionId;
+  }
+
+  /**
+   * 内层 Transport 是否支持直接传输二进制数据
+   */
+  get supportsBinary(): boolean {
+    return supportsBinary(this.inner);
+  }
+
+  /**
+   * 内层 Transport 对端的 origin
+   */
+  get peerOrigin(): string | undefined {
+    return getPeerOrigin(this.inner);
+  }
+
+  /**
+   * 设置协商的协议版本（转发给内层 Transport）
+   */
+  setProtocolVersion(version: string): void {
+    this.inner.setProtocolVersion?.(version);
+  }
+
+  /**
+   * 追加中间件（位于现有中间件内侧，更靠近内层 Transport）
+   */
+  use(middleware: TransportMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * 上报错误
+   */
+  private reportError(error: unknown): void {
+    if (this.onerror) {
+      this.onerror(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * 依次执行中间件链
+   */
+  private async run(
+    message: MiddlewareMessage,
+    direction: MiddlewareContext["direction"],
+    chain: Array<{ name?: string; handler: MessageMiddleware }>,
+    final: (message: MiddlewareMessage) => Promise<void>
+  ): Promise<void> {
+    const context: MiddlewareContext = {
+      direction,
+      sessionId: this.inner.sessionId,
+      peerOrigin: getPeerOrigin(this.inner),
+    };
+
+    const dispatch = async (
+      index: number,
+      current: MiddlewareMessage
+    ): Promise<void> => {
+      if (index === chain.length) {
+        await final(current);
+        return;
+      }
+
+      const { name, handler } = chain[index];
+      let called = false;
+      await handler(
+        current,
+        (next) => {
+          if (called) {
+            throw new Error(
+              `中间件 ${name ?? index} 的 next() 只能调用一次`
+            );
+          }
+          called = true;
+          return dispatch(index + 1, next);
+        },
+        context
+      );
+    };
+
+    await dispatch(0, message);
+  }
+
+  /**
+   * 收到的消息按相反顺序经过中间件后交给上层
+   */
+  private runInbound(message: MiddlewareMessage): Promise<void> {
+    const chain = this.middleware
+      .filter((item) => item.inbound)
+      .map((item) => ({ name: item.name, handler: item.inbound! }))
+      .reverse();
+
+    return this.run(message, "inbound", chain, async (current) => {
+      if (this.onmessage) {
+        this.onmessage(current as JSONRPCMessage);
+      }
+    });
+  }
+
+  /**
+   * 启动内层 Transport
+   */
+  async start(): Promise<void> {
+    await this.inner.start();
+  }
+
+  /**
+   * 发送的消息按顺序经过中间件后交给内层 Transport
+   * 被中间件丢弃的消息视为发送成功
+   */
+  async send(
+    message: JSONRPCMessage,
+    options?: TransportSendOptions
+  ): Promise<void> {
+    const chain = this.middleware
+      .filter((item) => item.outbound)
+      .map((item) => ({ name: item.name, handler: item.outbound! }));
+
+    await this.run(message, "outbound", chain, (current) =>
+      this.inner.send(current as JSONRPCMessage, options)
+    );
+  }
+
+  /**
+   * 关闭内层 Transport
+   */
+  async close(): Promise<void> {
+    await this.inner.close();
+  }
+}
+
+/**
+ * 创建中间件 Transport
+ */
+export function createMiddlewareTransport(
+  inner: Transport,
+  middleware?: TransportMiddleware[]
+): MiddlewareTransport {
+  return new MiddlewareTransport(inner, middleware);
+}
@@ -0,0 +1,261 @@
+import { describe, expect, it } from "vitest";
+import { OriginPolicy, parseOrigin } from "./origin-policy.js";
+
+describe("parseOrigin", () => {
+  it("解析协议、主机与端口", () => {
+    expect(parseOrigin("https://Example.COM:8443")).toEqual({
+      scheme: "https",
+      hostname: "example.com",
+      port: "8443",
+      origin: "https://example.com:8443",
+    });
+  });
+
+  it("未写端口时使用协议默认端口", () => {
+    expect(parseOrigin("https://example.com")?.port).toBe("443");
+    expect(parseOrigin("http://example.com")?.port).toBe("80");
+  });
+
+  it("显式写出的默认端口被规范化", () => {
+    expect(parseOrigin("https://example.com:443")?.origin).toBe(
+      "https://example.com"
+    );
+  });
+
+  it("IDN 主机名转换为 punycode", () => {
+    expect(parseOrigin("https://例子.测试")?.hostname).toBe(
+      "xn--fsqu00a.xn--0zwm56d"
+    );
+  });
+
+  it("'null' 与不透明 origin 返回 null", () => {
+    expect(parseOrigin("null")).toBeNull();
+    expect(parseOrigin("file:///tmp/index.html")).toBeNull();
+    expect(parseOrigin("data:text/html,hi")).toBeNull();
+  });
+
+  it("无法解析时返回 null", () => {
+    expect(parseOrigin("")).toBeNull();
+    expect(parseOrigin("example.com")).toBeNull();
+    expect(parseOrigin("https://")).toBeNull();
+  });
+});
+
+describe("OriginPolicy", () => {
+  describe("精确匹配", () => {
+    const policy = new OriginPolicy({
+      allowedOrigins: ["https://example.com"],
+    });
+
+    it("允许完全相同的 origin", () => {
+      expect(policy.isAllowed("https://example.com")).toBe(true);
+      expect(policy.isAllowed("https://EXAMPLE.com")).toBe(true);
+      expect(policy.isAllowed("https://example.com:443")).toBe(true);
+    });
+
+    it("拒绝后缀相同的仿冒域名", () => {
+      expect(policy.isAllowed("https://evilexample.com")).toBe(false);
+      expect(policy.isAllowed("https://example.com.evil.com")).toBe(false);
+      expect(policy.isAllowed("https://notexample.com")).toBe(false);
+    });
+
+    it("不匹配子域名", () => {
+      expect(policy.isAllowed("https://a.example.com")).toBe(false);
+    });
+  });
+
+  describe("子域名通配符", () => {
+    const policy = new OriginPolicy({
+      allowedOrigins: ["https://*.example.com"],
+    });
+
+    it("匹配任意层级的子域名", () => {
+      expect(policy.isAllowed("https://a.example.com")).toBe(true);
+      expect(policy.isAllowed("https://a.b.example.com")).toBe(true);
+    });
+
+    it("不匹配裸域名与仿冒域名", () => {
+      expect(policy.isAllowed("https://example.com")).toBe(false);
+      expect(policy.isAllowed("https://evilexample.com")).toBe(false);
+      expect(policy.isAllowed("https://a.evilexample.com")).toBe(false);
+      expect(policy.isAllowed("https://example.com.evil.com")).toBe(false);
+    });
+
+    it("不允许在域名中间使用通配符", () => {
+      expect(
+        () => new OriginPolicy({ allowedOrigins: ["https://a.*.example.com"] })
+      ).toThrow("无效的 origin 规则");
+    });
+  });
+
+  describe("端口", () => {
+    it("未写端口的规则只匹配默认端口", () => {
+      const policy = new OriginPolicy({
+        allowedOrigins: ["https://example.com"],
+      });
+      expect(policy.isAllowed("https://example.com:8443")).toBe(false);
+    });
+
+    it("指定端口只匹配该端口", () => {
+      const policy = new OriginPolicy({
+        allowedOrigins: ["http://localhost:3000"],
+      });
+      expect(policy.isAllowed("http://localhost:3000")).toBe(true);
+      expect(policy.isAllowed("http://localhost:3001")).toBe(false);
+      expect(policy.isAllowed("http://localhost")).toBe(false);
+    });
+
+    it("端口通配符匹配任意端口", () => {
+      const policy = new OriginPolicy({
+        allowedOrigins: ["http://localhost:*"],
+      });
+      expect(policy.isAllowed("http://localhost")).toBe(true);
+      expect(policy.isAllowed("http://localhost:5173")).toBe(true);
+    });
+
+    it("规则中显式写出的默认端口等同于未写端口", () => {
+      const policy = new OriginPolicy({
+        allowedOrigins: ["https://example.com:443"],
+      });
+      expect(policy.isAllowed("https://example.com")).toBe(true);
+    });
+  });
+
+  describe("协议", () => {
+    it("指定协议时不匹配其他协议", () => {
+      const policy = new OriginPolicy({
+        allowedOrigins: ["https://example.com"],
+      });
+      expect(policy.isAllowed("http://example.com")).toBe(false);
+    });
+
+    it("未写协议时匹配任意协议的默认端口", () => {
+      const policy = new OriginPolicy({ allowedOrigins: ["example.com"] });
+      expect(policy.isAllowed("https://example.com")).toBe(true);
+      expect(policy.isAllowed("http://example.com")).toBe(true);
+      expect(policy.isAllowed("http://example.com:8080")).toBe(false);
+    });
+
+    it("协议通配符匹配任意协议", () => {
+      const policy = new OriginPolicy({
+        allowedOrigins: ["*://*.example.com"],
+      });
+      expect(policy.isAllowed("http://a.example.com")).toBe(true);
+      expect(policy.isAllowed("https://a.example.com")).toBe(true);
+    });
+  });
+
+  describe("'null' origin", () => {
+    it("未配置白名单时允许", () => {
+      expect(new OriginPolicy().isAllowed("null")).toBe(true);
+    });
+
+    it("配置白名单后只有包含 'null' 规则时允许", () => {
+      expect(
+        new OriginPolicy({ allowedOrigins: ["https://example.com"] }).isAllowed(
+          "null"
+        )
+      ).toBe(false);
+      expect(
+        new OriginPolicy({
+          allowedOrigins: ["https://example.com", "null"],
+        }).isAllowed("null")
+      ).toBe(true);
+    });
+
+    it("allowNullOrigin 优先于白名单", () => {
+      expect(
+        new OriginPolicy({
+          allowedOrigins: ["null"],
+          allowNullOrigin: false,
+        }).isAllowed("null")
+      ).toBe(false);
+      expect(
+        new OriginPolicy({
+          allowedOrigins: ["https://example.com"],
+          allowNullOrigin: true,
+        }).isAllowed("null")
+      ).toBe(true);
+    });
+
+    it("通配符、正则与函数规则不匹配 'null'", () => {
+      const policy = new OriginPolicy({
+        allowedOrigins: ["*", /.*/, () => true],
+      });
+      expect(policy.isAllowed("null")).toBe(false);
+    });
+
+    it("'null' 规则不匹配普通 origin", () => {
+      const policy = new OriginPolicy({ allowedOrigins: ["null"] });
+      expect(policy.isAllowed("https://example.com")).toBe(false);
+    });
+  });
+
+  describe("拒绝名单", () => {
+    it("优先于白名单", () => {
+      const policy = new OriginPolicy({
+        allowedOrigins: ["https://*.example.com"],
+        deniedOrigins: ["https://legacy.example.com"],
+      });
+      expect(policy.isAllowed("https://app.example.com")).toBe(true);
+      expect(policy.isAllowed("https://legacy.example.com")).toBe(false);
+    });
+
+    it("未配置白名单时只拒绝命中的 origin", () => {
+      const policy = new OriginPolicy({
+        deniedOrigins: ["https://evil.com"],
+      });
+      expect(policy.isAllowed("https://evil.com")).toBe(false);
+      expect(policy.isAllowed("https://example.com")).toBe(true);
+    });
+
+    it("可以拒绝 'null' origin", () => {
+      const policy = new OriginPolicy({
+        deniedOrigins: ["null"],
+        allowNullOrigin: true,
+      });
+      expect(policy.isAllowed("null")).toBe(false);
+    });
+  });
+
+  describe("正则与函数规则", () => {
+    it("使用规范化后的 origin 匹配", () => {
+      const seen: string[] = [];
+      const policy = new OriginPolicy({
+        allowedOrigins: [
+          /^https:\/\/[a-z]+\.trusted\.com$/,
+          (origin) => {
+            seen.push(origin);
+            return false;
+          },
+        ],
+      });
+      expect(policy.isAllowed("https://APP.trusted.com:443")).toBe(true);
+      expect(policy.isAllowed("https://example.com:443")).toBe(false);
+      expect(seen).toEqual(["https://example.com"]);
+    });
+
+    it("带 g 标志的正则多次调用结果一致", () => {
+      const policy = new OriginPolicy({
+        allowedOrigins: [/^https:\/\/example\.com$/g],
+      });
+      expect(policy.isAllowed("https://example.com")).toBe(true);
+      expect(policy.isAllowed("https://example.com")).toBe(true);
+    });
+  });
+
+  it("未配置任何规则时允许所有 origin", () => {
+    expect(new OriginPolicy().isAllowed("https://anything.dev")).toBe(true);
+  });
+
+  it("无法解析的 origin 不匹配任何规则", () => {
+    const policy = new OriginPolicy({ allowedOrigins: ["*"] });
+    expect(policy.isAllowed("not an origin")).toBe(false);
+  });
+
+  it("无效的规则在创建时报错", () => {
+    expect(
+      () => new OriginPolicy({ allowedOrigins: ["https://exa mple.com/path"] })
+    ).toThrow("无效的 origin 规则");
+  });
+});
@@ -0,0 +1,450 @@
+/**
+ * Origin 策略
+ * 统一解析并校验消息来源的 origin，供所有基于窗口通信的 Transport 使用
+ */
+
+import type {
+  OriginPolicyOptions,
+  OriginRule,
+  ServerTransportOptions,
+  TargetOriginOptions,
+} from "./types.js";
+
+/**
+ * 不透明 origin 的序列化形式
+ */
+const NULL_ORIGIN = "null";
+
+/**
+ * 各协议的默认端口
+ */
+const DEFAULT_PORTS: Record<string, string> = {
+  http: "80",
+  https: "443",
+  ws: "80",
+  wss: "443",
+};
+
+/**
+ * 解析后的 origin
+ */
+export interface ParsedOrigin {
+  /**
+   * 协议（不含冒号），如 'https'
+   */
+  scheme: string;
+  /**
+   * 规范化后的主机名（小写、punycode）
+   */
+  hostname: string;
+  /**
+   * 实际端口，未显式指定时为协议的默认端口
+   */
+  port: string;
+  /**
+   * 规范化后的 origin 字符串
+   */
+  origin: string;
+}
+
+/**
+ * 解析后的字符串规则
+ */
+interface ParsedRule {
+  /**
+   * 协议，undefined 表示任意协议
+   */
+  scheme?: string;
+  /**
+   * 主机匹配方式：exact 为精确匹配，subdomain 为匹配其子域名，any 为任意主机
+   */
+  host: { type: "exact" | "subdomain"; value: string } | { type: "any" };
+  /**
+   * 端口：'default' 为协议默认端口，'*' 为任意端口，其他为指定端口
+   */
+  port: string;
+}
+
+/**
+ * 编译后的规则
+ */
+type CompiledRule =
+  | { type: "null" }
+  | { type: "pattern"; rule: ParsedRule }
+  | { type: "regexp"; regexp: RegExp }
+  | { type: "predicate"; predicate: (origin: string) => boolean };
+
+/**
+ * 解析 origin 字符串
+ * @returns 无法解析或为不透明 origin（'null'）时返回 null
+ */
+export function parseOrigin(origin: string): ParsedOrigin | null {
+  if (origin === NULL_ORIGIN) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return null;
+  }
+
+  // file:、data: 等协议的 origin 是不透明的
+  if (url.origin === NULL_ORIGIN) {
+    return null;
+  }
+
+  const scheme = url.protocol.slice(0, -1);
+  return {
+    scheme,
+    hostname: url.hostname,
+    port: url.port || DEFAULT_PORTS[scheme] || "",
+    origin: url.origin,
+  };
+}
+
+/**
+ * 规范化主机名（小写、IDN 转 punycode）
+ */
+function normalizeHostname(hostname: string, rule: string): string {
+  try {
+    return new URL(`http://${hostname}`).hostname;
+  } catch {
+    throw new Error(`无效的 origin 规则: ${rule}`);
+  }
+}
+
+/**
+ * 解析字符串规则
+ */
+function parseRule(rule: string): ParsedRule {
+  let rest = rule.trim();
+  let scheme: string | undefined;
+
+  const schemeEnd = rest.indexOf("://");
+  if (schemeEnd !== -1) {
+    scheme = rest.slice(0, schemeEnd).toLowerCase();
+    rest = rest.slice(schemeEnd + 3);
+    if (scheme === "*") {
+      scheme = undefined;
+    } else if (!/^[a-z][a-z0-9+.-]*$/.test(scheme)) {
+      throw new Error(`无效的 origin 规则: ${rule}`);
+    }
+  }
+
+  // 分离端口（注意 IPv6 地址中的冒号）
+  let host = rest;
+  let port = "default";
+  const portMatch = /^(\[[^\]]+\]|[^:]*)(?::(\d+|\*))?$/.exec(rest);
+  if (!portMatch) {
+    throw new Error(`无效的 origin 规则: ${rule}`);
+  }
+  host = portMatch[1];
+  if (portMatch[2] !== undefined) {
+    port = portMatch[2];
+  }
+
+  if (!host || host.includes("/")) {
+    throw new Error(`无效的 origin 规则: ${rule}`);
+  }
+
+  if (host === "*") {
+    return { scheme, host: { type: "any" }, port };
+  }
+
+  if (host.startsWith("*.")) {
+    const domain = host.slice(2);
+    if (!domain || domain.includes("*")) {
+      throw new Error(`无效的 origin 规则: ${rule}`);
+    }
+    return {
+      scheme,
+      host: { type: "subdomain", value: normalizeHostname(domain, rule) },
+      port,
+    };
+  }
+
+  if (host.includes("*")) {
+    throw new Error(`无效的 origin 规则: ${rule}`);
+  }
+
+  // 显式写出默认端口时视为默认端口，如 'https://example.com:443'
+  if (scheme && DEFAULT_PORTS[scheme] === port) {
+    port = "default";
+  }
+
+  return {
+    scheme,
+    host: { type: "exact", value: normalizeHostname(host, rule) },
+    port,
+  };
+}
+
+/**
+ * 编译规则
+ */
+function compileRule(rule: OriginRule): CompiledRule {
+  if (typeof rule === "function") {
+    return { type: "predicate", predicate: rule };
+  }
+  if (rule instanceof RegExp) {
+    return { type: "regexp", regexp: rule };
+  }
+  if (rule.trim() === NULL_ORIGIN) {
+    return { type: "null" };
+  }
+  return { type: "pattern", rule: parseRule(rule) };
+}
+
+/**
+ * 检查已解析的 origin 是否匹配字符串规则
+ */
+function matchesPattern(origin: ParsedOrigin, rule: ParsedRule): boolean {
+  if (rule.scheme !== undefined && rule.scheme !== origin.scheme) {
+    return false;
+  }
+
+  switch (rule.host.type) {
+    case "exact":
+      if (origin.hostname !== rule.host.value) {
+        return false;
+      }
+      break;
+    case "subdomain":
+      // 必须是子域名：'*.example.com' 不匹配 'example.com' 和 'evilexample.com'
+      if (!origin.hostname.endsWith(`.${rule.host.value}`)) {
+        return false;
+      }
+      break;
+  }
+
+  if (rule.port === "*") {
+    return true;
+  }
+  if (rule.port === "default") {
+    return origin.port === (DEFAULT_PORTS[origin.scheme] ?? "");
+  }
+  return origin.port === rule.port;
+}
+
+/**
+ * 检查 origin 是否匹配规则
+ */
+function matchesRule(
+  origin: string,
+  parsed: ParsedOrigin | null,
+  rule: CompiledRule
+): boolean {
+  // null origin 只能由 'null' 规则匹配
+  if (!parsed) {
+    return rule.type === "null" && origin === NULL_ORIGIN;
+  }
+
+  switch (rule.type) {
+    case "null":
+      return false;
+    case "pattern":
+      return matchesPattern(parsed, rule.rule);
+    case "regexp":
+      rule.regexp.lastIndex = 0;
+      return rule.regexp.test(parsed.origin);
+    case "predicate":
+      return rule.predicate(parsed.origin);
+  }
+}
+
+/**
+ * Origin 策略
+ *
+ * 判定顺序：
+ * 1. 命中拒绝名单则拒绝
+ * 2. 'null' origin 按 allowNullOrigin 与白名单中的 'null' 规则判定
+ * 3. 未配置白名单则允许，否则必须命中白名单
+ *
+ * @example
+ * ```ts
+ * const policy = new OriginPolicy({
+ *   allowedOrigins: ["https://app.example.com", "https://*.example.com:8443"],
+ *   deniedOrigins: ["https://legacy.example.com:8443"],
+ * });
+ * policy.isAllowed("https://a.example.com:8443"); // true
+ * policy.isAllowed("https://evilexample.com"); // false
+ * ```
+ */
+export class OriginPolicy {
+  private allowed: CompiledRule[] | null;
+  private denied: CompiledRule[];
+  private allowNullOrigin: boolean | undefined;
+
+  constructor(options: OriginPolicyOptions = {}) {
+    this.allowed =
+      options.allowedOrigins && options.allowedOrigins.length > 0
+        ? options.allowedOrigins.map(compileRule)
+        : null;
+    this.denied = (options.deniedOrigins ?? []).map(compileRule);
+    this.allowNullOrigin = options.allowNullOrigin;
+  }
+
+  /**
+   * 检查 origin 是否允许通信
+   */
+  isAllowed(origin: string): boolean {
+    const parsed = parseOrigin(origin);
+    const isNull = parsed === null && origin === NULL_ORIGIN;
+
+    if (this.denied.some((rule) => matchesRule(origin, parsed, rule))) {
+      return false;
+    }
+
+    if (isNull) {
+      if (this.allowNullOrigin !== undefined) {
+        return this.allowNullOrigin;
+      }
+      return (
+        this.allowed === null ||
+        this.allowed.some((rule) => rule.type === "null")
+      );
+    }
+
+    if (this.allowed === null) {
+      return true;
+    }
+
+    return this.allowed.some((rule) => matchesRule(origin, parsed, rule));
+  }
+}
+
+/**
+ * 创建 Origin 策略
+ */
+export function createOriginPolicy(
+  options?: OriginPolicyOptions
+): OriginPolicy {
+  return new OriginPolicy(options);
+}
+
+/**
+ * 可推导 origin 的通信目标
+ */
+export type TargetOriginSource = ServerTransportOptions["target"];
+
+/**
+ * 获取 URL 的 origin
+ * @returns URL 为空、无效或为不透明 origin 时返回 null
+ */
+export function getUrlOrigin(url: string): string | null {
+  if (!url) {
+    return null;
+  }
+  try {
+    const origin = new URL(url, document.baseURI).origin;
+    return origin === NULL_ORIGIN ? null : origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 推导通信目标的 origin
+ * - iframe 元素：取 iframe.src
+ * - 父窗口、opener：取 document.referrer
+ * - iframe 的 contentWindow：查找对应的 iframe 元素并取其 src
+ * - 同源窗口：直接读取其 location
+ * @returns 无法推导时返回 null
+ */
+export function deriveTargetOrigin(target: TargetOriginSource): string | null {
+  if (target === "parent" || target === "opener") {
+    return getUrlOrigin(document.referrer);
+  }
+
+  if (
+    typeof HTMLIFrameElement !== "undefined" &&
+    target instanceof HTMLIFrameElement
+  ) {
+    return getUrlOrigin(target.src);
+  }
+
+  if (
+    (target === window.parent && target !== window) ||
+    target === window.opener
+  ) {
+    return getUrlOrigin(document.referrer);
+  }
+
+  for (const frame of Array.from(document.querySelectorAll("iframe"))) {
+    if (frame.contentWindow === target) {
+      return getUrlOrigin(frame.src);
+    }
+  }
+
+  // 跨域窗口读取 location 会抛出 SecurityError
+  try {
+    return getUrlOrigin((target as Window).location.href);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 目标 origin 解析器
+ *
+ * 非严格模式下始终返回 targetOrigin（默认 '*'）。
+ * 严格模式下未配置 targetOrigin 时从通信目标推导，每次调用都重新推导，
+ * 因此 iframe 的 src 指向其他 origin 后，后续发送会使用新的 origin 或直接失败；
+ * 结果为 '*' 时除非配置了 allowWildcardOrigin 否则抛出错误，
+ * 推导出的 origin 还必须通过 Origin 策略校验。
+ */
+export class TargetOriginResolver {
+  private target: TargetOriginSource;
+  private options: TargetOriginOptions;
+  private policy: OriginPolicy;
+
+  constructor(
+    target: TargetOriginSource,
+    options: TargetOriginOptions,
+    policy: OriginPolicy
+  ) {
+    this.target = target;
+    this.options = options;
+    this.policy = policy;
+  }
+
+  /**
+   * 解析当前的目标 origin
+   */
+  resolve(): string {
+    const { targetOrigin, strictOrigin, allowWildcardOrigin } = this.options;
+    if (!strictOrigin) {
+      return targetOrigin ?? "*";
+    }
+
+    const origin = targetOrigin ?? deriveTargetOrigin(this.target) ?? "*";
+    if (origin === "*") {
+      if (allowWildcardOrigin) {
+        return origin;
+      }
+      throw new Error(
+        "严格模式下拒绝向 '*' 发送消息，请配置 targetOrigin 或 allowWildcardOrigin"
+      );
+    }
+
+    if (!this.policy.isAllowed(origin)) {
+      throw new Error(`严格模式下拒绝向未授权的 origin 发送消息: ${origin}`);
+    }
+    return origin;
+  }
+
+  /**
+   * 检查对端 origin 是否为当前的目标 origin
+   */
+  accepts(origin: string): boolean {
+    let expected: string;
+    try {
+      expected = this.resolve();
+    } catch {
+      return false;
+    }
+    return expected === "*" || origin === expected;
+  }
+}
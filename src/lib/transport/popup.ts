@@ -0,0 +1,21 @@
+/**
+ * 弹出窗口工具函数
+ */
+
+import type { PopupOptions } from "./types.js";
+
+/**
+ * 打开弹出窗口
+ * 需要在用户手势（如点击）中调用，否则可能被浏览器拦截
+ */
+export function openPopup(options: PopupOptions): Window {
+  const popup = window.open(
+    options.url,
+    options.name ?? "_blank",
+    options.features
+  );
+  if (!popup) {
+    throw new Error("弹出窗口被浏览器拦截，请在用户点击等操作中打开");
+  }
+  return popup;
+}
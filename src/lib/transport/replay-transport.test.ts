@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import type { TraceEntry } from "./types.js";
+import { TraceRecorder } from "./trace.js";
+import { ReplayTransport } from "./replay-transport.js";
+import { createLoopbackTransportPair } from "./loopback-transport.js";
+import { createMiddlewareTransport } from "./middleware-transport.js";
+import { McpServer } from "../server/McpServer.js";
+import { McpClient } from "../client/McpClient.js";
+
+/**
+ * 创建带 add 工具的 McpServer，offset 用于模拟行为变化
+ */
+function createServer(offset = 0): McpServer {
+  const server = new McpServer({ name: "calc", version: "1.0.0" });
+  server.addTool({
+    name: "add",
+    inputSchema: {
+      type: "object",
+      properties: { a: { type: "number" }, b: { type: "number" } },
+      required: ["a", "b"],
+    },
+    handler: (input) => ({
+      content: [
+        {
+          type: "text",
+          text: String(Number(input.a) + Number(input.b) + offset),
+        },
+      ],
+    }),
+  });
+  return server;
+}
+
+/**
+ * 在 Client 端录制一次完整的会话：握手、调用工具、断开
+ */
+async function recordClientSession(): Promise<string> {
+  const recorder = new TraceRecorder({ localOrigin: "https://client.test" });
+  const server = createServer();
+  const client = new McpClient({ autoReconnect: false });
+  const pair = createLoopbackTransportPair();
+
+  await server.connect(pair.server);
+  await client.connect(
+    createMiddlewareTransport(pair.client, [recorder.middleware])
+  );
+  await client.callTool({ name: "add", arguments: { a: 1, b: 2 } });
+  await client.disconnect();
+  await server.disconnect();
+  return recorder.toJSONL();
+}
+
+describe("ReplayTransport", () => {
+  it("以对端身份回放 Client 端录制驱动 McpServer", async () => {
+    const trace = await recordClientSession();
+    const transport = new ReplayTransport(trace, { invert: true });
+    const server = createServer();
+    await server.connect(transport);
+
+    const result = await transport.done;
+    expect(result.mismatches).toEqual([]);
+    expect(result.unexpected).toEqual([]);
+    expect(result.delivered).toBeGreaterThanOrEqual(2);
+    expect(result.matched).toBeGreaterThanOrEqual(2);
+    await server.disconnect();
+  });
+
+  it("报告与录制不一致的响应", async () => {
+    const trace = await recordClientSession();
+    const transport = new ReplayTransport(trace, { invert: true });
+    const server = createServer(1);
+    await server.connect(transport);
+
+    const { mismatches } = await transport.done;
+    expect(mismatches).toHaveLength(1);
+    expect(mismatches[0]).toMatchObject({
+      reason: "mismatch",
+      actual: { result: { content: [{ type: "text", text: "4" }] } },
+    });
+    await server.disconnect();
+  });
+
+  it("被测方未发送时按超时记录", async () => {
+    const entries: TraceEntry[] = [
+      {
+        v: 1,
+        seq: 0,
+        ts: 0,
+        direction: "outbound",
+        message: { jsonrpc: "2.0", id: 1, method: "ping" },
+      },
+    ];
+    const transport = new ReplayTransport(entries, { stepTimeout: 10 });
+    const errors: Error[] = [];
+    transport.onerror = (error) => errors.push(error);
+    await transport.start();
+
+    const { mismatches } = await transport.done;
+    expect(mismatches).toEqual([
+      { seq: 0, expected: entries[0].message, reason: "timeout" },
+    ]);
+    expect(errors).toEqual([]);
+  });
+
+  it("strict 模式下不一致时上报错误，回放结束后的发送计为多余消息", async () => {
+    const entries: TraceEntry[] = [
+      {
+        v: 1,
+        seq: 0,
+        ts: 0,
+        direction: "outbound",
+        message: { jsonrpc: "2.0", id: 1, method: "ping" },
+      },
+    ];
+    const transport = new ReplayTransport(entries, { strict: true });
+    const errors: Error[] = [];
+    transport.onerror = (error) => errors.push(error);
+    await transport.start();
+
+    await transport.send({ jsonrpc: "2.0", id: 2, method: "ping" });
+    const result = await transport.done;
+    expect(result.mismatches[0].reason).toBe("mismatch");
+    expect(errors[0].message).toContain("与录制不一致");
+
+    await transport.send({ jsonrpc: "2.0", id: 3, method: "ping" });
+    expect(result.unexpected).toEqual([
+      { jsonrpc: "2.0", id: 3, method: "ping" },
+    ]);
+  });
+
+  it("关闭后结束回放且不能再发送", async () => {
+    const entries: TraceEntry[] = [
+      {
+        v: 1,
+        seq: 0,
+        ts: 0,
+        direction: "outbound",
+        message: { jsonrpc: "2.0", id: 1, method: "ping" },
+      },
+    ];
+    const transport = new ReplayTransport(entries);
+    await transport.start();
+    await transport.close();
+
+    const result = await transport.done;
+    expect(result.mismatches).toEqual([]);
+    await expect(
+      transport.send({ jsonrpc: "2.0", id: 1, method: "ping" })
+    ).rejects.toThrow("Transport 已关闭");
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * 回放 Transport 实现
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  MiddlewareMessage,
+  ReplayResult,
+  ReplayTransportOptions,
+  TraceEntry,
+} from "./types.js";
+import { decodeTraceMessage, encodeTraceMessage, parseTrace } from "./trace.js";
+import { delay } from "./utils.js";
+
+/**
+ * 默认的等待发送超时时间（毫秒）
+ */
+const DEFAULT_STEP_TIMEOUT = 5000;
+
+/**
+ * 深度比较两个 JSON 值
+ */
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (
+    a === null ||
+    b === null ||
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+
+  const aKeys = Object.keys(a).filter(
+    (key) => (a as Record<string, unknown>)[key] !== undefined
+  );
+  const bKeys = Object.keys(b).filter(
+    (key) => (b as Record<string, unknown>)[key] !== undefined
+  );
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) =>
+      isDeepEqual(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key]
+      )
+    )
+  );
+}
+
+/**
+ * 回放 Transport
+ *
+ * 将录制文件回放给 McpServer 或 McpClient，用于离线复现问题和编写回归测试。
+ * 按录制顺序逐条处理：录制方收到的消息投递给被测方，
+ * 录制方发送的消息则等待被测方实际发送并与录制比较，因此回放结果与时序无关。
+ *
+ * @example
+ * ```ts
+ * // 用 Server 端录制的文件回放给 McpServer
+ * const transport = new ReplayTransport(jsonl);
+ * await server.connect(transport);
+ * const result = await transport.done;
+ * console.log(result.mismatches);
+ * ```
+ */
+export class ReplayTransport implements Transport {
+  private entries: TraceEntry[];
+  private options: ReplayTransportOptions;
+  private sent: MiddlewareMessage[] = [];
+  private waiter: (() => void) | null = null;
+  private started = false;
+  private closed = false;
+  private finished = false;
+  private result: ReplayResult = {
+    delivered: 0,
+    matched: 0,
+    mismatches: [],
+    unexpected: [],
+  };
+  private resolveDone!: (result: ReplayResult) => void;
+
+  /**
+   * 回放完成（录制条目全部处理或 Transport 关闭）时 resolve
+   */
+  readonly done: Promise<ReplayResult>;
+
+  onmessage?: (message: JSONRPCMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+
+  /**
+   * @param trace JSONL 录制文件内容或已解析的录制条目
+   */
+  constructor(
+    trace: string | TraceEntry[],
+    options: ReplayTransportOptions = {}
+  ) {
+    this.entries = typeof trace === "string" ? parseTrace(trace) : [...trace];
+    this.options = options;
+    this.done = new Promise((resolve) => {
+      this.resolveDone = resolve;
+    });
+  }
+
+  /**
+   * 是否支持直接传输二进制数据
+   */
+  get supportsBinary(): boolean {
+    return this.options.supportsBinary === true;
+  }
+
+  /**
+   * 启动 Transport，开始回放
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    // 回放在后台进行，McpClient 需要在 start 返回后才会发送 initialize
+    this.replay().catch((error) => {
+      this.reportError(error);
+      this.finish();
+    });
+  }
+
+  /**
+   * 记录被测方发送的消息
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error("Transport 已关闭");
+    }
+
+    const encoded = encodeTraceMessage(message as MiddlewareMessage);
+    if (this.finished) {
+      this.result.unexpected.push(encoded);
+      return;
+    }
+
+    this.sent.push(encoded);
+    if (this.waiter) {
+      this.waiter();
+    }
+  }
+
+  /**
+   * 关闭 Transport，停止回放
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    if (this.waiter) {
+      this.waiter();
+    }
+    this.finish();
+
+    if (this.onclose) {
+      this.onclose();
+    }
+  }
+
+  /**
+   * 上报错误
+   */
+  private reportError(error: unknown): void {
+    if (this.onerror) {
+      this.onerror(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * 结束回放，未被录制条目消费的发送消息计为多余消息
+   */
+  private finish(): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+    this.result.unexpected.push(...this.sent);
+    this.sent = [];
+    this.resolveDone(this.result);
+  }
+
+  /**
+   * 等待被测方发送下一条消息
+   * @returns 超时或 Transport 关闭时返回 undefined
+   */
+  private async nextSent(): Promise<MiddlewareMessage | undefined> {
+    if (this.sent.length === 0 && !this.closed) {
+      const timeout = this.options.stepTimeout ?? DEFAULT_STEP_TIMEOUT;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, timeout);
+        this.waiter = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.waiter = null;
+    }
+    return this.sent.shift();
+  }
+
+  /**
+   * 按录制顺序回放
+   */
+  private async replay(): Promise<void> {
+    const { invert = false, timing = "none", speed = 1 } = this.options;
+    const compare = this.options.compare ?? isDeepEqual;
+    let previousTs: number | undefined;
+
+    for (const entry of this.entries) {
+      if (this.closed) {
+        break;
+      }
+
+      const direction = invert
+        ? entry.direction === "inbound"
+          ? "outbound"
+          : "inbound"
+        : entry.direction;
+
+      if (direction === "inbound") {
+        if (timing === "original" && previousTs !== undefined) {
+          await delay(Math.max(0, entry.ts - previousTs) / speed);
+        }
+        if (this.closed) {
+          break;
+        }
+        this.result.delivered++;
+        if (this.onmessage) {
+          this.onmessage(decodeTraceMessage(entry.message) as JSONRPCMessage);
+        }
+      } else {
+        const actual = await this.nextSent();
+        if (this.closed && actual === undefined) {
+          break;
+        }
+
+        if (actual === undefined) {
+          this.result.mismatches.push({
+            seq: entry.seq,
+            expected: entry.message,
+            reason: "timeout",
+          });
+          if (this.options.strict) {
+            this.reportError(
+              new Error(`回放第 ${entry.seq} 条时等待发送消息超时`)
+            );
+          }
+        } else if (compare(entry.message, actual)) {
+          this.result.matched++;
+        } else {
+          this.result.mismatches.push({
+            seq: entry.seq,
+            expected: entry.message,
+            actual,
+            reason: "mismatch",
+          });
+          if (this.options.strict) {
+            this.reportError(
+              new Error(`回放第 ${entry.seq} 条时发送的消息与录制不一致`)
+            );
+          }
+        }
+      }
+
+      previousTs = entry.ts;
+    }
+
+    this.finish();
+  }
+}
+
+/**
+ * 创建回放 Transport
+ */
+export function createReplayTransport(
+  trace: string | TraceEntry[],
+  options?: ReplayTransportOptions
+): ReplayTransport {
+  return new ReplayTransport(trace, options);
+}
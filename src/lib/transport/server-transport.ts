@@ -5,18 +5,39 @@
 import * as postRobot from "post-robot";
 import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
-import { MCP_MESSAGE_EVENT, type ServerTransportOptions } from "./types.js";
+import {
+  MCP_HANDSHAKE_EVENT,
+  MCP_MESSAGE_EVENT,
+  type HandshakeAck,
+  type ServerTransportOptions,
+} from "./types.js";
+import {
+  getChannelEventName,
+  resolveTargetWindow,
+  watchWindowClosed,
+} from "./utils.js";
+import { OriginPolicy, TargetOriginResolver } from "./origin-policy.js";
+import { TransportEventEmitter } from "./events.js";
 
 /**
  * 基于 PostMessage 的 Server Transport
  * 用于主页面与 iframe 之间的 MCP 通信
  */
-export class PostMessageServerTransport implements Transport {
+export class PostMessageServerTransport
+  extends TransportEventEmitter
+  implements Transport
+{
   private targetWindow: Window | null = null;
-  private targetOrigin: string;
-  private allowedOrigins: string[] | undefined;
+  private targetOrigin = "*";
+  private originPolicy: OriginPolicy;
+  private originResolver: TargetOriginResolver;
+  private remoteOrigin: string | null = null;
+  private messageEvent: string;
+  private handshakeEvent: string;
   private listener: ReturnType<typeof postRobot.on> | null = null;
+  private handshakeListener: ReturnType<typeof postRobot.on> | null = null;
   private started = false;
+  private stopWatchingTarget: (() => void) | null = null;
 
   onmessage?: (message: JSONRPCMessage) => void;
   onerror?: (error: Error) => void;
@@ -24,71 +45,26 @@ export class PostMessageServerTransport implements Transport {
   private options: ServerTransportOptions;
 
   constructor(options: ServerTransportOptions) {
+    super();
     this.options = options;
-    this.targetOrigin = options.targetOrigin ?? "*";
-    this.allowedOrigins = options.allowedOrigins;
+    this.originPolicy = new OriginPolicy(options);
+    this.originResolver = new TargetOriginResolver(
+      options.target,
+      options,
+      this.originPolicy
+    );
+    this.messageEvent = getChannelEventName(MCP_MESSAGE_EVENT, options.channel);
+    this.handshakeEvent = getChannelEventName(
+      MCP_HANDSHAKE_EVENT,
+      options.channel
+    );
   }
 
   /**
-   * 检查 origin 是否在白名单中
+   * 对端窗口的 origin，尚未收到对端消息时为 undefined
    */
-  private isOriginAllowed(origin: string): boolean {
-    // 如果未配置白名单，允许所有
-    if (!this.allowedOrigins || this.allowedOrigins.length === 0) {
-      return true;
-    }
-
-    for (const allowed of this.allowedOrigins) {
-      // 精确匹配
-      if (allowed === origin) {
-        return true;
-      }
-
-      // 通配符匹配 (*.example.com)
-      if (allowed.startsWith("*.")) {
-        const domain = allowed.slice(2);
-        if (origin.endsWith(domain) || origin.endsWith("." + domain)) {
-          return true;
-        }
-      }
-
-      // 通配符匹配 (https://*.example.com)
-      if (allowed.includes("://*.")) {
-        const [protocol, rest] = allowed.split("://");
-        if (rest.startsWith("*.")) {
-          const domain = rest.slice(2);
-          if (
-            origin.startsWith(protocol + "://") &&
-            (origin.endsWith(domain) || origin.endsWith("." + domain))
-          ) {
-            return true;
-          }
-        }
-      }
-    }
-
-    return false;
-  }
-
-  /**
-   * 获取目标窗口
-   */
-  private getTargetWindow(): Window {
-    // 支持 'parent' 模式：Server 在 iframe 中运行，与父窗口通信
-    if (this.options.target === "parent") {
-      if (window === window.parent) {
-        throw new Error("使用 'parent' 模式时，Server 必须在 iframe 中运行");
-      }
-      return window.parent;
-    }
-
-    if (this.options.target instanceof HTMLIFrameElement) {
-      if (!this.options.target.contentWindow) {
-        throw new Error("iframe contentWindow 不可用");
-      }
-      return this.options.target.contentWindow;
-    }
-    return this.options.target;
+  get peerOrigin(): string | undefined {
+    return this.remoteOrigin ?? undefined;
   }
 
   /**
@@ -99,26 +75,26 @@ export class PostMessageServerTransport implements Transport {
       return;
     }
 
-    this.targetWindow = this.getTargetWindow();
+    this.targetWindow = resolveTargetWindow(this.options.target);
 
     // 清理可能存在的旧监听器
-    if (this.listener) {
-      try {
-        this.listener.cancel();
-      } catch (err) {
-        console.error("取消监听器失败:", err);
-      }
-      this.listener = null;
-    }
+    this.cancelListeners();
+
+    this.setState("connecting");
 
     try {
+      this.targetOrigin = this.originResolver.resolve();
+
       // 监听来自 Client 的消息
       this.listener = postRobot.on(
-        MCP_MESSAGE_EVENT,
+        this.messageEvent,
         { window: this.targetWindow, domain: this.targetOrigin },
         ({ origin, data }) => {
-          // 检查 origin 白名单
-          if (!this.isOriginAllowed(origin)) {
+          // 检查 origin 白名单，严格模式下还要求来自当前的目标 origin
+          if (
+            !this.originPolicy.isAllowed(origin) ||
+            !this.originResolver.accepts(origin)
+          ) {
             console.warn(`拒绝来自未授权域名的消息: ${origin}`);
             return Promise.resolve({
               received: false,
@@ -126,25 +102,73 @@ export class PostMessageServerTransport implements Transport {
             });
           }
 
+          this.remoteOrigin = origin;
           if (this.onmessage) {
             this.onmessage(data as JSONRPCMessage);
           }
+          this.emit("message", data as JSONRPCMessage);
           // post-robot 需要返回响应，但 MCP Transport 是单向的
           // 响应通过单独的 send 调用发送
           return Promise.resolve({ received: true });
         }
       );
 
+      // 响应 Client 的握手请求，表示 Server 已开始监听
+      this.handshakeListener = postRobot.on(
+        this.handshakeEvent,
+        { window: this.targetWindow, domain: this.targetOrigin },
+        ({ origin }) => {
+          const accepted =
+            this.originPolicy.isAllowed(origin) &&
+            this.originResolver.accepts(origin);
+          // 每次握手对应对端的一次连接（如 iframe 刷新后重新握手）
+          if (accepted) {
+            this.startSession(origin);
+          }
+          const ack: HandshakeAck = accepted
+            ? { ready: true }
+            : { ready: false, error: "Origin not allowed" };
+          return Promise.resolve(ack);
+        }
+      );
+
       this.started = true;
+      this.setState("connected");
+
+      // 目标窗口关闭（弹出窗口被关闭、iframe 被移除）时自动关闭 Transport
+      this.stopWatchingTarget = watchWindowClosed(this.targetWindow, () => {
+        this.close().catch((error) =>
+          console.error("关闭 Transport 失败:", error)
+        );
+      });
     } catch (error) {
       this.started = false;
+      this.setState("error");
+      const err = error instanceof Error ? error : new Error(String(error));
       if (this.onerror) {
-        this.onerror(error instanceof Error ? error : new Error(String(error)));
+        this.onerror(err);
       }
+      this.emit("error", err);
       throw error;
     }
   }
 
+  /**
+   * 取消所有 post-robot 监听器
+   */
+  private cancelListeners(): void {
+    for (const listener of [this.listener, this.handshakeListener]) {
+      if (!listener) continue;
+      try {
+        listener.cancel();
+      } catch (err) {
+        console.error("取消监听器失败:", err);
+      }
+    }
+    this.listener = null;
+    this.handshakeListener = null;
+  }
+
   /**
    * 发送消息到 Client
    */
@@ -154,13 +178,16 @@ export class PostMessageServerTransport implements Transport {
     }
 
     try {
-      await postRobot.send(this.targetWindow, MCP_MESSAGE_EVENT, message, {
-        domain: this.targetOrigin,
+      // 严格模式下每次发送都重新确定目标 origin，iframe 导航到其他 origin 后不会误发
+      await postRobot.send(this.targetWindow, this.messageEvent, message, {
+        domain: this.originResolver.resolve(),
       });
     } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
       if (this.onerror) {
-        this.onerror(error instanceof Error ? error : new Error(String(error)));
+        this.onerror(err);
       }
+      this.emit("error", err);
       throw error;
     }
   }
@@ -169,16 +196,21 @@ export class PostMessageServerTransport implements Transport {
    * 关闭 Transport
    */
   async close(): Promise<void> {
-    if (this.listener) {
-      this.listener.cancel();
-      this.listener = null;
+    if (this.stopWatchingTarget) {
+      this.stopWatchingTarget();
+      this.stopWatchingTarget = null;
     }
+    this.cancelListeners();
     this.targetWindow = null;
+    this.remoteOrigin = null;
     this.started = false;
+    this.endSession();
+    this.setState("disconnected");
 
     if (this.onclose) {
       this.onclose();
     }
+    this.emit("close", undefined);
   }
 }
 
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import type { MiddlewareContext, TraceEntry } from "./types.js";
+import {
+  TraceRecorder,
+  decodeTraceMessage,
+  encodeTraceMessage,
+  parseTrace,
+  serializeTrace,
+} from "./trace.js";
+
+const inbound: MiddlewareContext = {
+  direction: "inbound",
+  sessionId: "session-1",
+  peerOrigin: "https://widget.example.com",
+};
+const outbound: MiddlewareContext = {
+  direction: "outbound",
+  sessionId: "session-1",
+};
+
+describe("encodeTraceMessage / decodeTraceMessage", () => {
+  it("二进制数据转换为 base64 标记并还原为 ArrayBuffer", () => {
+    const message = {
+      jsonrpc: "2.0",
+      id: 1,
+      result: { data: new Uint8Array([1, 2, 255]), list: [new ArrayBuffer(2)] },
+    };
+    const encoded = encodeTraceMessage(message);
+    expect(encoded.result.data).toEqual({ $binary: "AQL/" });
+    expect(JSON.parse(JSON.stringify(encoded))).toEqual(encoded);
+
+    const decoded = decodeTraceMessage(encoded) as unknown as {
+      result: { data: ArrayBuffer; list: ArrayBuffer[] };
+    };
+    expect(decoded.result.data).toBeInstanceOf(ArrayBuffer);
+    expect([...new Uint8Array(decoded.result.data)]).toEqual([1, 2, 255]);
+    expect(decoded.result.list[0].byteLength).toBe(2);
+  });
+
+  it("普通值保持不变", () => {
+    const message = { a: [1, "x", null, { b: true }] };
+    expect(decodeTraceMessage(encodeTraceMessage(message))).toEqual(message);
+  });
+});
+
+describe("serializeTrace / parseTrace", () => {
+  const entries: TraceEntry[] = [
+    {
+      v: 1,
+      seq: 0,
+      ts: 1700000000000,
+      direction: "inbound",
+      origin: "https://widget.example.com",
+      message: { jsonrpc: "2.0", id: 1, method: "ping" },
+    },
+    {
+      v: 1,
+      seq: 1,
+      ts: 1700000000005,
+      direction: "outbound",
+      message: { jsonrpc: "2.0", id: 1, result: {} },
+    },
+  ];
+
+  it("每行一个条目并可以还原", () => {
+    const text = serializeTrace(entries);
+    expect(text.split("\n")).toHaveLength(3);
+    expect(parseTrace(text)).toEqual(entries);
+  });
+
+  it("忽略空行与 CRLF 换行", () => {
+    const text = serializeTrace(entries).replace(/\n/g, "\r\n\r\n");
+    expect(parseTrace(text)).toEqual(entries);
+  });
+
+  it("无效的行报告行号", () => {
+    const text = serializeTrace(entries) + "{oops\n";
+    expect(() => parseTrace(text)).toThrow("第 3 行不是有效的 JSON");
+  });
+
+  it("拒绝不支持的格式版本与缺少字段的条目", () => {
+    expect(() => parseTrace(JSON.stringify({ ...entries[0], v: 2 }))).toThrow(
+      "格式版本不受支持"
+    );
+    expect(() =>
+      parseTrace(JSON.stringify({ ...entries[0], direction: "sideways" }))
+    ).toThrow("不是有效的录制条目");
+    expect(() =>
+      parseTrace(JSON.stringify({ ...entries[0], message: null }))
+    ).toThrow("不是有效的录制条目");
+  });
+});
+
+describe("TraceRecorder", () => {
+  const ping = { jsonrpc: "2.0" as const, id: 1, method: "ping" };
+
+  it("记录方向、来源与会话 ID", () => {
+    const recorder = new TraceRecorder({ localOrigin: "https://host.com" });
+    recorder.record(ping, inbound);
+    recorder.record({ jsonrpc: "2.0", id: 1, result: {} }, outbound);
+
+    const [received, sent] = recorder.entries;
+    expect(received).toMatchObject({
+      v: 1,
+      seq: 0,
+      direction: "inbound",
+      origin: "https://widget.example.com",
+      sessionId: "session-1",
+      message: ping,
+    });
+    expect(sent).toMatchObject({
+      seq: 1,
+      direction: "outbound",
+      origin: "https://host.com",
+    });
+    expect(parseTrace(recorder.toJSONL())).toEqual(recorder.entries);
+  });
+
+  it("录制快照，不受之后修改消息的影响", () => {
+    const recorder = new TraceRecorder();
+    const message = { ...ping, params: { value: 1 } };
+    recorder.record(message, inbound);
+    message.params.value = 2;
+    expect(recorder.entries[0].message).toMatchObject({
+      params: { value: 1 },
+    });
+  });
+
+  it("被过滤的条目不占用序号", () => {
+    const recorder = new TraceRecorder({
+      filter: (entry) => entry.direction === "outbound",
+    });
+    expect(recorder.record(ping, inbound)).toBeNull();
+    recorder.record(ping, outbound);
+    expect(recorder.entries.map((entry) => entry.seq)).toEqual([0]);
+  });
+
+  it("超出 maxEntries 时丢弃最早的条目", () => {
+    const recorder = new TraceRecorder({ maxEntries: 2 });
+    for (let i = 0; i < 3; i++) {
+      recorder.record({ ...ping, id: i }, inbound);
+    }
+    expect(recorder.entries.map((entry) => entry.seq)).toEqual([1, 2]);
+  });
+
+  it("中间件录制并原样传递消息", async () => {
+    const recorder = new TraceRecorder();
+    const entries: TraceEntry[] = [];
+    recorder.onentry = (entry) => entries.push(entry);
+
+    const passed: unknown[] = [];
+    await recorder.middleware.inbound!(
+      ping,
+      async (message) => {
+        passed.push(message);
+      },
+      inbound
+    );
+    expect(passed).toEqual([ping]);
+    expect(entries).toHaveLength(1);
+
+    recorder.clear();
+    expect(recorder.entries).toEqual([]);
+    expect(recorder.record(ping, inbound)?.seq).toBe(0);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * 消息录制
+ *
+ * 录制文件为 JSONL 格式：每行一个 TraceEntry，按录制顺序排列，例如
+ * {"v":1,"seq":0,"ts":1700000000000,"direction":"inbound","origin":"https://widget.example.com","message":{...}}
+ */
+
+import {
+  TRACE_FORMAT_VERSION,
+  type MiddlewareContext,
+  type MiddlewareMessage,
+  type TraceEntry,
+  type TraceRecorderOptions,
+  type TransportMiddleware,
+} from "./types.js";
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  isBinaryData,
+} from "./binary.js";
+
+/**
+ * 将消息转换为可 JSON 序列化的形式，二进制数据转换为 { $binary } 标记
+ */
+export function encodeTraceMessage<T>(value: T): T {
+  if (isBinaryData(value)) {
+    if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+      return { $binary: arrayBufferToBase64(value) } as T;
+    }
+    return { $binary: null, $type: value.constructor.name } as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeTraceMessage) as T;
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        encodeTraceMessage(item),
+      ])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * 还原录制的消息，{ $binary } 标记还原为 ArrayBuffer
+ */
+export function decodeTraceMessage<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(decodeTraceMessage) as T;
+  }
+  if (value !== null && typeof value === "object") {
+    const binary = (value as { $binary?: unknown }).$binary;
+    if (typeof binary === "string") {
+      return base64ToArrayBuffer(binary) as T;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        decodeTraceMessage(item),
+      ])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * 将录制条目序列化为 JSONL
+ */
+export function serializeTrace(entries: TraceEntry[]): string {
+  return entries.map((entry) => JSON.stringify(entry) + "\n").join("");
+}
+
+/**
+ * 解析 JSONL 录制文件
+ */
+export function parseTrace(text: string): TraceEntry[] {
+  const entries: TraceEntry[] = [];
+  const lines = text.split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    let entry: TraceEntry;
+    try {
+      entry = JSON.parse(line) as TraceEntry;
+    } catch {
+      throw new Error(`录制文件第 ${index + 1} 行不是有效的 JSON`);
+    }
+
+    if (entry.v !== TRACE_FORMAT_VERSION) {
+      throw new Error(
+        `录制文件第 ${index + 1} 行的格式版本不受支持: ${String(entry.v)}`
+      );
+    }
+    if (
+      (entry.direction !== "inbound" && entry.direction !== "outbound") ||
+      typeof entry.ts !== "number" ||
+      typeof entry.message !== "object" ||
+      entry.message === null
+    ) {
+      throw new Error(`录制文件第 ${index + 1} 行不是有效的录制条目`);
+    }
+    entries.push(entry);
+  });
+
+  return entries;
+}
+
+/**
+ * 消息录制器
+ *
+ * 以中间件的形式接入任意 Transport，记录每条收发的 JSON-RPC 消息及其时间、方向和来源 origin。
+ * 中间件数组中越靠前越接近应用，放在最后可录制最接近实际传输的消息。
+ *
+ * @example
+ * ```ts
+ * const recorder = new TraceRecorder();
+ * await server.connect(iframe, { middleware: [recorder.middleware] });
+ * // ...
+ * const jsonl = recorder.toJSONL();
+ * ```
+ */
+export class TraceRecorder {
+  private options: TraceRecorderOptions;
+  private records: TraceEntry[] = [];
+  private seq = 0;
+
+  /**
+   * 录制中间件
+   */
+  readonly middleware: TransportMiddleware;
+
+  /**
+   * 每录制一个条目时回调，可用于实时写出
+   */
+  onentry?: (entry: TraceEntry) => void;
+
+  constructor(options: TraceRecorderOptions = {}) {
+    this.options = options;
+    this.middleware = {
+      name: "trace-recorder",
+      inbound: (message, next, context) => {
+        this.record(message, context);
+        return next(message);
+      },
+      outbound: (message, next, context) => {
+        this.record(message, context);
+        return next(message);
+      },
+    };
+  }
+
+  /**
+   * 已录制的条目
+   */
+  get entries(): TraceEntry[] {
+    return [...this.records];
+  }
+
+  /**
+   * 录制一条消息
+   * @returns 录制的条目，被过滤时返回 null
+   */
+  record(
+    message: MiddlewareMessage,
+    context: MiddlewareContext
+  ): TraceEntry | null {
+    const localOrigin =
+      this.options.localOrigin ??
+      (typeof location !== "undefined" ? location.origin : undefined);
+    const origin =
+      context.direction === "outbound" ? localOrigin : context.peerOrigin;
+
+    const entry: TraceEntry = {
+      v: TRACE_FORMAT_VERSION,
+      seq: this.seq,
+      ts: Date.now(),
+      direction: context.direction,
+      ...(origin !== undefined && { origin }),
+      ...(context.sessionId !== undefined && {
+        sessionId: context.sessionId,
+      }),
+      // 立即转换为快照，避免消息之后被修改或其中的 ArrayBuffer 被转移
+      message: encodeTraceMessage(message),
+    };
+
+    if (this.options.filter && !this.options.filter(entry)) {
+      return null;
+    }
+
+    this.seq++;
+    this.records.push(entry);
+    const { maxEntries } = this.options;
+    if (maxEntries !== undefined && this.records.length > maxEntries) {
+      this.records.splice(0, this.records.length - maxEntries);
+    }
+
+    if (this.onentry) {
+      this.onentry(entry);
+    }
+    return entry;
+  }
+
+  /**
+   * 清空已录制的条目
+   */
+  clear(): void {
+    this.records = [];
+    this.seq = 0;
+  }
+
+  /**
+   * 导出为 JSONL 录制文件
+   */
+  toJSONL(): string {
+    return serializeTrace(this.records);
+  }
+}
+
+/**
+ * 创建消息录制器
+ */
+export function createTraceRecorder(
+  options?: TraceRecorderOptions
+): TraceRecorder {
+  return new TraceRecorder(options);
+}
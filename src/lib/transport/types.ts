@@ -2,18 +2,664 @@
  * PostMessage Transport 类型定义
  */
 
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import type { HmacSecret } from "./auth.js";
 
 /**
  * MCP 消息类型
  */
 export type McpMessage = JSONRPCMessage;
 
+/**
+ * JSON-RPC 批量消息
+ * SDK 的 JSONRPCMessage 不包含批量数组，各 Transport 将其作为一条消息原样传输
+ */
+export type JSONRPCBatch = JSONRPCMessage[];
+
 /**
  * PostMessage 通信事件名称
+ * 配置了 channel 时实际使用的事件名为 'mcp-message:<channel>'
  */
 export const MCP_MESSAGE_EVENT = "mcp-message";
 
+/**
+ * post-robot 握手事件名称
+ * Client 启动时发送，Server 返回 ack 表示已开始监听
+ */
+export const MCP_HANDSHAKE_EVENT = "mcp-handshake";
+
+/**
+ * 单次握手尝试的默认超时时间（毫秒）
+ */
+export const DEFAULT_HANDSHAKE_TIMEOUT = 1000;
+
+/**
+ * 握手失败后的默认重试次数
+ */
+export const DEFAULT_HANDSHAKE_RETRIES = 5;
+
+/**
+ * 握手 ack 内容
+ */
+export interface HandshakeAck {
+  ready: boolean;
+  error?: string;
+}
+
+/**
+ * MessageChannel 握手请求（Client -> Server）
+ */
+export const MCP_CHANNEL_HELLO = "mcp-channel-hello";
+
+/**
+ * MessageChannel 握手确认（Server -> Client），携带专用 MessagePort
+ */
+export const MCP_CHANNEL_ACK = "mcp-channel-ack";
+
+/**
+ * MessageChannel Server 就绪通知（Server -> Client）
+ * Client 收到后立即重发 hello，无需等待下一次重试
+ */
+export const MCP_CHANNEL_READY = "mcp-channel-ready";
+
+/**
+ * MessageChannel 握手消息
+ */
+export interface ChannelHandshakeMessage {
+  type: typeof MCP_CHANNEL_HELLO | typeof MCP_CHANNEL_ACK;
+  /**
+   * 由 Client 生成的会话 ID，用于匹配握手请求与确认
+   * 各 Client Transport 的握手会话 ID 都只在内部使用，不作为 Transport.sessionId 暴露：
+   * SDK Client 连接后发现 sessionId 已存在会认为是恢复会话而跳过初始化
+   */
+  sessionId: string;
+  /**
+   * 通信频道，未配置时不携带
+   */
+  channel?: string;
+}
+
+/**
+ * MessageChannel 就绪通知消息
+ */
+export interface ChannelReadyMessage {
+  type: typeof MCP_CHANNEL_READY;
+  /**
+   * 通信频道，未配置时不携带
+   */
+  channel?: string;
+}
+
+/**
+ * 默认的 BroadcastChannel 名称
+ */
+export const MCP_BROADCAST_CHANNEL = "mcp-broadcast";
+
+/**
+ * BroadcastChannel 上传输的消息信封
+ * 同一频道上的所有页面都会收到，通过 from/to/sessionId 过滤
+ */
+export interface BroadcastEnvelope {
+  type: "hello" | "ack" | "message" | "close";
+  /**
+   * 发送方 peer ID
+   */
+  from: string;
+  /**
+   * 接收方 peer ID，hello 可以不指定（由任意 Server 响应）
+   */
+  to?: string;
+  /**
+   * 由 Client 生成的会话 ID
+   */
+  sessionId: string;
+  /**
+   * JSON-RPC 消息（仅 type 为 'message' 时存在）
+   */
+  payload?: JSONRPCMessage;
+}
+
+/**
+ * Worker 通信消息类型
+ */
+export const MCP_WORKER_HELLO = "mcp-worker-hello";
+export const MCP_WORKER_ACK = "mcp-worker-ack";
+export const MCP_WORKER_READY = "mcp-worker-ready";
+export const MCP_WORKER_MESSAGE = "mcp-worker-message";
+export const MCP_WORKER_CLOSE = "mcp-worker-close";
+
+/**
+ * Worker 上传输的消息信封
+ * 带类型标记，可以与应用自身的 Worker 消息共存
+ */
+export interface WorkerEnvelope {
+  type:
+    | typeof MCP_WORKER_HELLO
+    | typeof MCP_WORKER_ACK
+    | typeof MCP_WORKER_READY
+    | typeof MCP_WORKER_MESSAGE
+    | typeof MCP_WORKER_CLOSE;
+  /**
+   * 由 Client 生成的会话 ID（ready 消息没有）
+   */
+  sessionId?: string;
+  /**
+   * JSON-RPC 消息（仅 type 为 message 时存在）
+   */
+  payload?: JSONRPCMessage;
+}
+
+/**
+ * 可收发消息的端点
+ * Worker、MessagePort、Worker 内部的全局作用域（self）都满足该接口
+ */
+export interface MessageEndpoint {
+  postMessage(message: unknown, transfer?: Transferable[]): void;
+  addEventListener(
+    type: "message",
+    listener: (event: MessageEvent) => void
+  ): void;
+  removeEventListener(
+    type: "message",
+    listener: (event: MessageEvent) => void
+  ): void;
+  /**
+   * MessagePort 使用 addEventListener 时需要显式调用 start()
+   */
+  start?(): void;
+}
+
+/**
+ * 分块消息使用的 JSON-RPC 通知方法名
+ * 分块以普通通知的形式经由内层 Transport 发送，中间的转发层无需感知
+ */
+export const MCP_CHUNK_METHOD = "notifications/postmessage-mcp/chunk";
+
+/**
+ * 默认分块大小（字符数）
+ */
+export const DEFAULT_CHUNK_SIZE = 256 * 1024;
+
+/**
+ * 默认的单条消息大小上限（字符数）
+ */
+export const DEFAULT_MAX_MESSAGE_SIZE = 64 * 1024 * 1024;
+
+/**
+ * 默认的分块重组超时时间（毫秒）
+ */
+export const DEFAULT_CHUNK_TIMEOUT = 30000;
+
+/**
+ * 默认同时重组的分块消息数上限
+ */
+export const DEFAULT_MAX_PENDING_MESSAGES = 16;
+
+/**
+ * 分块通知参数
+ */
+export interface ChunkParams {
+  /**
+   * 所属消息 ID，同一条消息的所有分块相同
+   */
+  messageId: string;
+  /**
+   * 分块序号，从 0 开始
+   */
+  index: number;
+  /**
+   * 分块总数
+   */
+  total: number;
+  /**
+   * 完整消息的大小（字符数）
+   */
+  size: number;
+  /**
+   * 完整消息的校验和，重组后校验
+   */
+  checksum: string;
+  /**
+   * 分块内容（序列化后 JSON 的一段）
+   */
+  data: string;
+}
+
+/**
+ * 分块传输配置
+ * 通信双方需要同时启用
+ */
+export interface ChunkingOptions {
+  /**
+   * 分块大小（字符数），序列化后超过该大小的消息会被拆分，默认 256K
+   */
+  chunkSize?: number;
+  /**
+   * 单条消息大小上限（字符数），发送、接收和重组时超过上限都会被拒绝，默认 64M
+   * 接收包含二进制数据的消息时，二进制部分按字节数计算
+   */
+  maxMessageSize?: number;
+  /**
+   * 同时重组的分块消息数上限，超出后新消息的分块会被丢弃，默认 16
+   */
+  maxPendingMessages?: number;
+  /**
+   * 分块重组超时时间（毫秒），超时未收齐的消息会被丢弃，默认 30000
+   */
+  chunkTimeout?: number;
+}
+
+/**
+ * 中间件处理的消息：单条 JSON-RPC 消息或批量数组
+ */
+export type MiddlewareMessage = JSONRPCMessage | JSONRPCBatch;
+
+/**
+ * 中间件上下文
+ */
+export interface MiddlewareContext {
+  /**
+   * 消息方向：inbound 为收到的消息，outbound 为发送的消息
+   */
+  direction: "inbound" | "outbound";
+  /**
+   * 内层 Transport 的会话 ID
+   */
+  sessionId?: string;
+  /**
+   * 对端的 origin，Transport 不支持或尚未确定时为 undefined
+   */
+  peerOrigin?: string;
+}
+
+/**
+ * 把消息交给下一个中间件，最后一个中间件之后为实际发送或交给上层
+ * 不调用即丢弃消息；传入不同的消息即改写消息
+ */
+export type MiddlewareNext = (message: MiddlewareMessage) => Promise<void>;
+
+/**
+ * 消息中间件处理函数
+ */
+export type MessageMiddleware = (
+  message: MiddlewareMessage,
+  next: MiddlewareNext,
+  context: MiddlewareContext
+) => void | Promise<void>;
+
+/**
+ * Transport 中间件
+ * 发送的消息按数组顺序经过各中间件的 outbound，收到的消息按相反顺序经过 inbound
+ */
+export interface TransportMiddleware {
+  /**
+   * 名称，用于错误信息
+   */
+  name?: string;
+  /**
+   * 处理收到的消息
+   */
+  inbound?: MessageMiddleware;
+  /**
+   * 处理发送的消息
+   */
+  outbound?: MessageMiddleware;
+  /**
+   * 内层 Transport 发生错误时回调
+   */
+  onerror?: (error: Error) => void;
+  /**
+   * 内层 Transport 关闭时回调
+   */
+  onclose?: () => void;
+}
+
+/**
+ * 录制文件格式版本
+ */
+export const TRACE_FORMAT_VERSION = 1;
+
+/**
+ * 录制条目，录制文件（JSONL）的每一行为一个条目
+ */
+export interface TraceEntry {
+  /**
+   * 格式版本，当前为 1
+   */
+  v: typeof TRACE_FORMAT_VERSION;
+  /**
+   * 条目序号，从 0 开始递增
+   */
+  seq: number;
+  /**
+   * 录制时间（Unix 毫秒时间戳）
+   */
+  ts: number;
+  /**
+   * 消息方向：inbound 为录制方收到的消息，outbound 为录制方发送的消息
+   */
+  direction: "inbound" | "outbound";
+  /**
+   * 消息发送方的 origin：outbound 为录制方页面的 origin，inbound 为对端的 origin，无法获取时省略
+   */
+  origin?: string;
+  /**
+   * Transport 的会话 ID
+   */
+  sessionId?: string;
+  /**
+   * JSON-RPC 消息或批量消息
+   * ArrayBuffer 与 TypedArray 记录为 { "$binary": "<base64>" }，
+   * Blob 与 ImageBitmap 无法同步读取，记录为 { "$binary": null, "$type": "Blob" }
+   */
+  message: MiddlewareMessage;
+}
+
+/**
+ * 录制器配置
+ */
+export interface TraceRecorderOptions {
+  /**
+   * 最多保留的条目数，超出后丢弃最早的条目，默认不限制
+   */
+  maxEntries?: number;
+  /**
+   * 录制方页面的 origin，默认为 location.origin
+   */
+  localOrigin?: string;
+  /**
+   * 过滤条目，返回 false 时不录制
+   */
+  filter?: (entry: TraceEntry) => boolean;
+}
+
+/**
+ * 回放 Transport 配置
+ */
+export interface ReplayTransportOptions {
+  /**
+   * 反转录制方向，用于以对端身份回放（如用 Client 端录制的文件驱动 McpServer），默认 false
+   */
+  invert?: boolean;
+  /**
+   * 回放节奏：none 为不等待，original 为按录制时的时间间隔投递，默认 none
+   */
+  timing?: "none" | "original";
+  /**
+   * timing 为 original 时的回放速度倍数，默认 1
+   */
+  speed?: number;
+  /**
+   * 等待被测方发送预期消息的超时时间（毫秒），默认 5000
+   */
+  stepTimeout?: number;
+  /**
+   * 严格模式：实际发送的消息与录制不一致时通过 onerror 报错，默认 false
+   */
+  strict?: boolean;
+  /**
+   * 是否声明支持直接传输二进制数据，应与录制时的 Transport 一致，默认 false
+   */
+  supportsBinary?: boolean;
+  /**
+   * 比较预期消息与实际发送的消息，默认为深度相等比较
+   */
+  compare?: (expected: MiddlewareMessage, actual: MiddlewareMessage) => boolean;
+}
+
+/**
+ * 回放中预期与实际不一致的消息
+ */
+export interface ReplayMismatch {
+  /**
+   * 录制条目序号
+   */
+  seq: number;
+  /**
+   * 录制的消息
+   */
+  expected: MiddlewareMessage;
+  /**
+   * 实际发送的消息，超时未发送时为 undefined
+   */
+  actual?: MiddlewareMessage;
+  /**
+   * 原因：mismatch 为内容不一致，timeout 为超时未发送
+   */
+  reason: "mismatch" | "timeout";
+}
+
+/**
+ * 回放结果
+ */
+export interface ReplayResult {
+  /**
+   * 投递给被测方的消息数
+   */
+  delivered: number;
+  /**
+   * 与录制一致的发送消息数
+   */
+  matched: number;
+  /**
+   * 与录制不一致的消息
+   */
+  mismatches: ReplayMismatch[];
+  /**
+   * 录制中没有对应条目的多余发送消息
+   */
+  unexpected: MiddlewareMessage[];
+}
+
+/**
+ * 内存 Transport 对的一端
+ */
+export type LoopbackSide = "server" | "client";
+
+/**
+ * 内存 Transport 对配置
+ */
+export interface LoopbackTransportOptions {
+  /**
+   * 模拟的传输延迟（毫秒），可以是固定值或按消息计算，默认 0
+   * 延迟不会改变消息的先后顺序
+   */
+  delay?: number | ((message: JSONRPCMessage, from: LoopbackSide) => number);
+  /**
+   * 随机丢弃消息的概率（0 ~ 1），默认 0
+   */
+  dropRate?: number;
+  /**
+   * 自定义丢弃规则，返回 true 时丢弃该消息
+   */
+  drop?: (message: JSONRPCMessage, from: LoopbackSide) => boolean;
+  /**
+   * 是否支持直接传输二进制数据，默认 true
+   */
+  supportsBinary?: boolean;
+}
+
+/**
+ * 默认心跳间隔（毫秒）
+ */
+export const DEFAULT_HEARTBEAT_INTERVAL = 5000;
+
+/**
+ * 默认的单次心跳超时时间（毫秒）
+ */
+export const DEFAULT_HEARTBEAT_TIMEOUT = 3000;
+
+/**
+ * 默认允许连续丢失的心跳次数
+ */
+export const DEFAULT_HEARTBEAT_MAX_MISSED = 2;
+
+/**
+ * 心跳配置
+ * 基于 MCP ping 方法周期性探测对端是否存活
+ */
+export interface HeartbeatOptions {
+  /**
+   * 心跳间隔（毫秒），默认 5000
+   */
+  interval?: number;
+  /**
+   * 单次 ping 的超时时间（毫秒），默认 3000
+   */
+  timeout?: number;
+  /**
+   * 连续丢失多少次心跳后判定对端已断开，默认 2
+   */
+  maxMissed?: number;
+}
+
+/**
+ * 加密通道密钥交换通知的方法名
+ */
+export const MCP_KEY_EXCHANGE_METHOD =
+  "notifications/postmessage-mcp/key-exchange";
+
+/**
+ * 加密消息通知的方法名
+ */
+export const MCP_ENCRYPTED_METHOD = "notifications/postmessage-mcp/encrypted";
+
+/**
+ * 默认的密钥交换超时时间（毫秒）
+ */
+export const DEFAULT_KEY_EXCHANGE_TIMEOUT = 5000;
+
+/**
+ * 密钥交换通知参数
+ */
+export interface KeyExchangeParams {
+  /**
+   * ECDH P-256 公钥（raw 格式，base64）
+   */
+  publicKey: string;
+  /**
+   * 随机数（base64）：Client 每次发起时生成，Server 响应时原样带回，防止重放旧的密钥交换消息
+   */
+  nonce: string;
+  /**
+   * 使用共享密钥对角色、随机数与公钥计算的 HMAC 签名（base64），配置了 secret 时必须提供
+   */
+  signature?: string;
+}
+
+/**
+ * 加密消息通知参数
+ */
+export interface EncryptedParams {
+  /**
+   * AES-GCM 初始向量（base64）
+   */
+  iv: string;
+  /**
+   * 密文：Transport 支持二进制时为 ArrayBuffer，否则为 base64 字符串
+   */
+  data: string | ArrayBuffer;
+}
+
+/**
+ * 端到端加密配置
+ */
+export interface EncryptionOptions {
+  /**
+   * 等待对端公钥的超时时间（毫秒），默认 5000
+   */
+  keyExchangeTimeout?: number;
+  /**
+   * 双方预先共享的密钥，设置后交换的公钥使用 HMAC 签名校验，
+   * 防止中间的转发窗口替换公钥（主动中间人攻击），对端需要配置相同密钥
+   */
+  secret?: HmacSecret;
+}
+
+/**
+ * initialize 请求 _meta 中携带认证凭证的键
+ */
+export const MCP_AUTH_META_KEY = "postmessage-mcp/auth";
+
+/**
+ * 获取 HMAC 挑战的请求方法，Client 在 initialize 之前调用
+ */
+export const MCP_AUTH_CHALLENGE_METHOD = "postmessage-mcp/auth/challenge";
+
+/**
+ * 认证失败或未认证时返回的 JSON-RPC 错误码
+ */
+export const MCP_AUTH_ERROR_CODE = -32001;
+
+/**
+ * 一次性 token 与 HMAC 挑战的默认有效期（毫秒）
+ */
+export const DEFAULT_AUTH_TTL = 60000;
+
+/**
+ * 请求超出限流或排队上限时返回的 JSON-RPC 错误码
+ * 错误的 data 中包含 reason 与建议的重试等待时间 retryAfter（毫秒）
+ */
+export const MCP_RATE_LIMIT_ERROR_CODE = -32029;
+
+/**
+ * Client 在 initialize 请求中提交的认证凭证
+ * - token：一次性 token 或由 Server 自定义校验的 token
+ * - hmac：使用共享密钥对 Server 下发的挑战 nonce 计算的 HMAC-SHA256 签名（base64）
+ */
+export type AuthCredentials =
+  | { type: "token"; token: string }
+  | { type: "hmac"; keyId: string; nonce: string; signature: string };
+
+/**
+ * 请求 _meta 中携带转发路径的键，由经过的每一级 McpRelay 追加
+ */
+export const MCP_ROUTE_META_KEY = "postmessage-mcp/route";
+
+/**
+ * 转发路径中的一跳，记录中转窗口从哪个下级窗口收到该请求
+ */
+export interface RouteHop {
+  /**
+   * 下级窗口的 origin，Transport 无法确定时为 null
+   */
+  origin: string | null;
+  /**
+   * 下级窗口在中转窗口中的会话 ID
+   */
+  sessionId: string;
+  /**
+   * 中转窗口的名称
+   */
+  relay: string;
+}
+
+/**
+ * 认证通过后的对端身份
+ */
+export interface AuthIdentity {
+  /**
+   * 身份 ID：签发 token 时指定的 ID，或 HMAC 密钥 ID
+   */
+  id: string;
+  /**
+   * 认证方式
+   */
+  method: AuthCredentials["type"];
+  /**
+   * 附加信息，如签发 token 时附带的权限
+   */
+  claims?: Record<string, unknown>;
+}
+
+/**
+ * Transport 类型
+ * - 'post-robot'：所有消息通过 post-robot 在共享事件名上收发（默认）
+ * - 'message-channel'：握手后通过专用 MessagePort 收发
+ */
+export type TransportType = "post-robot" | "message-channel";
+
 /**
  * Transport 状态
  */
@@ -32,34 +678,254 @@ export interface TransportEventHandlers {
   onClose?: () => void;
 }
 
+/**
+ * Transport 会话事件
+ */
+export interface TransportSessionEvent {
+  /**
+   * 对端窗口的 origin
+   */
+  origin: string;
+}
+
+/**
+ * Transport 生命周期事件
+ */
+export interface TransportEventMap {
+  /**
+   * 状态变化：start 期间为 connecting，启动成功后为 connected，启动失败为 error，关闭后为 disconnected
+   */
+  stateChange: TransportState;
+  /**
+   * 收到对端消息
+   */
+  message: McpMessage;
+  /**
+   * 启动、发送或接收时出错
+   */
+  error: Error;
+  /**
+   * Transport 已关闭
+   */
+  close: void;
+  /**
+   * 与对端建立会话：Client 握手成功，或 Server 接受了对端的握手
+   */
+  sessionStart: TransportSessionEvent;
+  /**
+   * 与对端的会话结束：Transport 关闭，或对端重新握手替换了旧会话
+   */
+  sessionEnd: TransportSessionEvent;
+}
+
+/**
+ * Origin 规则
+ * - 字符串：'https://example.com'（精确匹配，含默认端口）、'https://example.com:8080'（指定端口）、
+ *   '*.example.com'（子域名，不含 example.com 本身）、'https://*.example.com'（限定协议的子域名）、
+ *   'example.com:*'（任意端口）、'*'（任意非 null origin）、'null'（不透明的 null origin）
+ * - 正则表达式：匹配规范化后的 origin 字符串，如 /^https:\/\/[a-z]+\.example\.com$/
+ * - 函数：返回 true 表示匹配
+ */
+export type OriginRule = string | RegExp | ((origin: string) => boolean);
+
+/**
+ * Origin 策略配置
+ */
+export interface OriginPolicyOptions {
+  /**
+   * 允许通信的 origin 白名单，不配置则允许所有 origin（拒绝名单仍然生效）
+   * 如：['https://example.com', 'https://*.example.com', /^https:\/\/.+\.trusted\.com$/]
+   */
+  allowedOrigins?: OriginRule[];
+  /**
+   * 拒绝通信的 origin 名单，优先于白名单
+   */
+  deniedOrigins?: OriginRule[];
+  /**
+   * 是否允许不透明的 'null' origin（沙箱 iframe、file:// 页面等）
+   * 不配置时：未配置白名单则允许，配置了白名单则只有白名单包含 'null' 时允许
+   * 正则与函数规则不会匹配 null origin
+   */
+  allowNullOrigin?: boolean;
+}
+
+/**
+ * 目标 origin 配置
+ */
+export interface TargetOriginOptions {
+  /**
+   * 发送消息的目标 origin，默认为 '*'
+   * 严格模式下不配置时自动推导
+   */
+  targetOrigin?: string;
+  /**
+   * 严格模式，默认 false
+   * 开启后未配置 targetOrigin 时，从 iframe.src（或 iframe 内的 document.referrer）推导目标 origin，
+   * 拒绝向 '*' 发送消息，并在每次发送前重新检查目标 origin（iframe 导航到其他 origin 后发送失败）
+   */
+  strictOrigin?: boolean;
+  /**
+   * 严格模式下是否允许向 '*' 发送消息，默认 false
+   * 无法推导目标 origin 或 targetOrigin 显式配置为 '*' 时才会使用 '*'
+   */
+  allowWildcardOrigin?: boolean;
+}
+
 /**
  * Server Transport 配置
  */
-export interface ServerTransportOptions {
+export interface ServerTransportOptions
+  extends OriginPolicyOptions,
+    TargetOriginOptions {
   /**
-   * 目标 iframe 元素、Window 对象，或 'parent' 表示父窗口
+   * 目标 iframe 元素、Window 对象，'parent' 表示父窗口，'opener' 表示打开当前窗口的窗口
    * 当设置为 'parent' 时，Server 运行在 iframe 中，与父窗口通信
+   * 当设置为 'opener' 时，Server 运行在弹出窗口中，与 window.opener 通信
    */
-  target: HTMLIFrameElement | Window | "parent";
+  target: HTMLIFrameElement | Window | "parent" | "opener";
   /**
-   * 允许的 origin，默认为 '*'
+   * 通信频道（命名空间），用于在同一对窗口之间运行多个互不干扰的 MCP 会话
+   * 只与配置了相同频道的对端通信，不配置时使用默认频道
    */
-  targetOrigin?: string;
+  channel?: string;
+}
+
+/**
+ * BroadcastChannel Server Transport 配置
+ */
+export interface BroadcastServerTransportOptions {
+  /**
+   * 频道名称，默认为 'mcp-broadcast'
+   */
+  channelName?: string;
+  /**
+   * 本端 peer ID，Client 可通过 targetPeerId 指定连接该 Server
+   * 不配置时自动生成
+   */
+  peerId?: string;
+  /**
+   * 只接受指定 peer ID 的 Client，不配置则绑定第一个发起握手的 Client
+   */
+  remotePeerId?: string;
   /**
-   * 允许通信的域名白名单列表，不配置则允许所有域名
-   * 支持精确匹配和通配符，如：['https://example.com', '*.example.com']
+   * 预先绑定的会话 ID（由 BroadcastChannelListener 创建会话时使用）
    */
-  allowedOrigins?: string[];
+  sessionId?: string;
+}
+
+/**
+ * BroadcastChannel Client Transport 配置
+ */
+export interface BroadcastClientTransportOptions {
+  /**
+   * 频道名称，默认为 'mcp-broadcast'
+   */
+  channelName?: string;
+  /**
+   * 本端 peer ID，不配置时自动生成
+   */
+  peerId?: string;
+  /**
+   * 目标 Server 的 peer ID
+   * 同一频道上有多个 Server 时用于指定连接对象，不配置则连接第一个响应的 Server
+   */
+  targetPeerId?: string;
+  /**
+   * 单次握手尝试的超时时间（毫秒），默认 1000
+   */
+  handshakeTimeout?: number;
+  /**
+   * 握手失败后的重试次数，默认 5
+   */
+  handshakeRetries?: number;
+}
+
+/**
+ * Worker Server Transport 配置
+ */
+export interface WorkerServerTransportOptions {
+  /**
+   * 通信端点，默认为当前全局作用域（在 Worker 内部运行时即 self）
+   * 在页面中运行 Server、Worker 中运行 Client 时，传入 Worker 实例
+   */
+  endpoint?: MessageEndpoint;
+  /**
+   * Client 关闭会话时是否同时关闭 Transport，默认 false（等待新的握手）
+   * SharedWorker 的每个端口只服务一个页面，由 SharedWorkerListener 设为 true
+   */
+  closeOnPeerClose?: boolean;
+}
+
+/**
+ * Worker Client Transport 配置
+ */
+export interface WorkerClientTransportOptions {
+  /**
+   * 通信端点，可以是 Worker、SharedWorker、MessagePort
+   * 默认为当前全局作用域（在 Worker 内部运行 Client 时即 self）
+   */
+  endpoint?: MessageEndpoint | SharedWorker;
+  /**
+   * 单次握手尝试的超时时间（毫秒），默认 1000
+   */
+  handshakeTimeout?: number;
+  /**
+   * 握手失败后的重试次数，默认 5
+   */
+  handshakeRetries?: number;
+}
+
+/**
+ * 弹出窗口配置
+ */
+export interface PopupOptions {
+  /**
+   * 弹出窗口地址
+   */
+  url: string;
+  /**
+   * 窗口名称，默认为 '_blank'
+   */
+  name?: string;
+  /**
+   * window.open 的 features 参数，如 'width=600,height=800'
+   */
+  features?: string;
+}
+
+/**
+ * Transport 监听器
+ * 用于一对多的通信方式（如 BroadcastChannel、SharedWorker），每个新 Client 产生一个独立的 Transport
+ * 通过 McpServer.listen() 使用，每个 Transport 对应一个会话
+ */
+export interface TransportListener {
+  /**
+   * 新 Client 接入时回调
+   */
+  onconnection?: (transport: Transport) => void;
+  onerror?: (error: Error) => void;
+  /**
+   * 开始监听
+   */
+  start(): Promise<void>;
+  /**
+   * 停止监听（不会关闭已建立的 Transport）
+   */
+  close(): Promise<void>;
 }
 
 /**
  * Client Transport 配置
  */
-export interface ClientTransportOptions {
+export interface ClientTransportOptions
+  extends OriginPolicyOptions,
+    TargetOriginOptions {
   /**
    * 目标窗口，可以是：
    * - 父窗口（默认 window.parent，用于 iframe 中的 Client）
    * - iframe 的 contentWindow（用于主页面中的 Client 调用 iframe 中的 Server）
+   * - window.opener（用于弹出窗口中的 Client 调用打开它的窗口中的 Server）
+   * - window.open 返回的弹出窗口（用于主页面中的 Client 调用弹出窗口中的 Server）
    */
   target?: Window;
   /**
@@ -67,12 +933,17 @@ export interface ClientTransportOptions {
    */
   parent?: Window;
   /**
-   * 允许的 origin，默认为 '*'
+   * 通信频道（命名空间），用于在同一对窗口之间运行多个互不干扰的 MCP 会话
+   * 只与配置了相同频道的对端通信，不配置时使用默认频道
    */
-  targetOrigin?: string;
+  channel?: string;
+  /**
+   * 单次握手尝试的超时时间（毫秒），默认 1000
+   */
+  handshakeTimeout?: number;
   /**
-   * 允许通信的域名白名单列表，不配置则允许所有域名
-   * 支持精确匹配和通配符，如：['https://example.com', '*.example.com']
+   * 握手失败后的重试次数，默认 5
+   * 全部尝试失败后，start() 会以握手失败错误 reject
    */
-  allowedOrigins?: string[];
+  handshakeRetries?: number;
 }
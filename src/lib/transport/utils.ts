@@ -0,0 +1,111 @@
+/**
+ * Transport 公共工具函数
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { ServerTransportOptions } from "./types.js";
+
+/**
+ * 解析 Server Transport 的目标窗口
+ */
+export function resolveTargetWindow(
+  target: ServerTransportOptions["target"]
+): Window {
+  // 支持 'parent' 模式：Server 在 iframe 中运行，与父窗口通信
+  if (target === "parent") {
+    if (window === window.parent) {
+      throw new Error("使用 'parent' 模式时，Server 必须在 iframe 中运行");
+    }
+    return window.parent;
+  }
+
+  // 支持 'opener' 模式：Server 在弹出窗口中运行，与打开它的窗口通信
+  if (target === "opener") {
+    if (!window.opener) {
+      throw new Error(
+        "使用 'opener' 模式时，Server 必须在通过 window.open 打开的窗口中运行"
+      );
+    }
+    return window.opener as Window;
+  }
+
+  if (target instanceof HTMLIFrameElement) {
+    if (!target.contentWindow) {
+      throw new Error("iframe contentWindow 不可用");
+    }
+    return target.contentWindow;
+  }
+  return target;
+}
+
+/**
+ * 检测目标窗口是否已关闭的轮询间隔（毫秒）
+ */
+const WINDOW_CLOSED_POLL_INTERVAL = 500;
+
+/**
+ * 监听窗口关闭（弹出窗口被关闭、iframe 被移除）
+ * 浏览器不提供跨域窗口的关闭事件，只能轮询 closed 属性
+ * @returns 停止监听的函数
+ */
+export function watchWindowClosed(
+  target: Window,
+  onClosed: () => void
+): () => void {
+  const timer = setInterval(() => {
+    if (target.closed) {
+      clearInterval(timer);
+      onClosed();
+    }
+  }, WINDOW_CLOSED_POLL_INTERVAL);
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * 获取指定频道使用的 post-robot 事件名
+ * 未配置频道时使用原事件名，保持与旧版本兼容
+ */
+export function getChannelEventName(
+  event: string,
+  channel: string | undefined
+): string {
+  return channel ? `${event}:${channel}` : event;
+}
+
+/**
+ * 生成会话 ID
+ */
+export function generateSessionId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * 等待指定时间
+ */
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 判断传入的对象是否为 Transport 实例
+ */
+export function isTransport(value: unknown): value is Transport {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Transport).start === "function" &&
+    typeof (value as Transport).send === "function" &&
+    typeof (value as Transport).close === "function"
+  );
+}
+
+/**
+ * 获取 Transport 对端的 origin，不支持或尚未确定时返回 undefined
+ */
+export function getPeerOrigin(transport: Transport): string | undefined {
+  return (transport as { peerOrigin?: string }).peerOrigin;
+}
@@ -0,0 +1,142 @@
+/**
+ * 入站消息校验
+ * 使用 SDK 的 JSON-RPC schema 校验收到的消息，避免其他脚本发来的畸形数据进入分发逻辑
+ */
+
+import {
+  ErrorCode,
+  JSONRPCErrorResponseSchema,
+  JSONRPCNotificationSchema,
+  JSONRPCRequestSchema,
+  JSONRPCResultResponseSchema,
+  type JSONRPCMessage,
+  type JSONRPCRequest,
+  type JSONRPCResponse,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * 单条消息的校验结果
+ * 校验失败时，形似请求的消息（带 id、不是响应）附带需要回复的 -32600 错误响应，其余为 null，应直接丢弃
+ */
+export type MessageValidationResult =
+  | { valid: true; message: JSONRPCMessage }
+  | { valid: false; error: Error; response: JSONRPCResponse | null };
+
+/**
+ * 收到的数据的解析结果
+ * 解析成功时 items 为待逐条校验的消息，batch 表示是否为批量数组
+ */
+export type PayloadParseResult =
+  | { valid: true; items: unknown[]; batch: boolean }
+  | { valid: false; error: Error; response: JSONRPCResponse };
+
+/**
+ * 构造无法关联到请求的错误响应
+ */
+function createErrorResponse(
+  id: JSONRPCRequest["id"] | null,
+  code: number,
+  message: string
+): JSONRPCResponse {
+  return {
+    jsonrpc: "2.0",
+    id,
+    error: { code, message },
+  } as JSONRPCResponse;
+}
+
+/**
+ * 解析收到的数据：字符串按 JSON 解析，数组作为批量消息
+ * JSON 解析失败返回 -32700，空的批量数组返回 -32600
+ */
+export function parsePayload(data: unknown): PayloadParseResult {
+  let payload = data;
+  if (typeof payload === "string") {
+    try {
+      payload = JSON.parse(payload);
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      return {
+        valid: false,
+        error: new Error(`无法解析的 JSON-RPC 消息: ${detail}`),
+        response: createErrorResponse(null, ErrorCode.ParseError, "解析错误"),
+      };
+    }
+  }
+
+  if (!Array.isArray(payload)) {
+    return { valid: true, items: [payload], batch: false };
+  }
+  if (payload.length === 0) {
+    return {
+      valid: false,
+      error: new Error("无效的 JSON-RPC 消息: 空的批量请求"),
+      response: createErrorResponse(
+        null,
+        ErrorCode.InvalidRequest,
+        "无效请求: 空的批量请求"
+      ),
+    };
+  }
+  return { valid: true, items: payload, batch: true };
+}
+
+/**
+ * 使用 SDK 的 JSON-RPC schema 校验单条消息
+ */
+export function validateMessage(data: unknown): MessageValidationResult {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return {
+      valid: false,
+      error: new Error("无效的 JSON-RPC 消息: 不是对象"),
+      response: null,
+    };
+  }
+
+  const message = data as Record<string, unknown>;
+  const isResponse = "result" in message || "error" in message;
+  let candidate: unknown = message;
+  let schema:
+    | typeof JSONRPCRequestSchema
+    | typeof JSONRPCNotificationSchema
+    | typeof JSONRPCResultResponseSchema
+    | typeof JSONRPCErrorResponseSchema;
+  if ("method" in message && !isResponse) {
+    schema = "id" in message ? JSONRPCRequestSchema : JSONRPCNotificationSchema;
+  } else if ("error" in message) {
+    schema = JSONRPCErrorResponseSchema;
+    // 无法确定请求 ID 时对端以 id: null 回复错误
+    if (message.id === null) {
+      candidate = { ...message, id: undefined };
+    }
+  } else if ("result" in message) {
+    schema = JSONRPCResultResponseSchema;
+  } else {
+    schema = JSONRPCRequestSchema;
+  }
+
+  const result = schema.safeParse(candidate);
+  if (result.success) {
+    return { valid: true, message: message as JSONRPCMessage };
+  }
+
+  const issue = result.error.issues[0];
+  const path = issue?.path.length ? issue.path.join(".") : "";
+  const error = new Error(
+    `无效的 JSON-RPC 消息: ${path ? `${path}: ` : ""}${issue?.message ?? ""}`
+  );
+
+  // 只回复形似请求的消息，通知与响应无法回复，直接丢弃
+  if (!("id" in message) || isResponse) {
+    return { valid: false, error, response: null };
+  }
+  const id =
+    typeof message.id === "string" || typeof message.id === "number"
+      ? message.id
+      : null;
+  return {
+    valid: false,
+    error,
+    response: createErrorResponse(id, ErrorCode.InvalidRequest, "无效请求"),
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * Client 端 Worker Transport 实现
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import {
+  DEFAULT_HANDSHAKE_RETRIES,
+  DEFAULT_HANDSHAKE_TIMEOUT,
+  MCP_WORKER_ACK,
+  MCP_WORKER_CLOSE,
+  MCP_WORKER_HELLO,
+  MCP_WORKER_MESSAGE,
+  MCP_WORKER_READY,
+  type MessageEndpoint,
+  type WorkerClientTransportOptions,
+  type WorkerEnvelope,
+} from "./types.js";
+import { generateSessionId } from "./utils.js";
+import { prepareTransfer } from "./binary.js";
+
+/**
+ * 基于 Worker 消息的 Client Transport
+ *
+ * 在页面中运行时，端点为 Worker 实例或 SharedWorker（使用其 port）；
+ * 在 Worker 内部运行时，默认端点为 self，与创建 Worker 的页面中的 Server 通信。
+ */
+export class WorkerClientTransport implements Transport {
+  private endpoint: MessageEndpoint;
+  private started = false;
+  private handshakeTimeout: number;
+  private handshakeRetries: number;
+
+  /**
+   * 基于结构化克隆，可直接传输二进制数据
+   */
+  readonly supportsBinary = true;
+
+  /**
+   * 握手时生成的会话 ID，不作为 Transport.sessionId 暴露（见 ChannelHandshakeMessage.sessionId）
+   */
+  private handshakeSessionId?: string;
+
+  onmessage?: (message: JSONRPCMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+
+  constructor(options: WorkerClientTransportOptions = {}) {
+    const endpoint =
+      options.endpoint ?? (globalThis as unknown as MessageEndpoint);
+    // SharedWorker 通过其 port 通信
+    this.endpoint =
+      typeof SharedWorker !== "undefined" && endpoint instanceof SharedWorker
+        ? endpoint.port
+        : (endpoint as MessageEndpoint);
+    this.handshakeTimeout = options.handshakeTimeout ?? DEFAULT_HANDSHAKE_TIMEOUT;
+    this.handshakeRetries = options.handshakeRetries ?? DEFAULT_HANDSHAKE_RETRIES;
+  }
+
+  /**
+   * 处理握手完成后端点上的消息
+   */
+  private handleEndpointMessage = (event: MessageEvent): void => {
+    const envelope = event.data as Partial<WorkerEnvelope> | null;
+    if (!envelope || envelope.sessionId !== this.handshakeSessionId) {
+      return;
+    }
+
+    if (envelope.type === MCP_WORKER_MESSAGE && envelope.payload) {
+      if (this.onmessage) {
+        this.onmessage(envelope.payload);
+      }
+    } else if (envelope.type === MCP_WORKER_CLOSE) {
+      this.close().catch((error) => {
+        if (this.onerror) {
+          this.onerror(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+    }
+  };
+
+  /**
+   * 发送 hello，等待 Server 的 ack
+   */
+  private handshake(sessionId: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const hello: WorkerEnvelope = { type: MCP_WORKER_HELLO, sessionId };
+      const attempts = this.handshakeRetries + 1;
+      let attempt = 0;
+      let attemptTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const nextAttempt = () => {
+        attempt++;
+        if (attempt > attempts) {
+          cleanup();
+          reject(
+            new Error(
+              `MCP 握手失败：Worker 中的 Server 在 ${attempts} 次尝试后仍未响应`
+            )
+          );
+          return;
+        }
+        this.endpoint.postMessage(hello);
+        attemptTimer = setTimeout(nextAttempt, this.handshakeTimeout);
+      };
+
+      const onMessage = (event: MessageEvent) => {
+        const envelope = event.data as Partial<WorkerEnvelope> | null;
+
+        // Server 刚开始监听，立即重发 hello，不计入重试次数
+        if (envelope?.type === MCP_WORKER_READY) {
+          this.endpoint.postMessage(hello);
+          return;
+        }
+
+        if (envelope?.type !== MCP_WORKER_ACK || envelope.sessionId !== sessionId) {
+          return;
+        }
+
+        cleanup();
+        resolve();
+      };
+
+      const cleanup = () => {
+        this.endpoint.removeEventListener("message", onMessage);
+        clearTimeout(attemptTimer);
+      };
+
+      this.endpoint.addEventListener("message", onMessage);
+      this.endpoint.start?.();
+      nextAttempt();
+    });
+  }
+
+  /**
+   * 启动 Transport，完成握手
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+
+    try {
+      const sessionId = generateSessionId();
+      await this.handshake(sessionId);
+      this.handshakeSessionId = sessionId;
+      this.endpoint.addEventListener("message", this.handleEndpointMessage);
+      this.started = true;
+    } catch (error) {
+      this.started = false;
+      if (this.onerror) {
+        this.onerror(error instanceof Error ? error : new Error(String(error)));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 发送消息到 Server
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.started || !this.handshakeSessionId) {
+      throw new Error("Transport 未启动");
+    }
+
+    try {
+      const { message: payload, transferables } = prepareTransfer(message);
+      const envelope: WorkerEnvelope = {
+        type: MCP_WORKER_MESSAGE,
+        sessionId: this.handshakeSessionId,
+        payload,
+      };
+      this.endpoint.postMessage(envelope, transferables);
+    } catch (error) {
+      if (this.onerror) {
+        this.onerror(error instanceof Error ? error : new Error(String(error)));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 关闭 Transport
+   */
+  async close(): Promise<void> {
+    if (!this.started) {
+      return;
+    }
+
+    this.endpoint.removeEventListener("message", this.handleEndpointMessage);
+    if (this.handshakeSessionId) {
+      const envelope: WorkerEnvelope = {
+        type: MCP_WORKER_CLOSE,
+        sessionId: this.handshakeSessionId,
+      };
+      this.endpoint.postMessage(envelope);
+      this.handshakeSessionId = undefined;
+    }
+    this.started = false;
+
+    if (this.onclose) {
+      this.onclose();
+    }
+  }
+}
+
+/**
+ * 创建 Worker Client Transport
+ */
+export function createWorkerClientTransport(
+  options?: WorkerClientTransportOptions
+): WorkerClientTransport {
+  return new WorkerClientTransport(options);
+}
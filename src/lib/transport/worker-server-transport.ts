@@ -0,0 +1,244 @@
+/**
+ * Server 端 Worker Transport 实现
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import {
+  MCP_WORKER_ACK,
+  MCP_WORKER_CLOSE,
+  MCP_WORKER_HELLO,
+  MCP_WORKER_MESSAGE,
+  MCP_WORKER_READY,
+  type MessageEndpoint,
+  type TransportListener,
+  type WorkerEnvelope,
+  type WorkerServerTransportOptions,
+} from "./types.js";
+import { prepareTransfer } from "./binary.js";
+
+/**
+ * 基于 Worker 消息的 Server Transport
+ *
+ * 既可以在 Worker 内部运行（默认端点为 self，与创建 Worker 的页面通信），
+ * 也可以在页面中运行（端点为 Worker 实例，与 Worker 中的 Client 通信）。
+ * 同一时间只服务一个会话，Client 重新握手时切换到新会话。
+ */
+export class WorkerServerTransport implements Transport {
+  private endpoint: MessageEndpoint;
+  private closeOnPeerClose: boolean;
+  private started = false;
+
+  /**
+   * 基于结构化克隆，可直接传输二进制数据
+   */
+  readonly supportsBinary = true;
+
+  /**
+   * 当前会话 ID（握手完成后可用）
+   */
+  sessionId?: string;
+
+  onmessage?: (message: JSONRPCMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+
+  constructor(options: WorkerServerTransportOptions = {}) {
+    this.endpoint =
+      options.endpoint ?? (globalThis as unknown as MessageEndpoint);
+    this.closeOnPeerClose = options.closeOnPeerClose ?? false;
+  }
+
+  /**
+   * 处理端点上的消息
+   */
+  private handleEndpointMessage = (event: MessageEvent): void => {
+    const envelope = event.data as Partial<WorkerEnvelope> | null;
+    if (!envelope || typeof envelope.sessionId !== "string") {
+      return;
+    }
+
+    switch (envelope.type) {
+      case MCP_WORKER_HELLO:
+        this.sessionId = envelope.sessionId;
+        this.post({ type: MCP_WORKER_ACK, sessionId: envelope.sessionId });
+        break;
+
+      case MCP_WORKER_MESSAGE:
+        if (envelope.sessionId === this.sessionId && envelope.payload) {
+          if (this.onmessage) {
+            this.onmessage(envelope.payload);
+          }
+        }
+        break;
+
+      case MCP_WORKER_CLOSE:
+        if (envelope.sessionId !== this.sessionId) {
+          return;
+        }
+        this.sessionId = undefined;
+        if (this.closeOnPeerClose) {
+          this.close().catch((error) => {
+            if (this.onerror) {
+              this.onerror(error instanceof Error ? error : new Error(String(error)));
+            }
+          });
+        }
+        break;
+    }
+  };
+
+  /**
+   * 在端点上投递信封
+   */
+  private post(envelope: WorkerEnvelope, transfer: Transferable[] = []): void {
+    this.endpoint.postMessage(envelope, transfer);
+  }
+
+  /**
+   * 启动 Transport，开始监听端点
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+
+    try {
+      this.endpoint.addEventListener("message", this.handleEndpointMessage);
+      this.endpoint.start?.();
+      this.started = true;
+
+      // 通知已在等待的 Client 立即重发 hello
+      this.post({ type: MCP_WORKER_READY });
+    } catch (error) {
+      this.started = false;
+      if (this.onerror) {
+        this.onerror(error instanceof Error ? error : new Error(String(error)));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 发送消息到 Client
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.started) {
+      throw new Error("Transport 未启动");
+    }
+    if (!this.sessionId) {
+      throw new Error("Worker 会话尚未建立");
+    }
+
+    try {
+      const { message: payload, transferables } = prepareTransfer(message);
+      this.post(
+        {
+          type: MCP_WORKER_MESSAGE,
+          sessionId: this.sessionId,
+          payload,
+        },
+        transferables
+      );
+    } catch (error) {
+      if (this.onerror) {
+        this.onerror(error instanceof Error ? error : new Error(String(error)));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 关闭 Transport
+   */
+  async close(): Promise<void> {
+    if (!this.started) {
+      return;
+    }
+
+    this.endpoint.removeEventListener("message", this.handleEndpointMessage);
+    if (this.sessionId) {
+      this.post({ type: MCP_WORKER_CLOSE, sessionId: this.sessionId });
+      this.sessionId = undefined;
+    }
+    this.started = false;
+
+    if (this.onclose) {
+      this.onclose();
+    }
+  }
+}
+
+/**
+ * SharedWorker 监听器
+ * 在 SharedWorker 内部运行，为每个连接的页面端口创建一个独立的 WorkerServerTransport
+ *
+ * @example
+ * ```ts
+ * // shared-worker.ts
+ * const server = new McpServer({ name: "shared-host", version: "1.0.0" });
+ * await server.listen(new SharedWorkerListener());
+ * ```
+ */
+export class SharedWorkerListener implements TransportListener {
+  private scope: EventTarget;
+  private listening = false;
+
+  onconnection?: (transport: Transport) => void;
+  onerror?: (error: Error) => void;
+
+  /**
+   * @param scope - 接收 connect 事件的对象，默认为当前全局作用域
+   */
+  constructor(scope: EventTarget = globalThis) {
+    this.scope = scope;
+  }
+
+  /**
+   * 处理新页面的连接
+   */
+  private handleConnect = (event: Event): void => {
+    const [port] = (event as MessageEvent).ports;
+    if (!port) {
+      return;
+    }
+
+    const transport = new WorkerServerTransport({
+      endpoint: port,
+      closeOnPeerClose: true,
+    });
+
+    if (this.onconnection) {
+      this.onconnection(transport);
+    }
+  };
+
+  /**
+   * 开始监听 connect 事件
+   */
+  async start(): Promise<void> {
+    if (this.listening) {
+      return;
+    }
+
+    this.scope.addEventListener("connect", this.handleConnect);
+    this.listening = true;
+  }
+
+  /**
+   * 停止监听
+   */
+  async close(): Promise<void> {
+    this.scope.removeEventListener("connect", this.handleConnect);
+    this.listening = false;
+  }
+}
+
+/**
+ * 创建 Worker Server Transport
+ */
+export function createWorkerServerTransport(
+  options?: WorkerServerTransportOptions
+): WorkerServerTransport {
+  return new WorkerServerTransport(options);
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { resolve } from 'path'
@@ -5,6 +6,11 @@ import { resolve } from 'path'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  test: {
+    include: ['src/**/*.test.ts'],
+    // 库代码运行在浏览器中，post-robot 在加载时即访问 window
+    environment: 'happy-dom',
+  },
   build: {
     rollupOptions: {
       input: {